@@ -1,15 +1,53 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+// The parts of ERC-20 and EIP-2612 the campaign uses for token donations
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+interface IERC20Permit {
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
+// Campaigns are EIP-1167 clones of one implementation deployed by the
+// factory, so their settings are set once by initialize rather than by a
+// constructor and live in storage instead of immutables
 contract Crowdfunding {
-    address public immutable owner;
-    uint256 public immutable fundraisingGoal;
+    address public owner;
+    uint256 public fundraisingGoal;
     uint256 public totalDonations;
-    uint256 public immutable deadline;
+    uint256 public deadline;
+    // Block the campaign was initialized in, where event indexers start scanning
+    uint256 public deploymentBlock;
+    // Share of the total donated in a milestone's asset (in basis points) that must vote for its decision to count
+    uint256 public quorumBps;
+    // Share of yes + no votes (in basis points) that must be yes to approve a milestone
+    uint256 public approvalThresholdBps;
     bool public campaignActive;
+    // Set by initialize, and by the constructor so the implementation itself can never be initialized
+    bool private initialized;
+    // Sum of milestone amounts being voted on or approved but unpaid, per
+    // asset (address(0) for ETH). New milestones and withdrawals can only use
+    // the balance above this
+    mapping(address => uint256) public committedFunds;
     
+    // ETH donations, which count toward fundraisingGoal and vote on ETH milestones
     mapping(address => uint256) public donations;
 
+    uint256 public constant MAX_ACCEPTED_TOKENS = 5;
+    // ERC-20 tokens (e.g. stablecoins) accepted besides ETH, fixed at deployment
+    address[] private acceptedTokens;
+    mapping(address => bool) public isAcceptedToken;
+    // Token donations: token => donor => amount, and totals per token
+    mapping(address => mapping(address => uint256)) public tokenDonations;
+    mapping(address => uint256) public tokenTotals;
+    // Goal per accepted token, in its smallest unit. Each asset's share of its
+    // own goal adds up toward funding the campaign
+    mapping(address => uint256) public tokenGoals;
+
     // Milestone structure
     struct Milestone {
         string description;
@@ -20,20 +58,74 @@ contract Crowdfunding {
         bool approved;
         bool fundsReleased;
         bool votingActive;
+        uint256 snapshotBlock; // Voting power is read from donations as of this block
+        uint256 abstainVotes;
+        uint256 quorumVotes; // Turnout (yes + no + abstain) needed for the vote to count
+        string evidence; // Proof of completion: IPFS hash or direct content, like updates
+        uint256 round; // Voting round, starting at 1 and bumped on each resubmission
+        bool cancelled;
+        address token; // Asset the milestone pays out: address(0) for ETH or an accepted token
+    }
+
+    // A donor's total donation from `fromBlock` onward
+    struct Checkpoint {
+        uint256 fromBlock;
+        uint256 amount;
+    }
+    
+    // A vote signed off-chain by `voter` over EIP-712 Vote(milestoneId, round, approve, nonce)
+    struct SignedVote {
+        uint256 milestoneId;
+        uint256 round;
+        bool approve;
+        address voter;
+        uint256 nonce;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
     }
     
-    // Campaign update structure
+    // Campaign update structure. Corrections are posted as new versions;
+    // version links hold an update ID + 1, with 0 meaning none
     struct CampaignUpdate {
         string title;
         string contentHash; // IPFS hash or direct content
         uint256 timestamp;
+        string[] tags;
+        uint256 supersedes; // Earlier version this one corrects
+        uint256 supersededBy; // Newer version, 0 while this one is current
     }
     
-    Milestone[] public milestones;
-    CampaignUpdate[] public updates;
+    uint256 public constant MAX_UPDATE_TAGS = 5;
+    uint256 public constant MAX_TAG_LENGTH = 32;
+
+    Milestone[] private milestones;
+    CampaignUpdate[] private updates;
+    // Update shown above the feed, as ID + 1 (0 when nothing is pinned)
+    uint256 public pinnedUpdate;
     
-    // Voting tracking: milestoneId => donor => voted
-    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    // Voting tracking: milestoneId => round => voter => voted
+    mapping(uint256 => mapping(uint256 => mapping(address => bool))) private roundVoted;
+
+    // Donation history per donor, one entry per block the balance changed in
+    mapping(address => Checkpoint[]) private donationCheckpoints;
+    // History of the total donated per asset (address(0) for ETH), used to
+    // size the quorum of milestones paying out that asset
+    mapping(address => Checkpoint[]) private totalCheckpoints;
+
+    // Who each donor has delegated their voting power to; address(0) means nobody
+    mapping(address => address) public delegates;
+    // Voting power history per asset and account: its own donations of the asset
+    // unless delegated away, plus those of everyone delegating to it. Milestones
+    // are voted on with the power in the asset they pay out
+    mapping(address => mapping(address => Checkpoint[])) private voteCheckpoints;
+
+    // EIP-712 type hashes for signed votes
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant VOTE_TYPEHASH = keccak256("Vote(uint256 milestoneId,uint256 round,bool approve,uint256 nonce)");
+    // Signed-vote nonces each donor has spent or revoked; any unused value is valid
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
     
     // Custom errors
     error UseDonateFunction();
@@ -50,42 +142,102 @@ contract Crowdfunding {
     error VotingNotActive();
     error VotingPeriodNotEnded();
     error AlreadyVoted();
-    error OnlyDonorsCanVote();
     error MilestoneNotApproved();
     error FundsAlreadyReleased();
     error InvalidMilestoneAmount();
     error EmptyDescription();
     error VotingStillActive();
+    error NoVotingPower();
+    error InvalidSignature();
+    error NonceAlreadyUsed();
+    error InvalidDelegate();
+    error MilestoneHasVotes();
+    error MilestoneNotResubmittable();
+    error ExceedsUnallocatedFunds();
+    error InvalidUpdate();
+    error UpdateAlreadySuperseded();
+    error InvalidTags();
+    error TokenNotAccepted();
+    error AlreadyInitialized();
 
     // Events
     event DonationReceived(address indexed donor, uint256 amount);
     event FundsWithdrawn(uint256 amount);
-    event MilestoneCreated(uint256 indexed milestoneId, string description, uint256 fundAmount);
+    event MilestoneCreated(uint256 indexed milestoneId, string description, uint256 fundAmount, address indexed token);
+    event MilestoneRoundOpened(uint256 indexed milestoneId, uint256 round, string evidence, uint256 voteDeadline);
+    event MilestoneAmended(uint256 indexed milestoneId, string description, string evidence);
+    event MilestoneCancelled(uint256 indexed milestoneId);
     event VoteCast(uint256 indexed milestoneId, address indexed voter, bool vote, uint256 weight);
+    event VoteAbstained(uint256 indexed milestoneId, address indexed voter, uint256 weight);
     event MilestoneApproved(uint256 indexed milestoneId);
     event MilestoneRejected(uint256 indexed milestoneId);
-    event MilestoneFundsReleased(uint256 indexed milestoneId, uint256 amount);
+    event MilestoneQuorumNotMet(uint256 indexed milestoneId, uint256 turnout, uint256 quorumVotes);
+    event MilestoneFundsReleased(uint256 indexed milestoneId, uint256 amount, address indexed token);
     event CampaignUpdatePosted(uint256 indexed updateId, string title, uint256 timestamp);
+    event UpdateSuperseded(uint256 indexed updateId, uint256 indexed newUpdateId);
+    event UpdatePinned(uint256 indexed updateId);
+    event UpdateUnpinned(uint256 indexed updateId);
     event RefundIssued(address indexed donor, uint256 amount);
+    event TokenDonationReceived(address indexed donor, address indexed token, uint256 amount);
+    event TokenRefundIssued(address indexed donor, address indexed token, uint256 amount);
+    event TokenFundsWithdrawn(address indexed token, uint256 amount);
+    event NonceInvalidated(address indexed voter, uint256 nonce);
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
     
-    modifier onlyDonor() {
-        if (donations[msg.sender] == 0) revert OnlyDonorsCanVote();
-        _;
+
+    /// @dev Locks the implementation; campaigns are clones set up by initialize
+    constructor() {
+        initialized = true;
     }
 
-    constructor(uint256 _goal, uint256 _durationDays) {
+    /// @dev Set up a campaign clone. The factory calls this in the same
+    ///      transaction that creates the clone
+    /// @param _goal ETH fundraising goal in wei
+    /// @param _durationDays Fundraising period in days
+    /// @param _owner Campaign owner (the factory passes the creator's address)
+    /// @param _quorumBps Minimum turnout as a share of total donations, in basis points
+    /// @param _approvalThresholdBps Minimum yes share of decisive votes, in basis points (5000 = simple majority)
+    /// @param _acceptedTokens ERC-20 tokens donors may give besides ETH, at most MAX_ACCEPTED_TOKENS
+    /// @param _tokenGoals Goal for each accepted token, in its smallest unit
+    function initialize(
+        uint256 _goal,
+        uint256 _durationDays,
+        address _owner,
+        uint256 _quorumBps,
+        uint256 _approvalThresholdBps,
+        address[] calldata _acceptedTokens,
+        uint256[] calldata _tokenGoals
+    ) external {
+        if (initialized) revert AlreadyInitialized();
+        initialized = true;
+
         require(_goal > 0, "Goal must be > 0");
         require(_durationDays > 0, "Duration must be > 0");
         require(block.timestamp + _durationDays * 1 days > block.timestamp, "Invalid deadline");
+        require(_owner != address(0), "Invalid owner");
+        require(_quorumBps <= 10000, "Invalid quorum");
+        require(_approvalThresholdBps >= 5000 && _approvalThresholdBps <= 10000, "Invalid approval threshold");
+        require(_acceptedTokens.length <= MAX_ACCEPTED_TOKENS, "Too many tokens");
+        require(_tokenGoals.length == _acceptedTokens.length, "Token goals mismatch");
+        for (uint256 i = 0; i < _acceptedTokens.length; i++) {
+            require(_acceptedTokens[i] != address(0) && !isAcceptedToken[_acceptedTokens[i]], "Invalid token");
+            require(_tokenGoals[i] > 0, "Token goal must be > 0");
+            isAcceptedToken[_acceptedTokens[i]] = true;
+            tokenGoals[_acceptedTokens[i]] = _tokenGoals[i];
+        }
+        acceptedTokens = _acceptedTokens;
 
-        owner = msg.sender;
+        owner = _owner;
         fundraisingGoal = _goal;
         deadline = block.timestamp + _durationDays * 1 days;
+        deploymentBlock = block.number;
+        quorumBps = _quorumBps;
+        approvalThresholdBps = _approvalThresholdBps;
         campaignActive = true;
     }
 
@@ -101,59 +253,194 @@ contract Crowdfunding {
 
         donations[msg.sender] += msg.value;
         totalDonations += msg.value;
+        _writeCheckpoint(donationCheckpoints[msg.sender], donations[msg.sender]);
+        _writeCheckpoint(totalCheckpoints[address(0)], totalDonations);
+        _moveVotes(address(0), address(0), votingDelegate(msg.sender), msg.value);
 
         emit DonationReceived(msg.sender, msg.value);
     }
 
+    /// @dev Donate an accepted ERC-20 token. The caller must have approved
+    ///      this contract for `_amount` first
+    /// @param _token Accepted token to donate
+    /// @param _amount Amount in the token's smallest unit
+    function donateToken(address _token, uint256 _amount) public {
+        if (!isAcceptedToken[_token]) revert TokenNotAccepted();
+        if (block.timestamp >= deadline) revert FundraisingClosed();
+        if (_amount == 0) revert InvalidDonationAmount();
+
+        // Credit what actually arrived, in case the token takes a transfer fee
+        uint256 balanceBefore = IERC20(_token).balanceOf(address(this));
+        _callToken(_token, abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), _amount)));
+        uint256 received = IERC20(_token).balanceOf(address(this)) - balanceBefore;
+
+        tokenDonations[_token][msg.sender] += received;
+        tokenTotals[_token] += received;
+        _writeCheckpoint(totalCheckpoints[_token], tokenTotals[_token]);
+        _moveVotes(_token, address(0), votingDelegate(msg.sender), received);
+
+        emit TokenDonationReceived(msg.sender, _token, received);
+    }
+
+    /// @dev Donate an accepted EIP-2612 token in one transaction, approving
+    ///      with a signed permit instead of a separate approve()
+    /// @param _token Accepted token to donate
+    /// @param _amount Amount in the token's smallest unit
+    /// @param _deadline Permit expiry timestamp
+    function donateTokenWithPermit(
+        address _token,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        if (!isAcceptedToken[_token]) revert TokenNotAccepted();
+
+        // Someone may have front-run the permit; the allowance is then already set
+        try IERC20Permit(_token).permit(msg.sender, address(this), _amount, _deadline, v, r, s) {} catch {}
+        donateToken(_token, _amount);
+    }
+
     /// @dev Create a new milestone for fund release (only owner)
     /// @param _description Description of the milestone
     /// @param _fundAmount Amount of funds to release for this milestone
     /// @param _votingDurationDays Duration of voting period in days
+    /// @param _evidence Proof of completion (IPFS hash or direct content), may be empty
+    /// @param _token Asset to pay out: address(0) for ETH or an accepted token
     function createMilestone(
         string calldata _description,
         uint256 _fundAmount,
-        uint256 _votingDurationDays
+        uint256 _votingDurationDays,
+        string calldata _evidence,
+        address _token
     ) external onlyOwner {
         if (bytes(_description).length == 0) revert EmptyDescription();
-        if (_fundAmount == 0 || _fundAmount > address(this).balance) revert InvalidMilestoneAmount();
-        if (_votingDurationDays == 0) revert InvalidMilestone();
+        if (_fundAmount == 0) revert InvalidMilestoneAmount();
+        if (_token != address(0) && !isAcceptedToken[_token]) revert TokenNotAccepted();
         
-        milestones.push(Milestone({
-            description: _description,
-            fundAmount: _fundAmount,
-            voteDeadline: block.timestamp + (_votingDurationDays * 1 days),
-            yesVotes: 0,
-            noVotes: 0,
-            approved: false,
-            fundsReleased: false,
-            votingActive: true
-        }));
+        Milestone storage milestone = milestones.push();
+        milestone.description = _description;
+        milestone.fundAmount = _fundAmount;
+        milestone.token = _token;
         
-        emit MilestoneCreated(milestones.length - 1, _description, _fundAmount);
+        emit MilestoneCreated(milestones.length - 1, _description, _fundAmount, _token);
+        _openRound(milestones.length - 1, _evidence, _votingDurationDays);
     }
     
-    /// @dev Vote on a milestone (weighted by donation amount)
+    /// @dev Fix the description or evidence of a milestone before anyone has voted
+    /// @param _milestoneId ID of the milestone to amend
+    /// @param _description New description
+    /// @param _evidence New evidence, may be empty
+    function amendMilestone(
+        uint256 _milestoneId,
+        string calldata _description,
+        string calldata _evidence
+    ) external onlyOwner {
+        if (bytes(_description).length == 0) revert EmptyDescription();
+        Milestone storage milestone = _untouchedMilestone(_milestoneId);
+        
+        milestone.description = _description;
+        milestone.evidence = _evidence;
+        
+        emit MilestoneAmended(_milestoneId, _description, _evidence);
+    }
+    
+    /// @dev Withdraw a milestone before anyone has voted on it
+    /// @param _milestoneId ID of the milestone to cancel
+    function cancelMilestone(uint256 _milestoneId) external onlyOwner {
+        Milestone storage milestone = _untouchedMilestone(_milestoneId);
+        
+        milestone.votingActive = false;
+        milestone.cancelled = true;
+        committedFunds[milestone.token] -= milestone.fundAmount;
+        
+        emit MilestoneCancelled(_milestoneId);
+    }
+    
+    /// @dev Put a rejected (or quorum-failed) milestone to a new vote with new evidence
+    /// @param _milestoneId ID of the milestone to resubmit
+    /// @param _evidence Evidence for the new round, may be empty
+    /// @param _votingDurationDays Duration of the new voting period in days
+    function resubmitMilestone(
+        uint256 _milestoneId,
+        string calldata _evidence,
+        uint256 _votingDurationDays
+    ) external onlyOwner {
+        if (_milestoneId >= milestones.length) revert InvalidMilestone();
+        
+        Milestone storage milestone = milestones[_milestoneId];
+        if (milestone.votingActive || milestone.approved || milestone.cancelled) revert MilestoneNotResubmittable();
+        
+        milestone.yesVotes = 0;
+        milestone.noVotes = 0;
+        milestone.abstainVotes = 0;
+        
+        _openRound(_milestoneId, _evidence, _votingDurationDays);
+    }
+    
+    /// @dev Vote on a milestone, weighted by the voter's voting power (own plus
+    ///      delegated donations of the asset it pays out) as of the milestone's
+    ///      snapshot block so late donations and delegations cannot swing it
     /// @param _milestoneId ID of the milestone to vote on
     /// @param _approve True to approve, false to reject
-    function voteOnMilestone(uint256 _milestoneId, bool _approve) external onlyDonor {
+    function voteOnMilestone(uint256 _milestoneId, bool _approve) external {
+        _castVote(_milestoneId, msg.sender, _approve);
+    }
+    
+    /// @dev Record a vote the donor signed off-chain; anyone may relay it
+    /// @param _vote The signed vote
+    function voteBySig(SignedVote calldata _vote) external {
+        _relayVote(_vote);
+    }
+    
+    /// @dev Relay a batch of signed votes in one transaction. Reverts if any
+    ///      vote is invalid, so relayers should drop stale votes first
+    /// @param _votes The signed votes
+    function castVotesBySig(SignedVote[] calldata _votes) external {
+        for (uint256 i = 0; i < _votes.length; i++) {
+            _relayVote(_votes[i]);
+        }
+    }
+    
+    /// @dev Hand your voting power in every asset to another address until you
+    ///      undelegate. Milestones already created keep counting the power held at their snapshot
+    /// @param _delegatee Address that will vote with your donations
+    function delegate(address _delegatee) external {
+        if (_delegatee == address(0)) revert InvalidDelegate();
+        _delegate(msg.sender, _delegatee);
+    }
+    
+    /// @dev Take back voting power previously delegated
+    function undelegate() external {
+        _delegate(msg.sender, msg.sender);
+    }
+    
+    /// @dev Revoke a signed vote that has not been relayed yet
+    /// @param _nonce Nonce of the signed vote to revoke
+    function invalidateNonce(uint256 _nonce) external {
+        if (usedNonces[msg.sender][_nonce]) revert NonceAlreadyUsed();
+        usedNonces[msg.sender][_nonce] = true;
+        emit NonceInvalidated(msg.sender, _nonce);
+    }
+    
+    /// @dev Abstain on a milestone: counts toward quorum but not toward approval
+    /// @param _milestoneId ID of the milestone to abstain on
+    function abstainOnMilestone(uint256 _milestoneId) external {
         if (_milestoneId >= milestones.length) revert InvalidMilestone();
         
         Milestone storage milestone = milestones[_milestoneId];
         
         if (!milestone.votingActive) revert VotingNotActive();
         if (block.timestamp > milestone.voteDeadline) revert VotingNotActive();
-        if (hasVoted[_milestoneId][msg.sender]) revert AlreadyVoted();
-        
-        uint256 voteWeight = donations[msg.sender];
-        hasVoted[_milestoneId][msg.sender] = true;
+        if (roundVoted[_milestoneId][milestone.round][msg.sender]) revert AlreadyVoted();
         
-        if (_approve) {
-            milestone.yesVotes += voteWeight;
-        } else {
-            milestone.noVotes += voteWeight;
-        }
+        uint256 voteWeight = _checkpointAt(voteCheckpoints[milestone.token][msg.sender], milestone.snapshotBlock);
+        if (voteWeight == 0) revert NoVotingPower();
+        roundVoted[_milestoneId][milestone.round][msg.sender] = true;
+        milestone.abstainVotes += voteWeight;
         
-        emit VoteCast(_milestoneId, msg.sender, _approve, voteWeight);
+        emit VoteAbstained(_milestoneId, msg.sender, voteWeight);
     }
     
     /// @dev Finalize milestone voting after deadline
@@ -168,12 +455,24 @@ contract Crowdfunding {
         
         milestone.votingActive = false;
         
-        // Require majority approval (> 50% of votes)
-        uint256 totalVotes = milestone.yesVotes + milestone.noVotes;
-        if (totalVotes > 0 && milestone.yesVotes > milestone.noVotes) {
+        // Too few donors took part for the outcome to count
+        uint256 turnout = milestone.yesVotes + milestone.noVotes + milestone.abstainVotes;
+        if (turnout == 0 || turnout < milestone.quorumVotes) {
+            committedFunds[milestone.token] -= milestone.fundAmount;
+            emit MilestoneQuorumNotMet(_milestoneId, turnout, milestone.quorumVotes);
+            return;
+        }
+        
+        // Yes must beat no and reach the approval threshold of decisive votes
+        uint256 decisiveVotes = milestone.yesVotes + milestone.noVotes;
+        if (
+            milestone.yesVotes > milestone.noVotes &&
+            milestone.yesVotes * 10000 >= decisiveVotes * approvalThresholdBps
+        ) {
             milestone.approved = true;
             emit MilestoneApproved(_milestoneId);
         } else {
+            committedFunds[milestone.token] -= milestone.fundAmount;
             emit MilestoneRejected(_milestoneId);
         }
     }
@@ -187,63 +486,166 @@ contract Crowdfunding {
         
         if (!milestone.approved) revert MilestoneNotApproved();
         if (milestone.fundsReleased) revert FundsAlreadyReleased();
-        if (address(this).balance < milestone.fundAmount) revert InsufficientContractBalance();
+        if (_balanceOf(milestone.token) < milestone.fundAmount) revert InsufficientContractBalance();
         
         milestone.fundsReleased = true;
+        committedFunds[milestone.token] -= milestone.fundAmount;
         
-        (bool success, ) = owner.call{value: milestone.fundAmount}("");
-        if (!success) revert TransferFailed();
+        _payOut(milestone.token, owner, milestone.fundAmount);
         
-        emit MilestoneFundsReleased(_milestoneId, milestone.fundAmount);
+        emit MilestoneFundsReleased(_milestoneId, milestone.fundAmount, milestone.token);
     }
     
     /// @dev Post a campaign update (only owner)
     /// @param _title Title of the update
     /// @param _contentHash Content or IPFS hash of the update
-    function postUpdate(string calldata _title, string calldata _contentHash) external onlyOwner {
+    /// @param _tags Up to MAX_UPDATE_TAGS labels such as "financial report", may be empty
+    function postUpdate(
+        string calldata _title,
+        string calldata _contentHash,
+        string[] calldata _tags
+    ) external onlyOwner {
+        _pushUpdate(_title, _contentHash, _tags, 0);
+    }
+
+    /// @dev Correct an update by posting a new version. The old version stays
+    ///      readable as history and a pin moves to the new version
+    /// @param _updateId ID of the current version being corrected
+    /// @param _title Title of the new version
+    /// @param _contentHash Content or IPFS hash of the new version
+    /// @param _tags Tags of the new version
+    function supersedeUpdate(
+        uint256 _updateId,
+        string calldata _title,
+        string calldata _contentHash,
+        string[] calldata _tags
+    ) external onlyOwner {
+        if (_updateId >= updates.length) revert InvalidUpdate();
+        if (updates[_updateId].supersededBy != 0) revert UpdateAlreadySuperseded();
+
+        uint256 newUpdateId = _pushUpdate(_title, _contentHash, _tags, _updateId + 1);
+        updates[_updateId].supersededBy = newUpdateId + 1;
+        if (pinnedUpdate == _updateId + 1) pinnedUpdate = newUpdateId + 1;
+
+        emit UpdateSuperseded(_updateId, newUpdateId);
+    }
+
+    /// @dev Pin a current update above the feed, replacing any earlier pin
+    /// @param _updateId ID of the update to pin
+    function pinUpdate(uint256 _updateId) external onlyOwner {
+        if (_updateId >= updates.length) revert InvalidUpdate();
+        if (updates[_updateId].supersededBy != 0) revert UpdateAlreadySuperseded();
+
+        pinnedUpdate = _updateId + 1;
+        emit UpdatePinned(_updateId);
+    }
+
+    /// @dev Remove the pin, if any
+    function unpinUpdate() external onlyOwner {
+        if (pinnedUpdate == 0) return;
+
+        uint256 updateId = pinnedUpdate - 1;
+        pinnedUpdate = 0;
+        emit UpdateUnpinned(updateId);
+    }
+
+    function _pushUpdate(
+        string calldata _title,
+        string calldata _contentHash,
+        string[] calldata _tags,
+        uint256 _supersedes
+    ) private returns (uint256 updateId) {
         if (bytes(_title).length == 0) revert EmptyDescription();
-        
-        updates.push(CampaignUpdate({
-            title: _title,
-            contentHash: _contentHash,
-            timestamp: block.timestamp
-        }));
-        
-        emit CampaignUpdatePosted(updates.length - 1, _title, block.timestamp);
+        if (_tags.length > MAX_UPDATE_TAGS) revert InvalidTags();
+
+        CampaignUpdate storage update = updates.push();
+        update.title = _title;
+        update.contentHash = _contentHash;
+        update.timestamp = block.timestamp;
+        update.supersedes = _supersedes;
+        for (uint256 i = 0; i < _tags.length; i++) {
+            uint256 length = bytes(_tags[i]).length;
+            if (length == 0 || length > MAX_TAG_LENGTH) revert InvalidTags();
+            update.tags.push(_tags[i]);
+        }
+
+        updateId = updates.length - 1;
+        emit CampaignUpdatePosted(updateId, _title, block.timestamp);
     }
 
-    /// @dev Allows owner to withdraw funds if goal is met or deadline passed
+    /// @dev Allows owner to withdraw unallocated funds if goal is met or deadline passed
     function withdraw() external onlyOwner {
-        if (!(block.timestamp >= deadline || totalDonations >= fundraisingGoal)) {
+        if (!(block.timestamp >= deadline || goalReached())) {
             revert WithdrawalNotAvailable();
         }
 
-        uint256 balance = address(this).balance;
-        if (balance == 0) revert NoFundsToWithdraw();
+        // Funds reserved for pending or approved milestones stay for donors to release
+        uint256 amount = availableFunds(address(0));
+        if (amount == 0) revert NoFundsToWithdraw();
 
-        (bool success, ) = owner.call{value: balance}("");
-        if (!success) revert TransferFailed();
+        _payOut(address(0), owner, amount);
 
-        emit FundsWithdrawn(balance);
+        emit FundsWithdrawn(amount);
     }
 
-    /// @dev Allows donors to refund their contribution if goal isn't met
+    /// @dev Token counterpart of withdraw(), under the same conditions
+    /// @param _token Accepted token to withdraw
+    function withdrawToken(address _token) external onlyOwner {
+        if (!isAcceptedToken[_token]) revert TokenNotAccepted();
+        if (!(block.timestamp >= deadline || goalReached())) {
+            revert WithdrawalNotAvailable();
+        }
+
+        uint256 amount = availableFunds(_token);
+        if (amount == 0) revert NoFundsToWithdraw();
+
+        _payOut(_token, owner, amount);
+
+        emit TokenFundsWithdrawn(_token, amount);
+    }
+
+    /// @dev Allows donors to refund their contribution if goal isn't met. Funds
+    ///      held by open or approved milestones stay put, so a refund may be
+    ///      partial and the rest claimed once those milestones close unpaid
     function refund() external {
-        if (!(block.timestamp >= deadline && totalDonations < fundraisingGoal)) {
+        if (!(block.timestamp >= deadline && !goalReached())) {
             revert RefundNotAvailable();
         }
+        if (donations[msg.sender] == 0) revert NoDonationToRefund();
 
-        uint256 amount = donations[msg.sender];
-        if (amount == 0) revert NoDonationToRefund();
+        uint256 amount = _refundable(address(0), donations[msg.sender]);
 
-        donations[msg.sender] = 0;
+        donations[msg.sender] -= amount;
         totalDonations -= amount;
+        _writeCheckpoint(donationCheckpoints[msg.sender], donations[msg.sender]);
+        _writeCheckpoint(totalCheckpoints[address(0)], totalDonations);
+        _moveVotes(address(0), votingDelegate(msg.sender), address(0), amount);
         
-        (bool success, ) = msg.sender.call{value: amount}("");
-        if (!success) revert TransferFailed();
+        _payOut(address(0), msg.sender, amount);
         
         emit RefundIssued(msg.sender, amount);
     }
+
+    /// @dev Token counterpart of refund(), under the same conditions and
+    ///      capped the same way by the token's unallocated balance
+    /// @param _token Token to reclaim a donation of
+    function refundToken(address _token) external {
+        if (!(block.timestamp >= deadline && !goalReached())) {
+            revert RefundNotAvailable();
+        }
+        if (tokenDonations[_token][msg.sender] == 0) revert NoDonationToRefund();
+
+        uint256 amount = _refundable(_token, tokenDonations[_token][msg.sender]);
+
+        tokenDonations[_token][msg.sender] -= amount;
+        tokenTotals[_token] -= amount;
+        _writeCheckpoint(totalCheckpoints[_token], tokenTotals[_token]);
+        _moveVotes(_token, votingDelegate(msg.sender), address(0), amount);
+
+        _payOut(_token, msg.sender, amount);
+
+        emit TokenRefundIssued(msg.sender, _token, amount);
+    }
     
     /// @dev End the campaign (only owner)
     function endCampaign() external onlyOwner {
@@ -255,8 +657,26 @@ contract Crowdfunding {
     /// @dev Returns progress toward goal as a percentage (0-100)
     /// @return uint256 percentage of goal reached (rounded down)
     function progressPercentage() external view returns (uint256) {
-        if (fundraisingGoal == 0) return 0;
-        return (totalDonations * 100) / fundraisingGoal;
+        return fundedBps() / 100;
+    }
+
+    /// @dev Progress toward the goal in basis points: each asset's donations as
+    ///      a share of its own goal, added up. Half the ETH goal plus half the
+    ///      USDC goal makes 10000
+    /// @return bps progress, 10000 or more once funded
+    function fundedBps() public view returns (uint256 bps) {
+        bps = (totalDonations * 10000) / fundraisingGoal;
+        for (uint256 i = 0; i < acceptedTokens.length; i++) {
+            address token = acceptedTokens[i];
+            bps += (tokenTotals[token] * 10000) / tokenGoals[token];
+        }
+    }
+
+    /// @dev Whether the campaign is funded, which allows withdrawal before the
+    ///      deadline and rules out refunds after it
+    /// @return bool true once fundedBps() reaches 10000
+    function goalReached() public view returns (bool) {
+        return fundedBps() >= 10000;
     }
 
     /// @dev Returns remaining time in seconds until deadline
@@ -279,40 +699,108 @@ contract Crowdfunding {
     
     /// @dev Get detailed milestone information
     /// @param _milestoneId ID of the milestone
-    function getMilestone(uint256 _milestoneId) external view returns (
-        string memory description,
-        uint256 fundAmount,
-        uint256 voteDeadline,
-        uint256 yesVotes,
-        uint256 noVotes,
-        bool approved,
-        bool fundsReleased,
-        bool votingActive
-    ) {
+    /// @return milestone the milestone, including its current voting round
+    function getMilestone(uint256 _milestoneId) external view returns (Milestone memory milestone) {
         if (_milestoneId >= milestones.length) revert InvalidMilestone();
-        Milestone memory m = milestones[_milestoneId];
-        return (
-            m.description,
-            m.fundAmount,
-            m.voteDeadline,
-            m.yesVotes,
-            m.noVotes,
-            m.approved,
-            m.fundsReleased,
-            m.votingActive
-        );
+        return milestones[_milestoneId];
     }
     
     /// @dev Get campaign update details
     /// @param _updateId ID of the update
-    function getUpdate(uint256 _updateId) external view returns (
-        string memory title,
-        string memory contentHash,
-        uint256 timestamp
-    ) {
-        require(_updateId < updates.length, "Invalid update ID");
-        CampaignUpdate memory u = updates[_updateId];
-        return (u.title, u.contentHash, u.timestamp);
+    /// @return update the update, including its tags and version links
+    function getUpdate(uint256 _updateId) external view returns (CampaignUpdate memory update) {
+        if (_updateId >= updates.length) revert InvalidUpdate();
+        return updates[_updateId];
+    }
+    
+    /// @dev Get a page of milestones in one call
+    /// @param _offset ID of the first milestone in the page
+    /// @param _limit Maximum number of milestones to return
+    /// @return page Milestones `_offset` to `_offset + _limit`, clamped to the milestone count
+    function getMilestones(uint256 _offset, uint256 _limit) external view returns (Milestone[] memory page) {
+        uint256 end = _pageEnd(milestones.length, _offset, _limit);
+        page = new Milestone[](end > _offset ? end - _offset : 0);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = milestones[_offset + i];
+        }
+    }
+    
+    /// @dev Get a page of campaign updates in one call
+    /// @param _offset ID of the first update in the page
+    /// @param _limit Maximum number of updates to return
+    /// @return page Updates `_offset` to `_offset + _limit`, clamped to the update count
+    function getUpdates(uint256 _offset, uint256 _limit) external view returns (CampaignUpdate[] memory page) {
+        uint256 end = _pageEnd(updates.length, _offset, _limit);
+        page = new CampaignUpdate[](end > _offset ? end - _offset : 0);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = updates[_offset + i];
+        }
+    }
+    
+    /// @dev Voting power of an address on a milestone: its own and delegated
+    ///      donations of the milestone's asset as of its snapshot block
+    /// @param _milestoneId ID of the milestone
+    /// @param _voter Address to check
+    /// @return uint256 vote weight in the asset's smallest unit
+    function getVotingPower(uint256 _milestoneId, address _voter) external view returns (uint256) {
+        if (_milestoneId >= milestones.length) revert InvalidMilestone();
+        Milestone storage milestone = milestones[_milestoneId];
+        return _checkpointAt(voteCheckpoints[milestone.token][_voter], milestone.snapshotBlock);
+    }
+    
+    /// @dev Total donation of an address at the end of a past or current block
+    /// @param _donor Address to check
+    /// @param _blockNumber Block to read the balance at
+    /// @return uint256 donation in wei
+    function getDonationsAt(address _donor, uint256 _blockNumber) external view returns (uint256) {
+        return _checkpointAt(donationCheckpoints[_donor], _blockNumber);
+    }
+    
+    /// @dev Balance of an asset not reserved for milestones, available for new milestones or withdrawal
+    /// @param _token address(0) for ETH, or an accepted token
+    /// @return uint256 unallocated funds in the asset's smallest unit
+    function availableFunds(address _token) public view returns (uint256) {
+        uint256 balance = _balanceOf(_token);
+        return balance > committedFunds[_token] ? balance - committedFunds[_token] : 0;
+    }
+
+    /// @dev ERC-20 tokens accepted besides ETH
+    /// @return address[] the token addresses
+    function getAcceptedTokens() external view returns (address[] memory) {
+        return acceptedTokens;
+    }
+    
+    /// @dev Address that votes with a donor's donations: their delegate, or themselves
+    /// @param _donor Address to check
+    /// @return address the effective voter
+    function votingDelegate(address _donor) public view returns (address) {
+        address delegatee = delegates[_donor];
+        return delegatee == address(0) ? _donor : delegatee;
+    }
+    
+    /// @dev Current voting power of an account on ETH milestones, own and delegated
+    /// @param _account Address to check
+    /// @return uint256 voting power in wei
+    function getVotes(address _account) external view returns (uint256) {
+        return getTokenVotes(address(0), _account);
+    }
+
+    /// @dev Current voting power of an account on milestones paying out an asset
+    /// @param _token address(0) for ETH, or an accepted token
+    /// @param _account Address to check
+    /// @return uint256 voting power in the asset's smallest unit
+    function getTokenVotes(address _token, address _account) public view returns (uint256) {
+        Checkpoint[] storage checkpoints = voteCheckpoints[_token][_account];
+        return checkpoints.length == 0 ? 0 : checkpoints[checkpoints.length - 1].amount;
+    }
+    
+    /// @dev Check if an address has voted (or abstained) in a milestone's current round
+    /// @param _milestoneId ID of the milestone
+    /// @param _voter Address to check
+    /// @return bool true if the address has voted
+    function hasVoted(uint256 _milestoneId, address _voter) public view returns (bool) {
+        if (_milestoneId >= milestones.length) revert InvalidMilestone();
+        return roundVoted[_milestoneId][milestones[_milestoneId].round][_voter];
     }
     
     /// @dev Check if an address has voted on a milestone
@@ -320,7 +808,7 @@ contract Crowdfunding {
     /// @param _voter Address to check
     /// @return bool true if the address has voted
     function hasUserVoted(uint256 _milestoneId, address _voter) external view returns (bool) {
-        return hasVoted[_milestoneId][_voter];
+        return hasVoted(_milestoneId, _voter);
     }
     
     /// @dev Get voting progress for a milestone
@@ -335,4 +823,313 @@ contract Crowdfunding {
         if (total == 0) return 0;
         return (m.yesVotes * 100) / total;
     }
+    
+    /// @dev EIP-712 domain signed votes are bound to; includes the chain ID so
+    ///      votes cannot be replayed on a fork
+    /// @return bytes32 the domain separator
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256(bytes("PhilanChain Crowdfunding")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    // ============ Internal Functions ============
+
+    /// @dev Starts the next voting round of a milestone with a fresh snapshot
+    function _openRound(uint256 _milestoneId, string calldata _evidence, uint256 _votingDurationDays) private {
+        if (_votingDurationDays == 0) revert InvalidMilestone();
+        
+        Milestone storage milestone = milestones[_milestoneId];
+        
+        // Every open round reserves its amount out of the unallocated balance
+        if (milestone.fundAmount > availableFunds(milestone.token)) revert ExceedsUnallocatedFunds();
+        committedFunds[milestone.token] += milestone.fundAmount;
+        
+        // Donations landing in the opening block itself never count
+        uint256 snapshotBlock = block.number - 1;
+        
+        milestone.evidence = _evidence;
+        milestone.voteDeadline = block.timestamp + (_votingDurationDays * 1 days);
+        milestone.votingActive = true;
+        milestone.snapshotBlock = snapshotBlock;
+        milestone.quorumVotes = (_checkpointAt(totalCheckpoints[milestone.token], snapshotBlock) * quorumBps) / 10000;
+        milestone.round += 1;
+        
+        emit MilestoneRoundOpened(_milestoneId, milestone.round, _evidence, milestone.voteDeadline);
+    }
+
+    /// @dev A milestone in its voting window that nobody has voted on yet
+    function _untouchedMilestone(uint256 _milestoneId) private view returns (Milestone storage milestone) {
+        if (_milestoneId >= milestones.length) revert InvalidMilestone();
+        
+        milestone = milestones[_milestoneId];
+        if (!milestone.votingActive) revert VotingNotActive();
+        if (milestone.yesVotes + milestone.noVotes + milestone.abstainVotes > 0) revert MilestoneHasVotes();
+    }
+
+    /// @dev Shared by direct and signed votes; `_voter` must already be authenticated
+    function _castVote(uint256 _milestoneId, address _voter, bool _approve) private {
+        if (_milestoneId >= milestones.length) revert InvalidMilestone();
+        
+        Milestone storage milestone = milestones[_milestoneId];
+        
+        if (!milestone.votingActive) revert VotingNotActive();
+        if (block.timestamp > milestone.voteDeadline) revert VotingNotActive();
+        if (roundVoted[_milestoneId][milestone.round][_voter]) revert AlreadyVoted();
+        
+        uint256 voteWeight = _checkpointAt(voteCheckpoints[milestone.token][_voter], milestone.snapshotBlock);
+        if (voteWeight == 0) revert NoVotingPower();
+        roundVoted[_milestoneId][milestone.round][_voter] = true;
+        
+        if (_approve) {
+            milestone.yesVotes += voteWeight;
+        } else {
+            milestone.noVotes += voteWeight;
+        }
+        
+        emit VoteCast(_milestoneId, _voter, _approve, voteWeight);
+    }
+
+    /// @dev Checks the signature and nonce of a signed vote, then casts it
+    function _relayVote(SignedVote calldata _vote) private {
+        bytes32 structHash = keccak256(
+            abi.encode(VOTE_TYPEHASH, _vote.milestoneId, _vote.round, _vote.approve, _vote.nonce)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        
+        // Reject malleable (high-s) signatures so each vote has one valid encoding
+        if (uint256(_vote.s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        address signer = ecrecover(digest, _vote.v, _vote.r, _vote.s);
+        if (signer == address(0) || signer != _vote.voter) revert InvalidSignature();
+        if (usedNonces[signer][_vote.nonce]) revert NonceAlreadyUsed();
+        
+        // A vote signed for an earlier round must not carry over to resubmitted evidence
+        if (_vote.milestoneId < milestones.length && milestones[_vote.milestoneId].round != _vote.round) {
+            revert VotingNotActive();
+        }
+        
+        usedNonces[signer][_vote.nonce] = true;
+        _castVote(_vote.milestoneId, signer, _vote.approve);
+    }
+
+    /// @dev Points a donor's voting power in every asset at `_delegatee` (themselves to undelegate)
+    function _delegate(address _delegator, address _delegatee) private {
+        address fromDelegate = votingDelegate(_delegator);
+        delegates[_delegator] = _delegatee == _delegator ? address(0) : _delegatee;
+        emit DelegateChanged(_delegator, fromDelegate, _delegatee);
+        _moveVotes(address(0), fromDelegate, _delegatee, donations[_delegator]);
+        for (uint256 i = 0; i < acceptedTokens.length; i++) {
+            address token = acceptedTokens[i];
+            _moveVotes(token, fromDelegate, _delegatee, tokenDonations[token][_delegator]);
+        }
+    }
+
+    /// @dev Shifts voting power in an asset between accounts; address(0) mints or burns it
+    function _moveVotes(address _asset, address _from, address _to, uint256 _amount) private {
+        if (_from == _to || _amount == 0) return;
+        if (_from != address(0)) {
+            Checkpoint[] storage fromCheckpoints = voteCheckpoints[_asset][_from];
+            _writeCheckpoint(fromCheckpoints, fromCheckpoints[fromCheckpoints.length - 1].amount - _amount);
+        }
+        if (_to != address(0)) {
+            Checkpoint[] storage toCheckpoints = voteCheckpoints[_asset][_to];
+            uint256 current = toCheckpoints.length == 0 ? 0 : toCheckpoints[toCheckpoints.length - 1].amount;
+            _writeCheckpoint(toCheckpoints, current + _amount);
+        }
+    }
+
+    /// @dev Records a new balance, overwriting an entry from the same block
+    function _writeCheckpoint(Checkpoint[] storage checkpoints, uint256 _amount) private {
+        uint256 length = checkpoints.length;
+        if (length > 0 && checkpoints[length - 1].fromBlock == block.number) {
+            checkpoints[length - 1].amount = _amount;
+        } else {
+            checkpoints.push(Checkpoint({fromBlock: block.number, amount: _amount}));
+        }
+    }
+
+    /// @dev Binary search for the balance at the end of `_blockNumber`
+    function _checkpointAt(Checkpoint[] storage checkpoints, uint256 _blockNumber) private view returns (uint256) {
+        uint256 low = 0;
+        uint256 high = checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].fromBlock > _blockNumber) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return low == 0 ? 0 : checkpoints[low - 1].amount;
+    }
+
+    /// @dev Caps a refund at the asset's unallocated balance
+    function _refundable(address _asset, uint256 _donation) private view returns (uint256 amount) {
+        uint256 available = availableFunds(_asset);
+        amount = _donation < available ? _donation : available;
+        if (amount == 0) revert ExceedsUnallocatedFunds();
+    }
+
+    /// @dev This contract's balance of ETH (address(0)) or a token
+    function _balanceOf(address _token) private view returns (uint256) {
+        return _token == address(0) ? address(this).balance : IERC20(_token).balanceOf(address(this));
+    }
+
+    /// @dev Sends ETH (address(0)) or a token
+    function _payOut(address _token, address _to, uint256 _amount) private {
+        if (_token == address(0)) {
+            (bool success, ) = _to.call{value: _amount}("");
+            if (!success) revert TransferFailed();
+        } else {
+            _callToken(_token, abi.encodeCall(IERC20.transfer, (_to, _amount)));
+        }
+    }
+
+    /// @dev Calls a token, accepting tokens that return true and ones that return nothing
+    function _callToken(address _token, bytes memory _data) private {
+        (bool success, bytes memory result) = _token.call(_data);
+        if (!success || (result.length > 0 && !abi.decode(result, (bool)))) revert TransferFailed();
+    }
+
+    /// @dev Exclusive end index of a page, never past `_length`
+    function _pageEnd(uint256 _length, uint256 _offset, uint256 _limit) private pure returns (uint256) {
+        if (_offset >= _length) return _offset;
+        return _length - _offset < _limit ? _length : _offset + _limit;
+    }
+}
+
+contract CrowdfundingFactory {
+    // Campaign index entry
+    struct CampaignInfo {
+        address campaign;
+        address owner;
+        string title;
+        string description;
+        uint256 fundraisingGoal;
+        uint256 deadline;
+        uint256 createdAt;
+    }
+
+    CampaignInfo[] public campaigns;
+
+    // Campaign logic every campaign delegates to, deployed with the factory
+    address public immutable implementation;
+
+    // Lets the frontend check that an address was deployed by this factory
+    mapping(address => bool) public isCampaign;
+
+    error EmptyTitle();
+    error InvalidCampaignId();
+    error CloneFailed();
+
+    event CampaignCreated(
+        uint256 indexed campaignId,
+        address indexed campaign,
+        address indexed owner,
+        string title,
+        uint256 fundraisingGoal,
+        uint256 deadline
+    );
+
+    constructor() {
+        implementation = address(new Crowdfunding());
+    }
+
+    /// @dev Deploy a new Crowdfunding campaign owned by the caller, as a
+    ///      minimal proxy (EIP-1167) of the implementation
+    /// @param _goal ETH fundraising goal in wei
+    /// @param _durationDays Fundraising period in days
+    /// @param _quorumBps Minimum milestone vote turnout as a share of total donations, in basis points
+    /// @param _approvalThresholdBps Minimum yes share of decisive milestone votes, in basis points
+    /// @param _title Campaign title shown in the campaign browser
+    /// @param _description Campaign description or IPFS hash
+    /// @param _acceptedTokens ERC-20 tokens the campaign accepts besides ETH
+    /// @param _tokenGoals Goal for each accepted token, in its smallest unit
+    /// @return campaign Address of the deployed campaign
+    function createCampaign(
+        uint256 _goal,
+        uint256 _durationDays,
+        uint256 _quorumBps,
+        uint256 _approvalThresholdBps,
+        string calldata _title,
+        string calldata _description,
+        address[] memory _acceptedTokens,
+        uint256[] memory _tokenGoals
+    ) external returns (address campaign) {
+        if (bytes(_title).length == 0) revert EmptyTitle();
+
+        Crowdfunding deployed = Crowdfunding(payable(_clone(implementation)));
+        deployed.initialize(
+            _goal,
+            _durationDays,
+            msg.sender,
+            _quorumBps,
+            _approvalThresholdBps,
+            _acceptedTokens,
+            _tokenGoals
+        );
+        campaign = address(deployed);
+        _registerCampaign(deployed, _title, _description);
+    }
+
+    // ============ View Functions ============
+
+    /// @dev Get total number of campaigns deployed by this factory
+    /// @return uint256 total campaign count
+    function getCampaignCount() external view returns (uint256) {
+        return campaigns.length;
+    }
+
+    /// @dev Get index details of a campaign
+    /// @param _campaignId ID of the campaign
+    function getCampaign(uint256 _campaignId) external view returns (
+        address campaign,
+        address owner,
+        string memory title,
+        string memory description,
+        uint256 fundraisingGoal,
+        uint256 deadline,
+        uint256 createdAt
+    ) {
+        if (_campaignId >= campaigns.length) revert InvalidCampaignId();
+        CampaignInfo memory c = campaigns[_campaignId];
+        return (c.campaign, c.owner, c.title, c.description, c.fundraisingGoal, c.deadline, c.createdAt);
+    }
+
+    /// @dev Deploy an EIP-1167 minimal proxy forwarding every call to `_target`
+    function _clone(address _target) private returns (address instance) {
+        assembly ("memory-safe") {
+            // Proxy creation code up to the first 3 bytes of the target address
+            mstore(0x00, or(shr(0xe8, shl(0x60, _target)), 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000))
+            // Remaining 17 bytes of the address and the rest of the proxy code
+            mstore(0x20, or(shl(0x78, _target), 0x5af43d82803e903d91602b57fd5bf3))
+            instance := create(0, 0x09, 0x37)
+        }
+        if (instance == address(0)) revert CloneFailed();
+    }
+
+    /// @dev Index a freshly deployed campaign. Split out of createCampaign
+    ///      to keep its stack shallow
+    function _registerCampaign(Crowdfunding _deployed, string calldata _title, string calldata _description) private {
+        address campaign = address(_deployed);
+        uint256 goal = _deployed.fundraisingGoal();
+        uint256 campaignDeadline = _deployed.deadline();
+
+        campaigns.push(CampaignInfo({
+            campaign: campaign,
+            owner: msg.sender,
+            title: _title,
+            description: _description,
+            fundraisingGoal: goal,
+            deadline: campaignDeadline,
+            createdAt: block.timestamp
+        }));
+        isCampaign[campaign] = true;
+
+        emit CampaignCreated(campaigns.length - 1, campaign, msg.sender, _title, goal, campaignDeadline);
+    }
 }
@@ -0,0 +1,70 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { delegatorsOf, donationAt } from './delegations';
+
+const ALICE = '0x00000000000000000000000000000000000000Aa';
+const BOB = '0x00000000000000000000000000000000000000bB';
+const CAROL = '0x00000000000000000000000000000000000000cC';
+
+let logIndex = 0;
+const delegation = (
+  delegator: string,
+  fromDelegate: string,
+  toDelegate: string,
+  blockNumber = 1
+): CrowdfundingEventRecord => ({
+  name: 'DelegateChanged',
+  delegator,
+  fromDelegate,
+  toDelegate,
+  txHash: '0x01',
+  blockNumber,
+  logIndex: logIndex++,
+});
+
+test('counts only the latest delegation of each donor', () => {
+  const events = [
+    delegation(ALICE, ALICE, CAROL),
+    delegation(BOB, BOB, CAROL.toLowerCase()),
+    delegation(ALICE, CAROL, BOB),
+  ];
+
+  expect(delegatorsOf(events, CAROL)).toEqual([BOB]);
+  expect(delegatorsOf(events, BOB)).toEqual([ALICE]);
+});
+
+test('drops donors who took their voting power back', () => {
+  const events = [delegation(ALICE, ALICE, CAROL), delegation(ALICE, CAROL, ALICE)];
+
+  expect(delegatorsOf(events, CAROL)).toEqual([]);
+  expect(delegatorsOf(events, ALICE)).toEqual([]);
+});
+
+test('counts delegations as of a snapshot block', () => {
+  const events = [
+    delegation(ALICE, ALICE, CAROL, 10),
+    delegation(BOB, BOB, CAROL, 20),
+    delegation(ALICE, CAROL, ALICE, 30),
+  ];
+
+  expect(delegatorsOf(events, CAROL, 9)).toEqual([]);
+  expect(delegatorsOf(events, CAROL, 20)).toEqual([ALICE, BOB]);
+  expect(delegatorsOf(events, CAROL, 29)).toEqual([ALICE, BOB]);
+  expect(delegatorsOf(events, CAROL)).toEqual([BOB]);
+});
+
+test('replays donations and refunds of one asset up to a block', () => {
+  const USDC = '0x00000000000000000000000000000000000000Dd';
+  const at = (blockNumber: number) => ({ txHash: '0x01', blockNumber, logIndex: logIndex++ });
+  const events: CrowdfundingEventRecord[] = [
+    { name: 'DonationReceived', donor: ALICE, amount: 5n, ...at(10) },
+    { name: 'TokenDonationReceived', donor: ALICE.toLowerCase(), token: USDC, amount: 7n, ...at(11) },
+    { name: 'DonationReceived', donor: BOB, amount: 1n, ...at(12) },
+    { name: 'RefundIssued', donor: ALICE, amount: 2n, ...at(20) },
+  ];
+
+  expect(donationAt(events, ALICE, null, 9)).toBe(0n);
+  expect(donationAt(events, ALICE, null, 19)).toBe(5n);
+  expect(donationAt(events, ALICE, null)).toBe(3n);
+  expect(donationAt(events, ALICE, USDC.toLowerCase())).toBe(7n);
+  expect(donationAt(events, BOB, USDC)).toBe(0n);
+});
@@ -0,0 +1,43 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+
+/**
+ * Donors delegating their voting power to `delegate`, found by replaying
+ * DelegateChanged events in chain order. With `atBlock`, only delegations up
+ * to and including that block count, the way the contract reads a milestone's
+ * snapshot. Addresses are compared case-insensitively; other events are ignored.
+ */
+export const delegatorsOf = (events: CrowdfundingEventRecord[], delegate: string, atBlock = Infinity): string[] => {
+  // Latest delegate per donor, keyed by lowercased donor address
+  const current = new Map<string, { delegator: string; toDelegate: string }>();
+  for (const event of events) {
+    if (event.name !== 'DelegateChanged' || event.blockNumber > atBlock) continue;
+    current.set(event.delegator.toLowerCase(), event);
+  }
+
+  const target = delegate.toLowerCase();
+  return Array.from(current.values())
+    .filter((d) => d.toDelegate.toLowerCase() === target && d.delegator.toLowerCase() !== target)
+    .map((d) => d.delegator);
+};
+
+/**
+ * What `donor` had donated of an asset (a token address, or null for ETH) at
+ * the end of `atBlock`, net of refunds, from the donation and refund events.
+ */
+export const donationAt = (
+  events: CrowdfundingEventRecord[],
+  donor: string,
+  token: string | null,
+  atBlock = Infinity
+): bigint => {
+  const target = donor.toLowerCase();
+  let total = 0n;
+  for (const event of events) {
+    if (event.blockNumber > atBlock || !('donor' in event) || event.donor.toLowerCase() !== target) continue;
+    const eventToken = 'token' in event ? event.token.toLowerCase() : null;
+    if (eventToken !== (token === null ? null : token.toLowerCase())) continue;
+    if (event.name === 'DonationReceived' || event.name === 'TokenDonationReceived') total += event.amount;
+    if (event.name === 'RefundIssued' || event.name === 'TokenRefundIssued') total -= event.amount;
+  }
+  return total;
+};
@@ -0,0 +1,44 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { analyzeDonors, cumulativeFunding } from './donorAnalytics';
+
+const ALICE = '0x00000000000000000000000000000000000000Aa';
+const BOB = '0x00000000000000000000000000000000000000bB';
+
+let logIndex = 0;
+const event = (
+  name: 'DonationReceived' | 'RefundIssued',
+  donor: string,
+  amount: bigint,
+  blockNumber: number
+): CrowdfundingEventRecord => ({ name, donor, amount, txHash: '0x01', blockNumber, logIndex: logIndex++ });
+
+const events = [
+  event('DonationReceived', ALICE, 1n, 1),
+  event('DonationReceived', BOB, 6n, 2),
+  event('DonationReceived', ALICE.toLowerCase(), 3n, 2),
+  event('DonationReceived', BOB, 2n, 3),
+  event('RefundIssued', BOB, 8n, 4),
+];
+
+test('aggregates donations and refunds per donor', () => {
+  const analytics = analyzeDonors(events);
+
+  expect(analytics.uniqueDonors).toBe(2);
+  expect(analytics.donationCount).toBe(4);
+  expect(analytics.meanDonation).toBe(3n);
+  expect(analytics.medianDonation).toBe(2n);
+  expect(analytics.totalNet).toBe(4n);
+  expect(analytics.donors.map((d) => [d.donor, d.net, d.voteShare])).toEqual([
+    [ALICE, 4n, 100],
+    [BOB, 0n, 0],
+  ]);
+});
+
+test('tracks the running total per block', () => {
+  expect(cumulativeFunding(events)).toEqual([
+    { blockNumber: 1, total: 1n },
+    { blockNumber: 2, total: 10n },
+    { blockNumber: 3, total: 12n },
+    { blockNumber: 4, total: 4n },
+  ]);
+});
@@ -0,0 +1,95 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+
+export interface DonorSummary {
+  donor: string;
+  donated: bigint;
+  refunded: bigint;
+  // Equal to the donor's on-chain `donations` balance, their voting weight unless delegated
+  net: bigint;
+  donationCount: number;
+  // Share of total voting weight, 0-100
+  voteShare: number;
+}
+
+export interface DonorAnalytics {
+  // Largest net contribution first
+  donors: DonorSummary[];
+  uniqueDonors: number;
+  donationCount: number;
+  totalNet: bigint;
+  meanDonation: bigint;
+  medianDonation: bigint;
+}
+
+// Running total raised after the events of one block
+export interface FundingPoint {
+  blockNumber: number;
+  total: bigint;
+}
+
+const median = (values: bigint[]): bigint => {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2n;
+};
+
+/**
+ * Aggregates DonationReceived and RefundIssued events per donor. Addresses
+ * are grouped case-insensitively; other events are ignored.
+ */
+export const analyzeDonors = (events: CrowdfundingEventRecord[]): DonorAnalytics => {
+  const byDonor = new Map<string, Omit<DonorSummary, 'net' | 'voteShare'>>();
+  const amounts: bigint[] = [];
+
+  for (const event of events) {
+    if (event.name !== 'DonationReceived' && event.name !== 'RefundIssued') continue;
+
+    const key = event.donor.toLowerCase();
+    const summary = byDonor.get(key) ?? { donor: event.donor, donated: 0n, refunded: 0n, donationCount: 0 };
+    if (event.name === 'DonationReceived') {
+      summary.donated += event.amount;
+      summary.donationCount += 1;
+      amounts.push(event.amount);
+    } else {
+      summary.refunded += event.amount;
+    }
+    byDonor.set(key, summary);
+  }
+
+  const withNet = Array.from(byDonor.values()).map((s) => ({ ...s, net: s.donated - s.refunded }));
+  const totalNet = withNet.reduce((sum, s) => sum + s.net, 0n);
+
+  const donors = withNet
+    .map((s) => ({ ...s, voteShare: totalNet > 0n ? Number((s.net * 10000n) / totalNet) / 100 : 0 }))
+    .sort((a, b) => (a.net < b.net ? 1 : a.net > b.net ? -1 : 0));
+
+  const totalDonated = amounts.reduce((sum, a) => sum + a, 0n);
+
+  return {
+    donors,
+    uniqueDonors: donors.filter((s) => s.donationCount > 0).length,
+    donationCount: amounts.length,
+    totalNet,
+    meanDonation: amounts.length > 0 ? totalDonated / BigInt(amounts.length) : 0n,
+    medianDonation: median(amounts),
+  };
+};
+
+// Total raised after every block that moved it, in chain order
+export const cumulativeFunding = (events: CrowdfundingEventRecord[]): FundingPoint[] => {
+  const points: FundingPoint[] = [];
+  let total = 0n;
+
+  for (const event of events) {
+    if (event.name === 'DonationReceived') total += event.amount;
+    else if (event.name === 'RefundIssued') total -= event.amount;
+    else continue;
+
+    const last = points[points.length - 1];
+    if (last?.blockNumber === event.blockNumber) last.total = total;
+    else points.push({ blockNumber: event.blockNumber, total });
+  }
+
+  return points;
+};
@@ -0,0 +1,36 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { milestoneRounds } from './milestoneRounds';
+
+const ALICE = '0x00000000000000000000000000000000000000Aa';
+const BOB = '0x00000000000000000000000000000000000000bB';
+
+let logIndex = 0;
+const at = (blockNumber: number) => ({ txHash: '0x01', blockNumber, logIndex: logIndex++ });
+
+const events: CrowdfundingEventRecord[] = [
+  { name: 'MilestoneCreated', milestoneId: 0, description: 'Prototype', fundAmount: 5n, token: null, ...at(1) },
+  { name: 'MilestoneRoundOpened', milestoneId: 0, round: 1, evidence: '', voteDeadline: 100n, ...at(1) },
+  { name: 'MilestoneAmended', milestoneId: 0, description: 'Prototype', evidence: 'photos', ...at(2) },
+  { name: 'VoteCast', milestoneId: 0, voter: ALICE, vote: false, weight: 3n, ...at(3) },
+  { name: 'VoteAbstained', milestoneId: 0, voter: BOB, weight: 1n, ...at(3) },
+  { name: 'MilestoneRejected', milestoneId: 0, ...at(4) },
+  { name: 'MilestoneRoundOpened', milestoneId: 0, round: 2, evidence: 'video', voteDeadline: 200n, ...at(5) },
+  { name: 'VoteCast', milestoneId: 0, voter: ALICE, vote: true, weight: 3n, ...at(6) },
+];
+
+test('splits votes and outcomes into rounds', () => {
+  const [first, second] = milestoneRounds(events).get(0) ?? [];
+
+  expect(first).toMatchObject({
+    round: 1,
+    evidence: 'photos',
+    yesVotes: 0n,
+    noVotes: 3n,
+    abstainVotes: 1n,
+    outcome: 'rejected',
+  });
+  expect(first.ballots).toHaveLength(2);
+
+  expect(second).toMatchObject({ round: 2, evidence: 'video', yesVotes: 3n, outcome: 'voting', openedAtBlock: 5 });
+  expect(second.ballots.map((b) => b.voter)).toEqual([ALICE]);
+});
@@ -0,0 +1,80 @@
+import { BallotEvent, CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+
+export type RoundOutcome = 'voting' | 'approved' | 'rejected' | 'quorumNotMet' | 'cancelled';
+
+// One voting round of a milestone, rebuilt from its events
+export interface MilestoneRound {
+  round: number;
+  // Evidence as last set for this round, including amendments
+  evidence: string;
+  voteDeadline: bigint;
+  openedAtBlock: number;
+  ballots: BallotEvent[];
+  yesVotes: bigint;
+  noVotes: bigint;
+  abstainVotes: bigint;
+  outcome: RoundOutcome;
+}
+
+/**
+ * Groups milestone events into voting rounds, keyed by milestone ID with
+ * rounds in order. Rounds never overlap, so every vote or decision belongs
+ * to the latest round opened before it.
+ */
+export const milestoneRounds = (events: CrowdfundingEventRecord[]): Map<number, MilestoneRound[]> => {
+  const rounds = new Map<number, MilestoneRound[]>();
+  const current = (milestoneId: number) => rounds.get(milestoneId)?.slice(-1)[0];
+
+  for (const event of events) {
+    if (event.name === 'MilestoneRoundOpened') {
+      rounds.set(event.milestoneId, [
+        ...(rounds.get(event.milestoneId) ?? []),
+        {
+          round: event.round,
+          evidence: event.evidence,
+          voteDeadline: event.voteDeadline,
+          openedAtBlock: event.blockNumber,
+          ballots: [],
+          yesVotes: 0n,
+          noVotes: 0n,
+          abstainVotes: 0n,
+          outcome: 'voting',
+        },
+      ]);
+      continue;
+    }
+
+    if (!('milestoneId' in event)) continue;
+    const round = current(event.milestoneId);
+    if (!round) continue;
+
+    switch (event.name) {
+      case 'MilestoneAmended':
+        round.evidence = event.evidence;
+        break;
+      case 'VoteCast':
+        round.ballots.push(event);
+        if (event.vote) round.yesVotes += event.weight;
+        else round.noVotes += event.weight;
+        break;
+      case 'VoteAbstained':
+        round.ballots.push(event);
+        round.abstainVotes += event.weight;
+        break;
+      case 'MilestoneApproved':
+        round.outcome = 'approved';
+        break;
+      case 'MilestoneRejected':
+        round.outcome = 'rejected';
+        break;
+      case 'MilestoneQuorumNotMet':
+        round.outcome = 'quorumNotMet';
+        break;
+      case 'MilestoneCancelled':
+        round.outcome = 'cancelled';
+        break;
+    }
+  }
+
+  return rounds;
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { useNetwork } from '../config/NetworkContext';
+
+// Block timestamps never change once final, so they are kept for the page's lifetime
+const cache = new Map<string, number>();
+
+/**
+ * Unix timestamps (seconds) of the given blocks, filled in as they load.
+ * The provider batches the lookups into as few requests as it can.
+ */
+export const useBlockTimestamps = (provider: ethers.Provider, blockNumbers: number[]): Map<number, number> => {
+  const { chainId } = useNetwork();
+  const [timestamps, setTimestamps] = useState<Map<number, number>>(new Map());
+  const blocksKey = blockNumbers.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const blocks = blocksKey ? blocksKey.split(',').map(Number) : [];
+    const cacheKey = (block: number) => `${chainId}:${block}`;
+
+    const load = async () => {
+      const missing = blocks.filter((block) => !cache.has(cacheKey(block)));
+      await Promise.all(
+        missing.map(async (block) => {
+          const header = await provider.getBlock(block);
+          if (header) cache.set(cacheKey(block), header.timestamp);
+        })
+      );
+
+      if (cancelled) return;
+      const loaded = new Map<number, number>();
+      for (const block of blocks) {
+        const timestamp = cache.get(cacheKey(block));
+        if (timestamp !== undefined) loaded.set(block, timestamp);
+      }
+      setTimestamps(loaded);
+    };
+
+    load().catch((err) => console.error('Error fetching block timestamps:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, chainId, blocksKey]);
+
+  return timestamps;
+};
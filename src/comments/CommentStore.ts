@@ -0,0 +1,130 @@
+import { SignedComment, parseSignedComment } from './comments';
+
+/**
+ * Storage for signed comments and reactions, partitioned by a campaign key
+ * (chain ID plus contract address). Backends only hold messages; readers
+ * verify every signature, so an untrusted backend cannot forge authors.
+ */
+export interface CommentStore {
+  // All stored comments and reactions of a campaign, in no particular order
+  getComments(campaign: string): Promise<SignedComment[]>;
+
+  // Adds a message; storing the same signature twice keeps one copy
+  addComment(campaign: string, comment: SignedComment): Promise<void>;
+}
+
+/**
+ * Keeps comments for the lifetime of the page. Used in tests and where no
+ * browser storage is available.
+ */
+export class MemoryCommentStore implements CommentStore {
+  private comments = new Map<string, SignedComment[]>();
+
+  async getComments(campaign: string): Promise<SignedComment[]> {
+    return [...(this.comments.get(campaign) ?? [])];
+  }
+
+  async addComment(campaign: string, comment: SignedComment): Promise<void> {
+    const stored = this.comments.get(campaign) ?? [];
+    if (stored.some((c) => c.signature === comment.signature)) return;
+    this.comments.set(campaign, [...stored, comment]);
+  }
+}
+
+/**
+ * Keeps each campaign's comments as a JSON array in localStorage. Used where
+ * IndexedDB is unavailable.
+ */
+export class JsonCommentStore implements CommentStore {
+  static isSupported(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  async getComments(campaign: string): Promise<SignedComment[]> {
+    const stored = localStorage.getItem(this.key(campaign));
+    if (!stored) return [];
+
+    // Entries that no longer parse are skipped rather than failing the thread
+    const comments: SignedComment[] = [];
+    for (const raw of JSON.parse(stored) as unknown[]) {
+      try {
+        comments.push(parseSignedComment(raw));
+      } catch {
+        console.warn('Skipping malformed stored comment');
+      }
+    }
+    return comments;
+  }
+
+  async addComment(campaign: string, comment: SignedComment): Promise<void> {
+    const stored = await this.getComments(campaign);
+    if (stored.some((c) => c.signature === comment.signature)) return;
+    localStorage.setItem(this.key(campaign), JSON.stringify([...stored, comment]));
+  }
+
+  private key(campaign: string): string {
+    return `philanchain:comments:${campaign}`;
+  }
+}
+
+const DB_NAME = 'philanchain-comments';
+const DB_VERSION = 1;
+
+// Comments are keyed by [campaign, signature], so a key range over one campaign returns all of its messages
+interface StoredComment {
+  campaign: string;
+  signature: string;
+  comment: SignedComment;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const campaignRange = (campaign: string) => IDBKeyRange.bound([campaign, ''], [campaign, '\uffff']);
+
+// Stores comments in the browser's IndexedDB
+export class IndexedDbCommentStore implements CommentStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getComments(campaign: string): Promise<SignedComment[]> {
+    const db = await this.open();
+    const stored = await requestToPromise<StoredComment[]>(
+      db.transaction('comments').objectStore('comments').getAll(campaignRange(campaign))
+    );
+    return stored.map((c) => c.comment);
+  }
+
+  async addComment(campaign: string, comment: SignedComment): Promise<void> {
+    const db = await this.open();
+    const stored: StoredComment = { campaign, signature: comment.signature, comment };
+    await requestToPromise(db.transaction('comments', 'readwrite').objectStore('comments').put(stored));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('comments', { keyPath: ['campaign', 'signature'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+// IndexedDB where the browser offers it, then localStorage, otherwise an in-memory fallback
+export const createCommentStore = (): CommentStore => {
+  if (IndexedDbCommentStore.isSupported()) return new IndexedDbCommentStore();
+  if (JsonCommentStore.isSupported()) return new JsonCommentStore();
+  return new MemoryCommentStore();
+};
@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import {
+  CommentMessage,
+  SignedComment,
+  buildThreads,
+  commentDomain,
+  commentTypes,
+  commentValue,
+  parseSignedComment,
+  verifyComment,
+} from './comments';
+
+const wallet = new ethers.Wallet(ethers.id('donor'));
+const domain = commentDomain(11155111, '0x00000000000000000000000000000000000000aa');
+
+const sign = async (message: CommentMessage): Promise<SignedComment> => ({
+  ...message,
+  author: wallet.address,
+  signature: await wallet.signTypedData(domain, commentTypes(message), commentValue(message)),
+});
+
+const reaction = (author: string, active: boolean, createdAt: number): SignedComment => ({
+  kind: 'reaction',
+  updateId: 0,
+  reaction: '👍',
+  active,
+  createdAt,
+  author,
+  signature: `${author}-${createdAt}`,
+});
+
+describe('verifyComment', () => {
+  it('accepts a comment signed by its author', async () => {
+    const comment = await sign({ kind: 'comment', updateId: 2, body: 'Great progress!', createdAt: 1700000000 });
+    expect(verifyComment(domain, comment)).toBe(true);
+  });
+
+  it('rejects edited messages, other authors and other campaigns', async () => {
+    const message: CommentMessage = { kind: 'comment', updateId: 2, body: 'Great progress!', createdAt: 1700000000 };
+    const comment = await sign(message);
+
+    expect(verifyComment(domain, { ...comment, ...message, body: 'Scam!' })).toBe(false);
+    expect(verifyComment(domain, { ...comment, author: '0x00000000000000000000000000000000000000bb' })).toBe(false);
+    expect(verifyComment(commentDomain(1, '0x00000000000000000000000000000000000000aa'), comment)).toBe(false);
+  });
+});
+
+describe('parseSignedComment', () => {
+  it('round-trips through JSON', async () => {
+    const signed = await sign({ kind: 'reaction', updateId: 1, reaction: '🎉', active: true, createdAt: 1700000000 });
+    expect(parseSignedComment(JSON.parse(JSON.stringify(signed)))).toEqual(signed);
+  });
+
+  it('rejects unknown reactions', () => {
+    expect(() => parseSignedComment({ ...reaction('0xa', true, 1), reaction: '💩' })).toThrow('Not a signed comment');
+  });
+});
+
+describe('buildThreads', () => {
+  it("counts each author's latest reaction", () => {
+    const threads = buildThreads([
+      reaction('0xa', true, 1),
+      reaction('0xa', false, 2),
+      reaction('0xb', true, 3),
+      { kind: 'comment', updateId: 0, body: 'hi', createdAt: 4, author: '0xa', signature: 'c' },
+    ]);
+
+    expect(threads.get(0)?.reactions.get('👍')).toEqual(['0xb']);
+    expect(threads.get(0)?.comments).toHaveLength(1);
+  });
+});
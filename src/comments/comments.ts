@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+
+// Reactions donors can leave on an update
+export const REACTIONS = ['👍', '❤️', '🎉', '👀'] as const;
+export type Reaction = typeof REACTIONS[number];
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+// What a donor signs: a comment, or turning one reaction on or off
+export type CommentMessage =
+  | { kind: 'comment'; updateId: number; body: string; createdAt: number }
+  | { kind: 'reaction'; updateId: number; reaction: Reaction; active: boolean; createdAt: number };
+
+export type SignedComment = CommentMessage & {
+  author: string;
+  signature: string;
+};
+
+// Per-kind EIP-712 types; the struct name keeps a reaction from passing as a comment
+const COMMENT_TYPES: Record<CommentMessage['kind'], Record<string, ethers.TypedDataField[]>> = {
+  comment: {
+    Comment: [
+      { name: 'updateId', type: 'uint256' },
+      { name: 'body', type: 'string' },
+      { name: 'createdAt', type: 'uint256' },
+    ],
+  },
+  reaction: {
+    Reaction: [
+      { name: 'updateId', type: 'uint256' },
+      { name: 'reaction', type: 'string' },
+      { name: 'active', type: 'bool' },
+      { name: 'createdAt', type: 'uint256' },
+    ],
+  },
+};
+
+/**
+ * EIP-712 domain for comments on one campaign. It differs from the vote
+ * domain by name, so a comment signature can never be relayed as a vote.
+ */
+export const commentDomain = (chainId: bigint | number, campaign: string): ethers.TypedDataDomain => ({
+  name: 'PhilanChain Comments',
+  version: '1',
+  chainId,
+  verifyingContract: campaign,
+});
+
+export const commentTypes = (message: CommentMessage) => COMMENT_TYPES[message.kind];
+
+// The signed fields of a message, without its kind
+export const commentValue = (message: CommentMessage): Record<string, unknown> =>
+  message.kind === 'comment'
+    ? { updateId: message.updateId, body: message.body, createdAt: message.createdAt }
+    : { updateId: message.updateId, reaction: message.reaction, active: message.active, createdAt: message.createdAt };
+
+// Whether `comment` was signed by its author for this campaign
+export const verifyComment = (domain: ethers.TypedDataDomain, comment: SignedComment): boolean => {
+  try {
+    const signer = ethers.verifyTypedData(domain, commentTypes(comment), commentValue(comment), comment.signature);
+    return signer.toLowerCase() === comment.author.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks the shape of a stored or imported comment. Signatures are checked
+ * separately with verifyComment.
+ */
+export const parseSignedComment = (raw: any): SignedComment => {
+  const base =
+    Number.isInteger(raw?.updateId) &&
+    Number.isInteger(raw.createdAt) &&
+    typeof raw.author === 'string' &&
+    typeof raw.signature === 'string';
+  if (base && raw.kind === 'comment' && typeof raw.body === 'string' && raw.body.length <= MAX_COMMENT_LENGTH) {
+    const { updateId, body, createdAt, author, signature } = raw;
+    return { kind: 'comment', updateId, body, createdAt, author, signature };
+  }
+  if (base && raw.kind === 'reaction' && REACTIONS.includes(raw.reaction) && typeof raw.active === 'boolean') {
+    const { updateId, reaction, active, createdAt, author, signature } = raw;
+    return { kind: 'reaction', updateId, reaction, active, createdAt, author, signature };
+  }
+  throw new Error('Not a signed comment');
+};
+
+export interface UpdateThread {
+  // Oldest first
+  comments: SignedComment[];
+  // Authors currently reacting with each reaction
+  reactions: Map<Reaction, string[]>;
+}
+
+/**
+ * Groups comments by update. Each author's latest message for a reaction
+ * decides whether it is on, so reactions can be toggled.
+ */
+export const buildThreads = (comments: SignedComment[]): Map<number, UpdateThread> => {
+  const threads = new Map<number, UpdateThread>();
+  const latestReactions = new Map<string, SignedComment & { kind: 'reaction' }>();
+
+  const threadOf = (updateId: number) => {
+    let thread = threads.get(updateId);
+    if (!thread) {
+      thread = { comments: [], reactions: new Map() };
+      threads.set(updateId, thread);
+    }
+    return thread;
+  };
+
+  for (const comment of [...comments].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (comment.kind === 'comment') {
+      threadOf(comment.updateId).comments.push(comment);
+    } else {
+      latestReactions.set(`${comment.updateId}:${comment.author.toLowerCase()}:${comment.reaction}`, comment);
+    }
+  }
+
+  for (const reaction of latestReactions.values()) {
+    if (!reaction.active) continue;
+    const thread = threadOf(reaction.updateId);
+    thread.reactions.set(reaction.reaction, [...(thread.reactions.get(reaction.reaction) ?? []), reaction.author]);
+  }
+
+  return threads;
+};
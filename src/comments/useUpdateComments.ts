@@ -0,0 +1,50 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+import { CommentMessage, SignedComment, buildThreads, commentDomain, commentTypes, commentValue, verifyComment } from './comments';
+import { createCommentStore } from './CommentStore';
+
+// One store per page, shared by every campaign
+const store = createCommentStore();
+
+/**
+ * Signed comments and reactions on a campaign's updates, grouped by update.
+ * Messages whose signature does not match their author are dropped.
+ */
+export const useUpdateComments = (contract: CrowdfundingClient | null) => {
+  const { chainId } = useNetwork();
+  const [comments, setComments] = useState<SignedComment[]>([]);
+
+  const campaign = contract ? `${chainId}:${contract.address.toLowerCase()}` : null;
+  const domain = useMemo(() => (contract ? commentDomain(chainId, contract.address) : null), [contract, chainId]);
+
+  useEffect(() => {
+    if (!campaign || !domain) return;
+
+    let cancelled = false;
+    store
+      .getComments(campaign)
+      .then((stored) => {
+        if (!cancelled) setComments(stored.filter((c) => verifyComment(domain, c)));
+      })
+      .catch((err) => console.error('Error loading comments:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaign, domain]);
+
+  // Signs a message with the connected wallet (no gas) and stores it
+  const post = useCallback(async (message: CommentMessage) => {
+    if (!contract || !campaign || !domain) return;
+
+    const { signer, signature } = await contract.signTypedData(domain, commentTypes(message), commentValue(message));
+    const signed: SignedComment = { ...message, author: signer, signature };
+    await store.addComment(campaign, signed);
+    setComments((prev) => [...prev, signed]);
+  }, [contract, campaign, domain]);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  return { comments, threads, post };
+};
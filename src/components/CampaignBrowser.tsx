@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ethers } from 'ethers';
+import ProgressBar from './ProgressBar';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { CrowdfundingFactoryClient, CampaignInfo } from '../contracts/CrowdfundingFactoryClient';
+import { useNetwork } from '../config/NetworkContext';
+
+interface CampaignSummary extends CampaignInfo {
+  totalDonations: bigint;
+}
+
+interface CampaignBrowserProps {
+  factory: CrowdfundingFactoryClient;
+  provider: ethers.Provider;
+}
+
+const CampaignBrowser: React.FC<CampaignBrowserProps> = ({ factory, provider }) => {
+  const { nativeCurrency } = useNetwork();
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCampaigns = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const count = await factory.getCampaignCount();
+        const campaignsData: CampaignSummary[] = [];
+
+        for (let i = 0; i < count; i++) {
+          const info = await factory.getCampaign(i);
+          const totalDonations = await new CrowdfundingClient(info.campaign, provider).totalDonations();
+          campaignsData.push({ ...info, totalDonations });
+        }
+
+        setCampaigns(campaignsData.reverse()); // Show newest first
+      } catch (err) {
+        console.error('Error fetching campaigns:', err);
+        setError('Failed to load campaigns. Are you on the correct network?');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCampaigns();
+  }, [factory, provider]);
+
+  const isEnded = (deadline: bigint) => BigInt(Math.floor(Date.now() / 1000)) >= deadline;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Campaigns</h2>
+          <p className="text-white/70">Browse causes and support the ones you believe in</p>
+        </div>
+        <Link
+          to="/create"
+          className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 shadow-lg hover:shadow-emerald-500/50"
+        >
+          Create Campaign
+        </Link>
+      </div>
+
+      {/* Campaign List */}
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="bg-white/5 backdrop-blur-md rounded-2xl p-8 border border-white/10 text-center">
+            <p className="text-white/60">Loading campaigns...</p>
+          </div>
+        ) : campaigns.length === 0 ? (
+          <div className="bg-white/5 backdrop-blur-md rounded-2xl p-8 border border-white/10 text-center">
+            <p className="text-white/60">No campaigns created yet</p>
+          </div>
+        ) : (
+          campaigns.map((campaign) => (
+            <Link
+              key={campaign.campaign}
+              to={`/campaign/${campaign.campaign}`}
+              className="block bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 hover:bg-white/10 transition-all duration-300"
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-lg font-bold text-white mb-1">{campaign.title}</h3>
+                  <p className="text-white/70 text-sm line-clamp-2">{campaign.description}</p>
+                </div>
+                <span
+                  className={`text-xs font-bold px-3 py-1 rounded-full flex-shrink-0 ${
+                    isEnded(campaign.deadline) ? 'bg-red-500/30 text-red-200' : 'bg-green-500/30 text-green-200'
+                  }`}
+                >
+                  {isEnded(campaign.deadline) ? 'Ended' : 'Active'}
+                </span>
+              </div>
+              <ProgressBar goal={campaign.fundraisingGoal} donations={campaign.totalDonations} />
+              <p className="text-white/70 text-sm mt-6">
+                {ethers.formatEther(campaign.totalDonations)} of {ethers.formatEther(campaign.fundraisingGoal)} {nativeCurrency.symbol} raised
+              </p>
+            </Link>
+          ))
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
+          <p className="text-red-200 text-sm text-center">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignBrowser;
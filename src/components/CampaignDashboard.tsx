@@ -0,0 +1,563 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ethers } from 'ethers';
+import ProgressBar from './ProgressBar';
+import DonationForm from './DonationForm';
+import DonationHistory from './DonationHistory';
+import MilestoneManager from './MilestoneManager';
+import CampaignUpdates from './CampaignUpdates';
+import RefundPanel from './RefundPanel';
+import OwnerConsole from './OwnerConsole';
+import DonorAnalytics from './DonorAnalytics';
+import FiatValue from './FiatValue';
+import {
+  CrowdfundingClient,
+  DonationEvent,
+  RefundIssuedEvent,
+  TokenDonationEvent,
+} from '../contracts/CrowdfundingClient';
+import { CrowdfundingFactoryClient, CampaignInfo } from '../contracts/CrowdfundingFactoryClient';
+import { Erc20Client } from '../contracts/Erc20Client';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { TokenDonationStep, formatAssetAmount, parseAssetAmount, sendTokenDonation } from '../tokens/tokens';
+import { useAcceptedTokens } from '../tokens/useAcceptedTokens';
+import { useCampaignEvents } from '../indexer/useCampaignEvents';
+import { useEventFeed, useHeadBlock } from '../indexer/useEventFeed';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+import { analyzeDonors } from '../analytics/donorAnalytics';
+
+interface CampaignDashboardProps {
+  address: string;
+  account: string | null;
+  provider: ethers.Provider;
+  signer: ethers.Signer | null;
+  factory: CrowdfundingFactoryClient;
+}
+
+// Format time remaining
+const formatTimeRemaining = (seconds: number): string => {
+  if (seconds <= 0) return "Campaign Ended";
+  
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  
+  if (days > 0) return `${days}d ${hours}h remaining`;
+  if (hours > 0) return `${hours}h ${minutes}m remaining`;
+  return `${minutes}m remaining`;
+};
+
+const CampaignDashboard: React.FC<CampaignDashboardProps> = ({ address, account, provider, signer, factory }) => {
+  const network = useNetwork();
+  const { nativeCurrency } = network;
+  const contract = useMemo(() => new CrowdfundingClient(address, provider), [address, provider]);
+  const acceptedTokens = useAcceptedTokens(contract);
+  const track = useTrackTransaction();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // UI State
+  const [activeTab, setActiveTab] = useState<'overview' | 'milestones' | 'updates' | 'donors' | 'owner'>('overview');
+
+  // Contract Data State
+  const [campaignInfo, setCampaignInfo] = useState<CampaignInfo | null>(null);
+  const [fundraisingGoal, setFundraisingGoal] = useState<bigint>(0n);
+  const [totalDonations, setTotalDonations] = useState<bigint>(0n);
+  const [donationAmount, setDonationAmount] = useState('');
+  // Asset picked in the donation form, null for ETH
+  const [donationToken, setDonationToken] = useState<TokenInfo | null>(null);
+  // The connected wallet's balance of that asset
+  const [walletBalance, setWalletBalance] = useState<bigint | null>(null);
+  const [donationStep, setDonationStep] = useState<TokenDonationStep | null>(null);
+  // Token donations by token address: campaign totals and the connected account's share
+  const [tokenTotals, setTokenTotals] = useState<Map<string, bigint>>(new Map());
+  const [tokenGoals, setTokenGoals] = useState<Map<string, bigint>>(new Map());
+  // Each asset's share of its own goal, added up, in basis points
+  const [fundedBps, setFundedBps] = useState<bigint>(0n);
+  const [userTokenDonations, setUserTokenDonations] = useState<Map<string, bigint>>(new Map());
+  const [isOwner, setIsOwner] = useState(false);
+  const [userDonation, setUserDonation] = useState<bigint>(0n);
+  const [deadline, setDeadline] = useState<bigint>(0n);
+  const [timeRemaining, setTimeRemaining] = useState<number>(0);
+
+  // Donation and refund history come from the local event index, newest first
+  const { events, progress, isSyncing, error: indexError } = useCampaignEvents(contract);
+  const donationHistory = useMemo(
+    () => events.filter((e): e is DonationEvent & { name: 'DonationReceived' } => e.name === 'DonationReceived').reverse(),
+    [events]
+  );
+  const analytics = useMemo(() => analyzeDonors(events), [events]);
+  const refundHistory = useMemo(
+    () => events.filter((e): e is RefundIssuedEvent & { name: 'RefundIssued' } => e.name === 'RefundIssued').reverse(),
+    [events]
+  );
+  const tokenDonationHistory = useMemo(
+    () => events.filter((e): e is TokenDonationEvent & { name: 'TokenDonationReceived' } => e.name === 'TokenDonationReceived'),
+    [events]
+  );
+  const tokenRefundHistory = useMemo(
+    () => events.filter((e): e is TokenDonationEvent & { name: 'TokenRefundIssued' } => e.name === 'TokenRefundIssued'),
+    [events]
+  );
+
+  // Transactions need the wallet; reads stay on the public provider
+  useEffect(() => {
+    contract.attachSigner(signer);
+  }, [contract, signer]);
+
+  // Load the connected account's relationship to this campaign
+  useEffect(() => {
+    const fetchAccountData = async () => {
+      try {
+        // Get deadline
+        const contractDeadline = await contract.deadline();
+        setDeadline(contractDeadline);
+
+        if (!account) {
+          setIsOwner(false);
+          setUserDonation(0n);
+          return;
+        }
+
+        // Check if user is owner
+        const owner = await contract.owner();
+        setIsOwner(owner.toLowerCase() === account.toLowerCase());
+        
+        // Get user's donation amount
+        const donation = await contract.donations(account);
+        setUserDonation(donation);
+      } catch (err) {
+        console.error("Could not fetch account data:", err);
+        setError("Failed to load this campaign. Is the address correct?");
+      }
+    };
+    fetchAccountData();
+  }, [contract, account]);
+
+  // Look up the factory's index entry for the title and description
+  useEffect(() => {
+    factory.findCampaign(address)
+      .then(setCampaignInfo)
+      .catch((err) => console.error("Could not fetch campaign info:", err));
+  }, [factory, address]);
+
+  const fetchFunding = useCallback(() => {
+    contract.fundedBps()
+      .then(setFundedBps)
+      .catch((err) => console.error("Could not refresh funding progress:", err));
+  }, [contract]);
+
+  // Per-token totals and goals, and the connected account's token donations
+  const fetchTokenDonations = useCallback(async () => {
+    try {
+      const [totals, goals] = await Promise.all([
+        Promise.all(acceptedTokens.map((t) => contract.tokenTotals(t.address))),
+        Promise.all(acceptedTokens.map((t) => contract.tokenGoals(t.address))),
+      ]);
+      setTokenTotals(new Map(acceptedTokens.map((t, i) => [t.address, totals[i]])));
+      setTokenGoals(new Map(acceptedTokens.map((t, i) => [t.address, goals[i]])));
+
+      const mine = account
+        ? await Promise.all(acceptedTokens.map((t) => contract.tokenDonations(t.address, account)))
+        : [];
+      setUserTokenDonations(new Map(mine.map((amount, i) => [acceptedTokens[i].address, amount])));
+    } catch (err) {
+      console.error("Could not fetch token donations:", err);
+    }
+  }, [contract, account, acceptedTokens]);
+
+  useEffect(() => {
+    fetchTokenDonations();
+  }, [fetchTokenDonations]);
+
+  // The wallet's balance of the asset picked in the donation form
+  const fetchWalletBalance = useCallback(async () => {
+    if (!account) {
+      setWalletBalance(null);
+      return;
+    }
+    try {
+      setWalletBalance(
+        donationToken
+          ? await new Erc20Client(donationToken.address, provider).balanceOf(account)
+          : await provider.getBalance(account)
+      );
+    } catch (err) {
+      console.error("Could not fetch wallet balance:", err);
+      setWalletBalance(null);
+    }
+  }, [provider, account, donationToken]);
+
+  useEffect(() => {
+    fetchWalletBalance();
+  }, [fetchWalletBalance]);
+
+  // Handle donation
+  const handleDonate = async (amount: string) => {
+    if (!amount || !account) return;
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const value = parseAssetAmount(amount, donationToken);
+      if (walletBalance !== null && value > walletBalance) {
+        setError(`Your wallet holds only ${formatAssetAmount(walletBalance, donationToken, network)}.`);
+        return;
+      }
+
+      const tx = donationToken
+        ? await sendTokenDonation(
+            contract,
+            new Erc20Client(donationToken.address, provider, signer),
+            account,
+            value,
+            setDonationStep,
+            track
+          )
+        : await contract.donate(value);
+      await track(tx, `Donate ${formatAssetAmount(value, donationToken, network)}`);
+      setDonationAmount('');
+      
+      // Update user donation
+      const donation = await contract.donations(account);
+      setUserDonation(donation);
+      fetchTokenDonations();
+      fetchWalletBalance();
+      
+      // Show success message
+      setError(null);
+    } catch (err: any) {
+      console.error("Donation failed:", err);
+      setError(describeError(err, err.message || "Donation failed. Please try again."));
+    } finally {
+      setIsLoading(false);
+      setDonationStep(null);
+    }
+  };
+
+  // Fetch contract data
+  useEffect(() => {
+    const fetchContractData = async () => {
+      setIsLoading(true);
+      try {
+        const goal = await contract.fundraisingGoal();
+        const donations = await contract.totalDonations();
+        const funded = await contract.fundedBps();
+        setFundraisingGoal(goal);
+        setTotalDonations(donations);
+        setFundedBps(funded);
+      } catch (err) {
+         console.error("Could not fetch contract data:", err);
+         setError("Failed to fetch data. Are you on the correct network?");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchContractData();
+  }, [contract]);
+
+  // Re-read the totals whenever a donation or refund lands or is reorged out,
+  // rather than applying deltas that a repeated log would double count
+  useEventFeed(contract, ({ event }) => {
+    if (event.name === 'TokenDonationReceived' || event.name === 'TokenRefundIssued') {
+      fetchTokenDonations();
+      fetchFunding();
+      return;
+    }
+    if (event.name !== 'DonationReceived' && event.name !== 'RefundIssued') return;
+    fetchFunding();
+
+    contract.totalDonations()
+      .then(setTotalDonations)
+      .catch((err) => console.error("Could not refresh total donations:", err));
+
+    if (account) {
+      contract.donations(account)
+        .then(setUserDonation)
+        .catch((err) => console.error("Could not refresh your donation:", err));
+    }
+  });
+
+  const headBlock = useHeadBlock(provider);
+
+  // Update time remaining countdown
+  useEffect(() => {
+    if (deadline === 0n) return;
+
+    const updateTimer = () => {
+      const now = Math.floor(Date.now() / 1000);
+      const remaining = Number(deadline) - now;
+      setTimeRemaining(remaining > 0 ? remaining : 0);
+    };
+
+    updateTimer();
+    const interval = setInterval(updateTimer, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  // Refunds open once the deadline has passed without reaching the goal
+  const goalReached = fundedBps >= 10000n;
+  const refundAvailable = deadline > 0n && timeRemaining === 0 && !goalReached;
+
+  return (
+    <div className="space-y-8">
+      {/* Campaign Header */}
+      <div className="text-center space-y-3">
+        <Link to="/" className="inline-block text-white/70 hover:text-white text-sm font-semibold">
+          ← All campaigns
+        </Link>
+        <h2 className="text-3xl font-bold text-white">
+          {campaignInfo?.title ?? `Campaign ${address.substring(0, 8)}...${address.substring(address.length - 6)}`}
+        </h2>
+        {campaignInfo?.description && (
+          <p className="text-white/70 whitespace-pre-wrap">{campaignInfo.description}</p>
+        )}
+        {isOwner && (
+          <span className="inline-block bg-amber-500/30 text-amber-200 text-xs font-bold px-3 py-1 rounded-full">
+            Campaign Owner
+          </span>
+        )}
+        <div>
+          {/* Time Remaining Badge */}
+          {deadline > 0n && (
+            <div className="inline-block bg-white/10 backdrop-blur-md px-4 py-2 rounded-full border border-white/20">
+              <p className="text-white/90 text-sm font-semibold flex items-center space-x-2">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>{formatTimeRemaining(timeRemaining)}</span>
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tab Navigation */}
+      <div className="flex space-x-2 bg-white/5 backdrop-blur-md p-2 rounded-2xl border border-white/10">
+        <button
+          onClick={() => setActiveTab('overview')}
+          className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-300 ${
+            activeTab === 'overview'
+              ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+              : 'text-white/70 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          Overview
+        </button>
+        <button
+          onClick={() => setActiveTab('milestones')}
+          className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-300 ${
+            activeTab === 'milestones'
+              ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+              : 'text-white/70 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          Milestones
+        </button>
+        <button
+          onClick={() => setActiveTab('updates')}
+          className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-300 ${
+            activeTab === 'updates'
+              ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+              : 'text-white/70 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          Updates
+        </button>
+        <button
+          onClick={() => setActiveTab('donors')}
+          className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-300 ${
+            activeTab === 'donors'
+              ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+              : 'text-white/70 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          Donors
+        </button>
+        {isOwner && (
+          <button
+            onClick={() => setActiveTab('owner')}
+            className={`flex-1 py-3 px-4 rounded-xl font-semibold transition-all duration-300 ${
+              activeTab === 'owner'
+                ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+                : 'text-white/70 hover:text-white hover:bg-white/5'
+            }`}
+          >
+            Owner
+          </button>
+        )}
+      </div>
+
+      {/* Tab Content */}
+      {activeTab === 'overview' && (
+        <>
+          <div className="space-y-6">
+            <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 shadow-lg">
+              <h2 className="text-2xl font-bold text-white text-center mb-4">Campaign Progress</h2>
+
+              <div className="text-center mb-6">
+                <div className="inline-flex items-baseline space-x-2">
+                  <span className="text-5xl font-extrabold bg-gradient-to-r from-yellow-200 via-pink-200 to-purple-200 bg-clip-text text-transparent">
+                    {ethers.formatEther(totalDonations)}
+                  </span>
+                  <span className="text-2xl font-bold text-white/80">{nativeCurrency.symbol}</span>
+                </div>
+                <FiatValue amount={totalDonations} className="block text-white/70 text-lg" />
+                <p className="text-white/70 mt-2 text-lg">
+                  of <span className="font-bold text-white">{ethers.formatEther(fundraisingGoal)} {nativeCurrency.symbol}</span> goal{' '}
+                  <FiatValue amount={fundraisingGoal} className="text-white/50 text-sm" />
+                </p>
+              </div>
+
+              <ProgressBar goal={10000n} donations={fundedBps} />
+
+              {/* Each token counts toward the goal as a share of its own goal */}
+              {acceptedTokens.length > 0 && (
+                <div className="mt-4 space-y-1 text-center">
+                  {acceptedTokens.map((token) => (
+                    <p key={token.address} className="text-white/80">
+                      + <span className="font-bold text-white">
+                        {formatAssetAmount(tokenTotals.get(token.address) ?? 0n, token, network)}
+                      </span>{' '}
+                      <FiatValue amount={tokenTotals.get(token.address) ?? 0n} asset={token} className="text-white/50 text-sm" />{' '}
+                      of {formatAssetAmount(tokenGoals.get(token.address) ?? 0n, token, network)} goal
+                    </p>
+                  ))}
+                  <p className="text-white/50 text-xs">
+                    Progress adds up each asset's share of its own goal. Stablecoin donors vote on the milestones paid out in their stablecoin.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4 mt-6">
+                <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+                  <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Donors</p>
+                  <p className="text-2xl font-bold text-white">{analytics.uniqueDonors}</p>
+                </div>
+                <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+                  <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Progress</p>
+                  <p className="text-2xl font-bold text-white">
+                    {Number(fundedBps / 100n)}%
+                  </p>
+                </div>
+              </div>
+
+              {/* User's Contribution */}
+              {(userDonation > 0n || Array.from(userTokenDonations.values()).some((a) => a > 0n)) && (
+                <div className="mt-4 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl p-4 border border-purple-500/30">
+                  <p className="text-white/70 text-xs font-semibold uppercase tracking-wider mb-1">Your Contribution</p>
+                  {userDonation > 0n && (
+                    <p className="text-xl font-bold text-white">{ethers.formatEther(userDonation)} {nativeCurrency.symbol}</p>
+                  )}
+                  {acceptedTokens
+                    .filter((token) => (userTokenDonations.get(token.address) ?? 0n) > 0n)
+                    .map((token) => (
+                      <p key={token.address} className="text-xl font-bold text-white">
+                        {formatAssetAmount(userTokenDonations.get(token.address) ?? 0n, token, network)}
+                      </p>
+                    ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {refundAvailable && account && (
+            <RefundPanel
+              contract={contract}
+              userDonation={userDonation}
+              fundedBps={fundedBps}
+              tokens={acceptedTokens}
+              userTokenDonations={userTokenDonations}
+            />
+          )}
+
+          {account ? (
+            <DonationForm 
+              donate={handleDonate}
+              amount={donationAmount}
+              setAmount={setDonationAmount}
+              tokens={acceptedTokens}
+              token={donationToken}
+              setToken={setDonationToken}
+              balance={walletBalance}
+              step={donationStep}
+              isLoading={isLoading}
+            />
+          ) : (
+            <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 text-center">
+              <p className="text-white/70">Connect your wallet to donate to this campaign.</p>
+            </div>
+          )}
+
+          {isSyncing && progress && progress.indexedBlock < progress.headBlock && (
+            <p className="text-white/60 text-sm text-center">
+              Indexing campaign history... block {progress.indexedBlock} of {progress.headBlock}
+            </p>
+          )}
+          {indexError && <p className="text-red-200 text-sm text-center">{indexError}</p>}
+
+          <DonationHistory
+            donations={donationHistory}
+            refunds={refundHistory}
+            tokenDonations={tokenDonationHistory}
+            tokenRefunds={tokenRefundHistory}
+            tokens={acceptedTokens}
+            headBlock={headBlock}
+          />
+        </>
+      )}
+
+      {activeTab === 'milestones' && (
+        <MilestoneManager 
+          contract={contract}
+          account={account}
+          isOwner={isOwner}
+          userDonation={userDonation}
+          events={events}
+          tokens={acceptedTokens}
+        />
+      )}
+
+      {activeTab === 'updates' && (
+        <CampaignUpdates 
+          contract={contract}
+          account={account}
+          isOwner={isOwner}
+        />
+      )}
+
+      {activeTab === 'donors' && (
+        <DonorAnalytics
+          analytics={analytics}
+          events={events}
+          fundraisingGoal={fundraisingGoal}
+          deadline={deadline}
+          provider={provider}
+          account={account}
+        />
+      )}
+
+      {activeTab === 'owner' && isOwner && (
+        <OwnerConsole
+          contract={contract}
+          events={events}
+          goalReached={goalReached}
+          deadline={deadline}
+          tokens={acceptedTokens}
+        />
+      )}
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
+          <p className="text-center text-red-200 text-sm font-semibold">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignDashboard;
@@ -1,81 +1,128 @@
-import React, { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
-
-interface Update {
-  id: number;
-  title: string;
-  contentHash: string;
-  timestamp: bigint;
-}
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Pagination from './Pagination';
+import UpdateCard from './UpdateCard';
+import UpdateEditor from './UpdateEditor';
+import { CrowdfundingClient, CampaignUpdate, CrowdfundingEventName } from '../contracts/CrowdfundingClient';
+import { useEventFeed } from '../indexer/useEventFeed';
+import { useUpdateComments } from '../comments/useUpdateComments';
+import { SUGGESTED_TAGS } from '../content/updateTags';
+
+const UPDATES_PER_PAGE = 10;
+// Page size used to load the whole feed when filtering by tag
+const FILTER_BATCH_SIZE = 50;
+
+const FEED_EVENTS: CrowdfundingEventName[] = ['CampaignUpdatePosted', 'UpdateSuperseded', 'UpdatePinned', 'UpdateUnpinned'];
 
 interface CampaignUpdatesProps {
-  contract: ethers.Contract | null;
+  contract: CrowdfundingClient | null;
+  account: string | null;
   isOwner: boolean;
 }
 
-const CampaignUpdates: React.FC<CampaignUpdatesProps> = ({ contract, isOwner }) => {
-  const [updates, setUpdates] = useState<Update[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [newUpdate, setNewUpdate] = useState({ title: '', content: '' });
+const CampaignUpdates: React.FC<CampaignUpdatesProps> = ({ contract, account, isOwner }) => {
+  const { comments, threads, post } = useUpdateComments(contract);
+  const [contributions, setContributions] = useState<Map<string, bigint>>(new Map());
+  const [updates, setUpdates] = useState<CampaignUpdate[]>([]);
+  const [pinned, setPinned] = useState<CampaignUpdate | null>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchUpdates = async () => {
-      if (!contract) return;
-      
-      try {
-        const count = await contract.getUpdateCount();
-        const updatesData: Update[] = [];
-        
-        for (let i = 0; i < count; i++) {
-          const update = await contract.updates(i);
-          updatesData.push({
-            id: i,
-            title: update.title,
-            contentHash: update.contentHash,
-            timestamp: update.timestamp
-          });
+  const fetchUpdates = useCallback(async () => {
+    if (!contract) return;
+    
+    try {
+      const [count, pinnedId] = await Promise.all([contract.getUpdateCount(), contract.pinnedUpdate()]);
+      setPinned(pinnedId !== null ? await contract.getUpdate(pinnedId) : null);
+
+      // Corrected versions only show up in their successor's history, and the pin sits above the feed
+      const isListed = (u: CampaignUpdate) => u.supersededBy === null && u.id !== pinnedId;
+
+      if (tagFilter) {
+        // Tags are not indexed on chain, so filtering scans the whole feed
+        const all: CampaignUpdate[] = [];
+        for (let offset = 0; offset < count; offset += FILTER_BATCH_SIZE) {
+          all.push(...(await contract.getUpdates(offset, FILTER_BATCH_SIZE)));
         }
-        
-        setUpdates(updatesData.reverse()); // Show newest first
-      } catch (err) {
-        console.error('Error fetching updates:', err);
+        const matching = all.filter((u) => u.supersededBy === null && u.tags.includes(tagFilter)).reverse();
+        setPageCount(Math.ceil(matching.length / UPDATES_PER_PAGE));
+        setUpdates(matching.slice(page * UPDATES_PER_PAGE, (page + 1) * UPDATES_PER_PAGE));
+        return;
       }
-    };
 
-    fetchUpdates();
-    
-    if (contract) {
-      const filter = contract.filters.CampaignUpdatePosted();
-      contract.on(filter, () => fetchUpdates());
+      // Page 0 holds the newest updates, so pages are counted back from the end
+      setPageCount(Math.ceil(count / UPDATES_PER_PAGE));
+      const end = Math.max(count - page * UPDATES_PER_PAGE, 0);
+      const start = Math.max(end - UPDATES_PER_PAGE, 0);
+      const updatesData = end > start ? await contract.getUpdates(start, end - start) : [];
       
-      return () => {
-        contract.off(filter, () => fetchUpdates());
-      };
+      setUpdates(updatesData.filter(isListed).reverse()); // Show newest first
+    } catch (err) {
+      console.error('Error fetching updates:', err);
     }
-  }, [contract]);
+  }, [contract, page, tagFilter]);
+
+  useEffect(() => {
+    fetchUpdates();
+  }, [fetchUpdates]);
+
+  useEventFeed(contract, ({ event }) => {
+    if (FEED_EVENTS.includes(event.name)) fetchUpdates();
+  });
+
+  const selectTag = (tag: string | null) => {
+    setTagFilter(tag === tagFilter ? null : tag);
+    setPage(0);
+  };
+
+  // Tags offered in the filter: suggestions plus any in view
+  const filterTags = useMemo(
+    () => Array.from(new Set([...SUGGESTED_TAGS, ...(pinned?.tags ?? []), ...updates.flatMap((u) => u.tags)])),
+    [pinned, updates]
+  );
+
+  // Everyone who commented or reacted, lowercased
+  const authors = useMemo(
+    () => Array.from(new Set(comments.map((c) => c.author.toLowerCase()))).sort(),
+    [comments]
+  );
+
+  // Current donations of each author decide the verified donor badge
+  const fetchContributions = useCallback(async () => {
+    if (!contract || authors.length === 0) return;
 
-  const handlePostUpdate = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!contract) return;
-    
-    setIsLoading(true);
-    setError(null);
-    
     try {
-      // For simplicity, store content directly. In production, upload to IPFS first
-      const contentHash = newUpdate.content; // Replace with IPFS hash in production
-      const tx = await contract.postUpdate(newUpdate.title, contentHash);
-      await tx.wait();
-      
-      setNewUpdate({ title: '', content: '' });
-    } catch (err: any) {
-      console.error('Error posting update:', err);
-      setError(err.reason || 'Failed to post update');
-    } finally {
-      setIsLoading(false);
+      const amounts = await Promise.all(authors.map((author) => contract.donations(author)));
+      setContributions(new Map(authors.map((author, i) => [author, amounts[i]])));
+    } catch (err) {
+      console.error('Error fetching contributions:', err);
     }
-  };
+  }, [contract, authors]);
+
+  useEffect(() => {
+    fetchContributions();
+  }, [fetchContributions]);
+
+  useEventFeed(contract, ({ event }) => {
+    if (event.name === 'DonationReceived' || event.name === 'RefundIssued') fetchContributions();
+  });
+
+  const renderCard = (update: CampaignUpdate, isPinned: boolean, showTimeline: boolean) =>
+    contract && (
+      <UpdateCard
+        key={update.id}
+        contract={contract}
+        update={update}
+        account={account}
+        isOwner={isOwner}
+        isPinned={isPinned}
+        showTimeline={showTimeline}
+        thread={threads.get(update.id)}
+        contributions={contributions}
+        onPost={post}
+        onTagSelect={selectTag}
+      />
+    );
 
   return (
     <div className="space-y-6">
@@ -91,96 +138,62 @@ const CampaignUpdates: React.FC<CampaignUpdatesProps> = ({ contract, isOwner })
       </div>
 
       {/* Post Update Form (Owner Only) */}
-      {isOwner && (
+      {isOwner && contract && (
         <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
           <h3 className="text-xl font-bold text-white mb-4">Post New Update</h3>
-          <form onSubmit={handlePostUpdate} className="space-y-4">
-            <div>
-              <label className="block text-white/80 text-sm font-semibold mb-2">
-                Update Title
-              </label>
-              <input
-                type="text"
-                value={newUpdate.title}
-                onChange={(e) => setNewUpdate({...newUpdate, title: e.target.value})}
-                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                placeholder="E.g., Prototype Development Complete!"
-                required
-              />
-            </div>
-            
-            <div>
-              <label className="block text-white/80 text-sm font-semibold mb-2">
-                Content
-              </label>
-              <textarea
-                value={newUpdate.content}
-                onChange={(e) => setNewUpdate({...newUpdate, content: e.target.value})}
-                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[120px]"
-                placeholder="Share progress, achievements, or important news..."
-                required
-              />
-            </div>
-            
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 shadow-lg hover:shadow-blue-500/50"
-            >
-              {isLoading ? 'Posting...' : 'Post Update'}
-            </button>
-          </form>
+          <UpdateEditor
+            submitLabel="Post Update"
+            onSubmit={(title, contentRef, tags) => contract.postUpdate(title, contentRef, tags)}
+          />
         </div>
       )}
 
+      {/* Pinned Update */}
+      {pinned && !tagFilter && renderCard(pinned, true, false)}
+
+      {/* Tag Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-white/60 text-sm font-semibold">Filter:</span>
+        <button
+          onClick={() => selectTag(null)}
+          className={`text-xs px-3 py-1 rounded-full border ${
+            tagFilter === null ? 'bg-purple-500/30 border-purple-400/60 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+          }`}
+        >
+          All
+        </button>
+        {filterTags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => selectTag(tag)}
+            className={`text-xs px-3 py-1 rounded-full border ${
+              tagFilter === tag ? 'bg-purple-500/30 border-purple-400/60 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+
       {/* Updates Timeline */}
       <div className="space-y-4">
+        <Pagination
+          page={page}
+          pageCount={pageCount}
+          onPageChange={setPage}
+        />
+
         {updates.length === 0 ? (
           <div className="bg-white/5 backdrop-blur-md rounded-2xl p-8 border border-white/10 text-center">
             <svg className="w-16 h-16 text-white/30 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
             </svg>
-            <p className="text-white/60">No updates posted yet</p>
+            <p className="text-white/60">{tagFilter ? `No updates tagged #${tagFilter}` : 'No updates posted yet'}</p>
           </div>
         ) : (
-          updates.map((update, index) => (
-            <div key={update.id} className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 relative">
-              {/* Timeline dot */}
-              {index !== updates.length - 1 && (
-                <div className="absolute left-8 top-20 bottom-0 w-0.5 bg-gradient-to-b from-purple-500 to-transparent" />
-              )}
-              
-              <div className="flex space-x-4">
-                <div className="flex-shrink-0">
-                  <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-indigo-600 rounded-full flex items-center justify-center shadow-lg relative z-10">
-                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                  </div>
-                </div>
-                
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between mb-2">
-                    <h4 className="text-lg font-bold text-white">{update.title}</h4>
-                    <span className="text-xs text-white/60 ml-4 flex-shrink-0">
-                      {new Date(Number(update.timestamp) * 1000).toLocaleDateString()}
-                    </span>
-                  </div>
-                  <p className="text-white/80 leading-relaxed whitespace-pre-wrap">
-                    {update.contentHash}
-                  </p>
-                </div>
-              </div>
-            </div>
-          ))
+          updates.map((update, index) => renderCard(update, update.id === pinned?.id, index !== updates.length - 1))
         )}
       </div>
-
-      {error && (
-        <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
-          <p className="text-red-200 text-sm text-center">{error}</p>
-        </div>
-      )}
     </div>
   );
 };
@@ -1,19 +1,53 @@
 import React from 'react';
+import { WalletConnector } from '../wallets/connectors';
 
-// Define props for the component
 interface ConnectWalletProps {
-  connect: () => Promise<void>;
+  connectors: WalletConnector[];
+  // Connector waiting for the user to approve, if any
+  connectingId: string | null;
+  onConnect: (connector: WalletConnector) => void;
 }
 
-const ConnectWallet: React.FC<ConnectWalletProps> = ({ connect }) => {
+// Lists the wallets found in the browser, plus WalletConnect, to connect with
+const ConnectWallet: React.FC<ConnectWalletProps> = ({ connectors, connectingId, onConnect }) => {
+  if (connectors.length === 0) {
+    return (
+      <p className="text-white/80 text-sm bg-white/5 rounded-xl p-4 border border-white/10">
+        No wallet was found in this browser. Install a browser wallet extension such as MetaMask or Rabby, or
+        open this page in your mobile wallet's browser.
+      </p>
+    );
+  }
+
   return (
-    <button
-      onClick={connect}
-      className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
-    >
-      Connect Wallet
-    </button>
+    <div className="space-y-3">
+      {connectors.map((connector) => (
+        <button
+          key={connector.id}
+          onClick={() => onConnect(connector)}
+          disabled={connectingId !== null}
+          className="group relative w-full bg-gradient-to-r from-violet-500 to-purple-600 hover:from-violet-600 hover:to-purple-700 text-white font-bold py-4 px-6 rounded-xl transition-all duration-300 ease-out disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl hover:shadow-purple-500/50 transform hover:scale-105 active:scale-95 disabled:transform-none"
+        >
+          <span className="relative z-10 flex items-center justify-center space-x-3">
+            {connectingId === connector.id ? (
+              <svg className="animate-spin h-6 w-6 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            ) : connector.icon ? (
+              <img src={connector.icon} alt="" className="w-6 h-6 rounded-md" />
+            ) : (
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+              </svg>
+            )}
+            <span>{connectingId === connector.id ? `Connecting to ${connector.name}...` : connector.name}</span>
+          </span>
+          <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-white/0 via-white/10 to-white/0 transform translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-1000"></div>
+        </button>
+      ))}
+    </div>
   );
 };
 
-export default ConnectWallet;
\ No newline at end of file
+export default ConnectWallet;
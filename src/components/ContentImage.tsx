@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { parseContentRef } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+
+interface ContentImageProps {
+  // http(s) URL or ipfs://<cid>
+  src: string;
+  alt: string;
+}
+
+// Image from a Markdown document; IPFS images are fetched through the content store and verified
+const ContentImage: React.FC<ContentImageProps> = ({ src, alt }) => {
+  const store = useContentStore();
+  const isIpfs = src.startsWith('ipfs:');
+  const [url, setUrl] = useState<string | null>(isIpfs ? null : src);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!isIpfs) {
+      setUrl(src);
+      return;
+    }
+
+    const cid = parseContentRef(src);
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setError(!cid);
+    if (!cid) return;
+
+    store
+      .get(cid)
+      .then((data) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(new Blob([data]));
+        setUrl(objectUrl);
+      })
+      .catch((err) => {
+        console.error('Error loading image:', err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src, isIpfs, store]);
+
+  if (error) {
+    return <span className="text-white/50 text-sm italic">[Image unavailable: {alt || 'untitled'}]</span>;
+  }
+  if (!url) {
+    return <span className="block h-32 bg-white/5 rounded-xl animate-pulse" />;
+  }
+  return (
+    <img
+      src={url}
+      alt={alt}
+      referrerPolicy="no-referrer"
+      className="max-w-full max-h-96 rounded-xl border border-white/10 my-2"
+    />
+  );
+};
+
+export default ContentImage;
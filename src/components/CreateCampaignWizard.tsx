@@ -0,0 +1,401 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ethers } from 'ethers';
+import { CrowdfundingFactoryClient } from '../contracts/CrowdfundingFactoryClient';
+import { useNetwork } from '../config/NetworkContext';
+import FiatValue from './FiatValue';
+import { useFiat } from '../prices/FiatContext';
+import { useFiatRate } from '../prices/useFiatRate';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+import { parseAssetAmount } from '../tokens/tokens';
+
+interface CreateCampaignWizardProps {
+  factory: CrowdfundingFactoryClient;
+  account: string | null;
+}
+
+const steps = ['Details', 'Funding', 'Governance', 'Review'] as const;
+
+const CreateCampaignWizard: React.FC<CreateCampaignWizardProps> = ({ factory, account }) => {
+  const { nativeCurrency, stablecoins } = useNetwork();
+  const { currency } = useFiat();
+  // Current price of the native currency, for goals budgeted in fiat
+  const nativeRate = useFiatRate(null);
+  const navigate = useNavigate();
+  const track = useTrackTransaction();
+  const [step, setStep] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [campaign, setCampaign] = useState({
+    title: '',
+    description: '',
+    goal: '',
+    durationDays: '30',
+    quorumPercent: '20',
+    approvalPercent: '50',
+    // Stablecoin addresses donors may give besides the native currency
+    acceptedTokens: [] as string[],
+    // Goal of each accepted stablecoin, by address, in whole units
+    tokenGoals: {} as Record<string, string>
+  });
+
+  // The goal is stored in the native currency; a fiat budget is converted at today's rate
+  const setGoalInFiat = (value: string) => {
+    const fiat = parseFloat(value);
+    setCampaign({...campaign, goal: nativeRate && fiat > 0 ? (fiat / nativeRate).toFixed(6) : ''});
+  };
+
+  const toggleToken = (address: string) => {
+    const acceptedTokens = campaign.acceptedTokens.includes(address)
+      ? campaign.acceptedTokens.filter((a) => a !== address)
+      : [...campaign.acceptedTokens, address];
+    setCampaign({...campaign, acceptedTokens});
+  };
+
+  const goalWei = (() => {
+    try {
+      return ethers.parseEther(campaign.goal);
+    } catch {
+      return null;
+    }
+  })();
+
+  const acceptedStablecoins = stablecoins.filter((token) => campaign.acceptedTokens.includes(token.address));
+
+  const detailsValid = campaign.title.trim().length > 0;
+  const fundingValid =
+    parseFloat(campaign.goal) > 0 &&
+    parseInt(campaign.durationDays) > 0 &&
+    acceptedStablecoins.every((token) => parseFloat(campaign.tokenGoals[token.address] ?? '') > 0);
+  const quorum = parseFloat(campaign.quorumPercent);
+  const approval = parseFloat(campaign.approvalPercent);
+  const governanceValid = quorum >= 0 && quorum <= 100 && approval >= 50 && approval <= 100;
+  const stepValid = [detailsValid, fundingValid, governanceValid];
+
+  const handleCreate = async () => {
+    if (!account) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await factory.createCampaign(
+        ethers.parseEther(campaign.goal),
+        parseInt(campaign.durationDays),
+        Math.round(quorum * 100),
+        Math.round(approval * 100),
+        campaign.title.trim(),
+        campaign.description.trim(),
+        acceptedStablecoins.map((token) => token.address),
+        acceptedStablecoins.map((token) => parseAssetAmount(campaign.tokenGoals[token.address], token))
+      );
+      const receipt = await track(tx, `Create campaign: ${campaign.title.trim()}`);
+      const created = receipt && factory.parseCampaignCreated(receipt);
+
+      navigate(created ? `/campaign/${created.campaign}` : '/');
+    } catch (err: any) {
+      console.error('Error creating campaign:', err);
+      setError(describeError(err, 'Failed to create campaign'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <Link to="/" className="inline-block text-white/70 hover:text-white text-sm font-semibold mb-2">
+          ← All campaigns
+        </Link>
+        <h2 className="text-2xl font-bold text-white mb-2">Create a Campaign</h2>
+        <p className="text-white/70">Deploy a new milestone-governed fundraiser</p>
+      </div>
+
+      {/* Step Indicator */}
+      <div className="flex space-x-2 bg-white/5 backdrop-blur-md p-2 rounded-2xl border border-white/10">
+        {steps.map((label, index) => (
+          <div
+            key={label}
+            className={`flex-1 py-3 px-4 rounded-xl font-semibold text-center ${
+              index === step
+                ? 'bg-gradient-to-r from-violet-500 to-purple-600 text-white shadow-lg'
+                : index < step
+                ? 'text-white'
+                : 'text-white/50'
+            }`}
+          >
+            {index + 1}. {label}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-4">
+        {step === 0 && (
+          <>
+            <div>
+              <label className="block text-white/80 text-sm font-semibold mb-2">
+                Campaign Title
+              </label>
+              <input
+                type="text"
+                value={campaign.title}
+                onChange={(e) => setCampaign({...campaign, title: e.target.value})}
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                placeholder="E.g., Clean Water for Riverside Village"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-white/80 text-sm font-semibold mb-2">
+                Description
+              </label>
+              <textarea
+                value={campaign.description}
+                onChange={(e) => setCampaign({...campaign, description: e.target.value})}
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[120px]"
+                placeholder="Explain what the funds are for and how milestones will be delivered..."
+              />
+            </div>
+          </>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-white/80 text-sm font-semibold mb-2">
+                  Fundraising Goal ({nativeCurrency.symbol})
+                </label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={campaign.goal}
+                  onChange={(e) => setCampaign({...campaign, goal: e.target.value})}
+                  className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  placeholder="10.0"
+                  required
+                />
+                {nativeRate !== null && (
+                  <div className="mt-2">
+                    <label className="block text-white/60 text-xs font-semibold mb-1">
+                      Or budget in {currency}
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      onChange={(e) => setGoalInFiat(e.target.value)}
+                      className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="25000"
+                    />
+                    <p className="text-white/50 text-xs mt-1">
+                      Converted at today's rate; the goal is fixed in {nativeCurrency.symbol} once deployed.
+                    </p>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-white/80 text-sm font-semibold mb-2">
+                  Duration (days)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={campaign.durationDays}
+                  onChange={(e) => setCampaign({...campaign, durationDays: e.target.value})}
+                  className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  required
+                />
+              </div>
+            </div>
+            {stablecoins.length > 0 && (
+              <div>
+                <p className="text-white/80 text-sm font-semibold mb-2">Also accept stablecoins</p>
+                <div className="flex flex-wrap gap-3">
+                  {stablecoins.map((token) => (
+                    <label key={token.address} className="flex items-center space-x-2 text-white/80 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={campaign.acceptedTokens.includes(token.address)}
+                        onChange={() => toggleToken(token.address)}
+                      />
+                      <span>{token.symbol}</span>
+                    </label>
+                  ))}
+                </div>
+                {acceptedStablecoins.length > 0 && (
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    {acceptedStablecoins.map((token) => (
+                      <div key={token.address}>
+                        <label className="block text-white/80 text-sm font-semibold mb-2">
+                          Goal ({token.symbol})
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={campaign.tokenGoals[token.address] ?? ''}
+                          onChange={(e) =>
+                            setCampaign({...campaign, tokenGoals: {...campaign.tokenGoals, [token.address]: e.target.value}})
+                          }
+                          className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          required
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-white/60 text-xs mt-2">
+                  Each stablecoin has its own goal, and the campaign is funded once every asset's share of its goal
+                  adds up to 100%: half the {nativeCurrency.symbol} goal plus half a stablecoin goal is enough.
+                  Stablecoin donors vote on the milestones paid out in their stablecoin.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-white/80 text-sm font-semibold mb-2">
+                  Quorum (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={campaign.quorumPercent}
+                  onChange={(e) => setCampaign({...campaign, quorumPercent: e.target.value})}
+                  className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-white/80 text-sm font-semibold mb-2">
+                  Approval Threshold (%)
+                </label>
+                <input
+                  type="number"
+                  min="50"
+                  max="100"
+                  step="0.01"
+                  value={campaign.approvalPercent}
+                  onChange={(e) => setCampaign({...campaign, approvalPercent: e.target.value})}
+                  className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  required
+                />
+              </div>
+            </div>
+            <p className="text-white/60 text-xs">
+              A milestone vote only counts if donors holding at least the quorum share of all donations vote
+              (abstentions included). It is approved when yes votes reach the threshold share of yes and no votes;
+              50% means a simple majority.
+            </p>
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="space-y-3">
+            <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+              <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Title</p>
+              <p className="text-white font-bold">{campaign.title}</p>
+            </div>
+            {campaign.description && (
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Description</p>
+                <p className="text-white/80 whitespace-pre-wrap">{campaign.description}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Goal</p>
+                <p className="text-white font-bold">{campaign.goal} {nativeCurrency.symbol}</p>
+                {goalWei !== null && <FiatValue amount={goalWei} className="text-white/60 text-sm" />}
+              </div>
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Ends</p>
+                <p className="text-white font-bold">
+                  {new Date(Date.now() + parseInt(campaign.durationDays) * 86400000).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Quorum</p>
+                <p className="text-white font-bold">{campaign.quorumPercent}% of donations</p>
+              </div>
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Approval</p>
+                <p className="text-white font-bold">{campaign.approvalPercent}% of yes + no votes</p>
+              </div>
+            </div>
+            {campaign.acceptedTokens.length > 0 && (
+              <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+                <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Also Accepts</p>
+                <p className="text-white font-bold">
+                  {acceptedStablecoins
+                    .map((token) => `${campaign.tokenGoals[token.address]} ${token.symbol} goal`)
+                    .join(', ')}
+                </p>
+              </div>
+            )}
+            <p className="text-white/60 text-xs">
+              The goal, deadline, voting rules and accepted tokens cannot be changed after deployment.
+            </p>
+            {!account && (
+              <p className="text-amber-200 text-sm">
+                Connect your wallet to deploy this campaign.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Navigation */}
+        <div className="flex gap-3 pt-2">
+          {step > 0 && (
+            <button
+              type="button"
+              onClick={() => setStep(step - 1)}
+              disabled={isLoading}
+              className="flex-1 bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300"
+            >
+              Back
+            </button>
+          )}
+          {step < steps.length - 1 ? (
+            <button
+              type="button"
+              onClick={() => setStep(step + 1)}
+              disabled={!stepValid[step]}
+              className="flex-1 bg-gradient-to-r from-violet-500 to-purple-600 hover:from-violet-600 hover:to-purple-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed shadow-lg"
+            >
+              Next
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isLoading || !account}
+              className="flex-1 bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 shadow-lg hover:shadow-emerald-500/50"
+            >
+              {isLoading ? 'Deploying...' : 'Launch Campaign'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
+          <p className="text-red-200 text-sm text-center">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreateCampaignWizard;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { useFiat } from '../prices/FiatContext';
+import { FIAT_CURRENCIES, FiatCurrency } from '../prices/PriceFeed';
+
+// Picks the currency fiat equivalents are shown in
+const CurrencySelector: React.FC = () => {
+  const { currency, setCurrency } = useFiat();
+
+  return (
+    <label className="inline-flex items-center space-x-2 text-white/70 text-sm font-semibold">
+      <span>Show values in</span>
+      <select
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value as FiatCurrency)}
+        className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+      >
+        {FIAT_CURRENCIES.map((code) => (
+          <option key={code} value={code} className="text-gray-900">
+            {code}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default CurrencySelector;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import {
+  CrowdfundingClient,
+  CrowdfundingEventRecord,
+} from '../contracts/CrowdfundingClient';
+import { delegatorsOf } from '../analytics/delegations';
+import { useNetwork } from '../config/NetworkContext';
+import { useEventFeed } from '../indexer/useEventFeed';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+interface DelegationPanelProps {
+  contract: CrowdfundingClient;
+  account: string;
+  // Indexed campaign events in chain order
+  events: CrowdfundingEventRecord[];
+}
+
+const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Lets a donor hand their voting power to someone else, and shows delegates who they vote for
+const DelegationPanel: React.FC<DelegationPanelProps> = ({ contract, account, events }) => {
+  const { nativeCurrency } = useNetwork();
+  const track = useTrackTransaction();
+  // Zero address while the account votes for itself
+  const [delegate, setDelegate] = useState<string>(ethers.ZeroAddress);
+  const [votes, setVotes] = useState(0n);
+  const [delegateInput, setDelegateInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const delegators = useMemo(() => delegatorsOf(events, account), [events, account]);
+
+  const fetchDelegation = useCallback(async () => {
+    try {
+      const [currentDelegate, currentVotes] = await Promise.all([
+        contract.delegates(account),
+        contract.getVotes(account),
+      ]);
+      setDelegate(currentDelegate);
+      setVotes(currentVotes);
+    } catch (err) {
+      console.error('Error fetching delegation:', err);
+    }
+  }, [contract, account]);
+
+  useEffect(() => {
+    fetchDelegation();
+  }, [fetchDelegation]);
+
+  useEventFeed(contract, ({ event }) => {
+    if (event.name === 'DelegateChanged' || event.name === 'DonationReceived' || event.name === 'RefundIssued') {
+      fetchDelegation();
+    }
+  });
+
+  const handleDelegate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!ethers.isAddress(delegateInput)) {
+      setError('Enter a valid address to delegate to.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await contract.delegate(ethers.getAddress(delegateInput));
+      await track(tx, `Delegate votes to ${shortenAddress(delegateInput)}`);
+      setDelegateInput('');
+      fetchDelegation();
+    } catch (err: any) {
+      console.error('Error delegating:', err);
+      setError(describeError(err, 'Failed to delegate'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUndelegate = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await contract.undelegate();
+      await track(tx, 'Revoke delegation');
+      fetchDelegation();
+    } catch (err: any) {
+      console.error('Error revoking delegation:', err);
+      setError(describeError(err, 'Failed to revoke delegation'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isDelegating = delegate !== ethers.ZeroAddress;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-xl font-bold text-white">Delegation</h3>
+          <p className="text-white/60 text-sm">
+            Let someone you trust vote with your donation. Milestones already open keep the power held when they
+            were created.
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-white/60 text-xs">Your Voting Power</p>
+          <p className="text-white font-bold">{ethers.formatEther(votes)} {nativeCurrency.symbol}</p>
+        </div>
+      </div>
+
+      {delegators.length > 0 && (
+        <div className="bg-purple-500/20 rounded-xl px-4 py-3 border border-purple-500/30 text-sm">
+          <p className="text-white font-semibold">
+            Voting on behalf of {delegators.length} donor{delegators.length === 1 ? '' : 's'}
+          </p>
+          <p className="text-white/70 font-mono text-xs mt-1">{delegators.map(shortenAddress).join(', ')}</p>
+        </div>
+      )}
+
+      {isDelegating ? (
+        <div className="flex justify-between items-center bg-white/5 rounded-xl px-4 py-3 text-sm">
+          <span className="text-white">
+            Delegated to <span className="font-mono">{shortenAddress(delegate)}</span>
+          </span>
+          <button
+            onClick={handleUndelegate}
+            disabled={isLoading}
+            className="text-red-300 hover:text-red-200 font-semibold"
+          >
+            {isLoading ? 'Revoking...' : 'Revoke'}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleDelegate} className="flex gap-3">
+          <input
+            type="text"
+            value={delegateInput}
+            onChange={(e) => setDelegateInput(e.target.value)}
+            className="flex-1 bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white text-sm placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            placeholder="Delegate address (0x...)"
+            required
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 text-purple-200 font-bold py-2 px-4 rounded-xl transition-all duration-300"
+          >
+            {isLoading ? 'Delegating...' : 'Delegate'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-red-200 text-sm text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default DelegationPanel;
@@ -1,21 +1,70 @@
 import React from 'react';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { TokenDonationStep, formatAssetAmount, parseAssetAmount } from '../tokens/tokens';
 
 interface DonationFormProps {
   donate: (amount: string) => Promise<void>;
   amount: string;
   setAmount: (amount: string) => void;
+  // ERC-20 tokens the campaign accepts besides ETH
+  tokens?: TokenInfo[];
+  // Asset being donated, null for ETH
+  token?: TokenInfo | null;
+  setToken?: (token: TokenInfo | null) => void;
+  // The wallet's balance of that asset, if known
+  balance?: bigint | null;
+  // Progress of a token donation that needs a signature or approval first
+  step?: TokenDonationStep | null;
   isLoading?: boolean;
 }
 
-const DonationForm: React.FC<DonationFormProps> = ({ donate, amount, setAmount, isLoading = false }) => {
+const STEP_LABELS: Record<TokenDonationStep, string> = {
+  permit: 'Sign the permit in your wallet...',
+  approve: 'Approving token spend...',
+  donate: 'Processing...',
+};
+
+// Parses an entered amount, null while it is not a valid number for the asset
+const tryParse = (amount: string, token: TokenInfo | null): bigint | null => {
+  try {
+    return parseAssetAmount(amount, token);
+  } catch {
+    return null;
+  }
+};
+
+const DonationForm: React.FC<DonationFormProps> = ({
+  donate,
+  amount,
+  setAmount,
+  tokens = [],
+  token = null,
+  setToken,
+  balance = null,
+  step = null,
+  isLoading = false
+}) => {
+  const network = useNetwork();
+  const { nativeCurrency } = network;
+  const symbol = token ? token.symbol : nativeCurrency.symbol;
+  const value = amount ? tryParse(amount, token) : null;
+  const exceedsBalance = value !== null && balance !== null && value > balance;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (amount && parseFloat(amount) > 0) {
+    if (amount && parseFloat(amount) > 0 && !exceedsBalance) {
       donate(amount);
     }
   };
 
-  const quickAmounts = ['0.01', '0.05', '0.1', '0.5'];
+  const selectAsset = (next: TokenInfo | null) => {
+    setToken?.(next);
+    setAmount('');
+  };
+
+  // Stablecoins get round dollar amounts
+  const quickAmounts = token ? ['5', '10', '25', '100'] : ['0.01', '0.05', '0.1', '0.5'];
 
   return (
     <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
@@ -27,6 +76,26 @@ const DonationForm: React.FC<DonationFormProps> = ({ donate, amount, setAmount,
       </h3>
 
       <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Asset selector */}
+        {tokens.length > 0 && (
+          <div className="flex gap-2">
+            {[null, ...tokens].map((option) => (
+              <button
+                key={option?.address ?? 'native'}
+                type="button"
+                onClick={() => selectAsset(option)}
+                className={`flex-1 font-semibold py-2 px-3 rounded-lg transition-all duration-200 border ${
+                  option?.address === token?.address
+                    ? 'bg-purple-500/40 border-purple-400 text-white'
+                    : 'bg-white/10 hover:bg-white/20 border-white/20 text-white/80'
+                }`}
+              >
+                {option ? option.symbol : nativeCurrency.symbol}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Quick amount buttons */}
         <div className="grid grid-cols-4 gap-2">
           {quickAmounts.map((preset) => (
@@ -36,19 +105,24 @@ const DonationForm: React.FC<DonationFormProps> = ({ donate, amount, setAmount,
               onClick={() => setAmount(preset)}
               className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-3 rounded-lg transition-all duration-200 border border-white/20 hover:border-white/40"
             >
-              {preset} ETH
+              {preset} {symbol}
             </button>
           ))}
         </div>
 
         {/* Custom amount input */}
         <div>
-          <label className="block text-white/80 text-sm font-semibold mb-2">
-            Custom Amount (ETH)
-          </label>
+          <div className="flex justify-between items-baseline mb-2">
+            <label className="block text-white/80 text-sm font-semibold">
+              Custom Amount ({symbol})
+            </label>
+            {balance !== null && (
+              <span className="text-white/60 text-xs">Balance: {formatAssetAmount(balance, token, network)}</span>
+            )}
+          </div>
           <input
             type="number"
-            step="0.001"
+            step={token ? '0.01' : '0.001'}
             min="0"
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
@@ -56,12 +130,20 @@ const DonationForm: React.FC<DonationFormProps> = ({ donate, amount, setAmount,
             className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white text-lg placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
             required
           />
+          {exceedsBalance && (
+            <p className="text-red-200 text-xs mt-2">The amount is more than your wallet holds.</p>
+          )}
+          {token && (
+            <p className="text-white/50 text-xs mt-2">
+              {token.symbol} donations count toward the {token.symbol} goal, are refundable like {nativeCurrency.symbol}, and vote on milestones paid out in {token.symbol}.
+            </p>
+          )}
         </div>
 
         {/* Submit button */}
         <button
           type="submit"
-          disabled={isLoading || !amount || parseFloat(amount) <= 0}
+          disabled={isLoading || !amount || parseFloat(amount) <= 0 || exceedsBalance}
           className="w-full bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed shadow-lg hover:shadow-pink-500/50 transform hover:scale-105 active:scale-95 disabled:transform-none"
         >
           {isLoading ? (
@@ -70,7 +152,7 @@ const DonationForm: React.FC<DonationFormProps> = ({ donate, amount, setAmount,
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              <span>Processing...</span>
+              <span>{step ? STEP_LABELS[step] : 'Processing...'}</span>
             </span>
           ) : (
             'Donate Now'
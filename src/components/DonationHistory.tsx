@@ -1,42 +1,106 @@
-import React from 'react';
-import { ethers } from 'ethers';
-
-// Define the shape of a single donation event
-export interface DonationEvent {
-  donor: string;
-  amount: bigint;
-  txHash: string;
-}
+import React, { useState } from 'react';
+import FiatValue from './FiatValue';
+import { DonationEvent, RefundIssuedEvent, TokenDonationEvent } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+import { TokenInfo, explorerTxUrl } from '../config/networks';
+import { confirmationsAt } from '../indexer/EventFeed';
+import { findToken, formatAssetAmount } from '../tokens/tokens';
 
 interface DonationHistoryProps {
   donations: DonationEvent[];
+  refunds?: RefundIssuedEvent[];
+  tokenDonations?: TokenDonationEvent[];
+  tokenRefunds?: TokenDonationEvent[];
+  // Accepted tokens, to show token amounts with their symbol and decimals
+  tokens?: TokenInfo[];
+  // Current block, used to flag entries that are not final yet
+  headBlock?: number | null;
 }
 
-const DonationHistory: React.FC<DonationHistoryProps> = ({ donations }) => {
+const DonationHistory: React.FC<DonationHistoryProps> = ({
+  donations,
+  refunds = [],
+  tokenDonations = [],
+  tokenRefunds = [],
+  tokens = [],
+  headBlock = null
+}) => {
+  const network = useNetwork();
+  // Value entries at today's rate, or at the rate of the block they landed in
+  const [valuation, setValuation] = useState<'now' | 'atDonation'>('now');
   // Function to shorten a wallet address
   const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
 
+  // Token entries wait until the token's symbol and decimals are known
+  const tokenEntries = (events: TokenDonationEvent[], isRefund: boolean) =>
+    events.flatMap((event) => {
+      const token = findToken(tokens, event.token);
+      return token ? [{ ...event, token, isRefund }] : [];
+    });
+
+  // Interleave ETH and token donations and refunds, newest first
+  const entries = [
+    ...donations.map((event) => ({ ...event, token: null, isRefund: false })),
+    ...refunds.map((event) => ({ ...event, token: null, isRefund: true })),
+    ...tokenEntries(tokenDonations, false),
+    ...tokenEntries(tokenRefunds, true),
+  ].sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
   return (
     <div className="mt-8">
-      <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Donations</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Recent Donations</h3>
+        <div className="flex space-x-1 text-xs font-semibold">
+          {(['now', 'atDonation'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setValuation(option)}
+              className={`px-2 py-1 rounded-md ${
+                valuation === option ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {option === 'now' ? 'Value now' : 'Value at donation'}
+            </button>
+          ))}
+        </div>
+      </div>
       <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
-        {donations.length > 0 ? (
-          donations.map((donation, index) => (
-            <div key={index} className="bg-gray-50 p-3 rounded-lg flex justify-between items-center shadow-sm">
+        {entries.length > 0 ? (
+          entries.map((donation) => (
+            <div key={`${donation.txHash}-${donation.logIndex}`} className="bg-gray-50 p-3 rounded-lg flex justify-between items-center shadow-sm">
               <div>
-                <p className="font-mono text-sm text-gray-700">{shortenAddress(donation.donor)}</p>
-                <p className="font-bold text-indigo-600">{ethers.formatEther(donation.amount)} ETH</p>
+                <p className="font-mono text-sm text-gray-700">
+                  {shortenAddress(donation.donor)}
+                  {headBlock !== null && confirmationsAt(donation.blockNumber, headBlock) < network.confirmations && (
+                    <span className="ml-2 font-sans text-xs text-amber-600">
+                      Confirming {confirmationsAt(donation.blockNumber, headBlock)}/{network.confirmations}
+                    </span>
+                  )}
+                </p>
+                {donation.isRefund ? (
+                  <p className="font-bold text-amber-600">-{formatAssetAmount(donation.amount, donation.token, network)} (refunded)</p>
+                ) : (
+                  <p className="font-bold text-indigo-600">{formatAssetAmount(donation.amount, donation.token, network)}</p>
+                )}
+                <FiatValue
+                  amount={donation.amount}
+                  asset={donation.token}
+                  blockTag={valuation === 'atDonation' ? donation.blockNumber : undefined}
+                  className="text-xs text-gray-500"
+                />
               </div>
-              <a
-                href={`https://sepolia.etherscan.io/tx/${donation.txHash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-indigo-500 hover:text-indigo-700"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                </svg>
-              </a>
+              {explorerTxUrl(network, donation.txHash) && (
+                <a
+                  href={explorerTxUrl(network, donation.txHash) ?? undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-indigo-500 hover:text-indigo-700"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                  </svg>
+                </a>
+              )}
             </div>
           ))
         ) : (
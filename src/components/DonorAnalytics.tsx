@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { ethers } from 'ethers';
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { DonorAnalytics as DonorAnalyticsData, cumulativeFunding } from '../analytics/donorAnalytics';
+import { useBlockTimestamps } from '../analytics/useBlockTimestamps';
+import { useNetwork } from '../config/NetworkContext';
+
+interface DonorAnalyticsProps {
+  analytics: DonorAnalyticsData;
+  // Indexed campaign events in chain order
+  events: CrowdfundingEventRecord[];
+  fundraisingGoal: bigint;
+  deadline: bigint;
+  provider: ethers.Provider;
+  account: string | null;
+}
+
+const LEADERBOARD_SIZE = 10;
+
+// Chart drawing area in SVG units
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const DonorAnalytics: React.FC<DonorAnalyticsProps> = ({
+  analytics,
+  events,
+  fundraisingGoal,
+  deadline,
+  provider,
+  account
+}) => {
+  const { nativeCurrency } = useNetwork();
+
+  const funding = useMemo(() => cumulativeFunding(events), [events]);
+  const fundingBlocks = useMemo(() => funding.map((p) => p.blockNumber), [funding]);
+  const timestamps = useBlockTimestamps(provider, fundingBlocks);
+
+  // Step chart of the running total, with the goal and deadline as guides
+  const chart = useMemo(() => {
+    const points = funding
+      .filter((p) => timestamps.has(p.blockNumber))
+      .map((p) => ({ time: timestamps.get(p.blockNumber) as number, total: p.total }));
+    if (points.length === 0) return null;
+
+    const start = points[0].time;
+    const end = Math.max(Number(deadline), points[points.length - 1].time, start + 1);
+    const maxTotal = points.reduce((max, p) => (p.total > max ? p.total : max), fundraisingGoal);
+    const top = maxTotal > 0n ? maxTotal + maxTotal / 10n : 1n;
+
+    const x = (time: number) => ((time - start) / (end - start)) * CHART_WIDTH;
+    const y = (total: bigint) => CHART_HEIGHT - (Number((total * 10000n) / top) / 10000) * CHART_HEIGHT;
+
+    let path = `M ${x(start)} ${CHART_HEIGHT}`;
+    for (const p of points) {
+      path += ` H ${x(p.time)} V ${y(p.total)}`;
+    }
+    path += ` H ${x(Math.min(Math.floor(Date.now() / 1000), end))}`;
+
+    return { path, goalY: y(fundraisingGoal), deadlineX: deadline > 0n ? x(Number(deadline)) : null, start, end };
+  }, [funding, timestamps, fundraisingGoal, deadline]);
+
+  const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center space-x-3">
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          <span>Donor Analytics</span>
+        </h2>
+        <p className="text-white/70">Who is backing this campaign and how funding has grown</p>
+      </div>
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+          <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Unique Donors</p>
+          <p className="text-2xl font-bold text-white">{analytics.uniqueDonors}</p>
+        </div>
+        <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+          <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Donations</p>
+          <p className="text-2xl font-bold text-white">{analytics.donationCount}</p>
+        </div>
+        <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+          <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Median</p>
+          <p className="text-lg font-bold text-white">{ethers.formatEther(analytics.medianDonation)} {nativeCurrency.symbol}</p>
+        </div>
+        <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+          <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Mean</p>
+          <p className="text-lg font-bold text-white">{ethers.formatEther(analytics.meanDonation)} {nativeCurrency.symbol}</p>
+        </div>
+      </div>
+
+      {/* Cumulative Funding Chart */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <h3 className="text-xl font-bold text-white mb-4">Funding Over Time</h3>
+        {chart ? (
+          <>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+              <path d={`${chart.path} V ${CHART_HEIGHT} Z`} fill="rgba(167, 139, 250, 0.2)" />
+              <path d={chart.path} fill="none" stroke="rgb(167, 139, 250)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              <line
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={chart.goalY}
+                y2={chart.goalY}
+                stroke="rgb(52, 211, 153)"
+                strokeDasharray="6 4"
+                vectorEffect="non-scaling-stroke"
+              />
+              {chart.deadlineX !== null && (
+                <line
+                  x1={chart.deadlineX}
+                  x2={chart.deadlineX}
+                  y1={0}
+                  y2={CHART_HEIGHT}
+                  stroke="rgb(248, 113, 113)"
+                  strokeDasharray="6 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+            <div className="flex justify-between text-white/60 text-xs mt-2">
+              <span>{formatDate(chart.start)}</span>
+              <span className="flex space-x-4">
+                <span className="text-emerald-300">- - Goal {ethers.formatEther(fundraisingGoal)} {nativeCurrency.symbol}</span>
+                {chart.deadlineX !== null && <span className="text-red-300">- - Deadline</span>}
+              </span>
+              <span>{formatDate(chart.end)}</span>
+            </div>
+          </>
+        ) : (
+          <p className="text-white/60 text-center">{funding.length === 0 ? 'No donations yet' : 'Loading chart...'}</p>
+        )}
+      </div>
+
+      {/* Leaderboard */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <h3 className="text-xl font-bold text-white mb-4">Top Donors</h3>
+        {analytics.donors.length === 0 ? (
+          <p className="text-white/60 text-center">No donors yet</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-white/60 text-xs font-semibold uppercase tracking-wider px-3">
+              <span className="col-span-1">#</span>
+              <span className="col-span-5">Donor</span>
+              <span className="col-span-4 text-right">Net Contribution</span>
+              <span className="col-span-2 text-right">Vote Share</span>
+            </div>
+            {analytics.donors.slice(0, LEADERBOARD_SIZE).map((donor, index) => (
+              <div
+                key={donor.donor}
+                className={`grid grid-cols-12 gap-2 items-center rounded-xl p-3 border ${
+                  donor.donor.toLowerCase() === account?.toLowerCase()
+                    ? 'bg-purple-500/20 border-purple-500/30'
+                    : 'bg-white/5 border-white/10'
+                }`}
+              >
+                <span className="col-span-1 text-white/70 font-bold">{index + 1}</span>
+                <span className="col-span-5 font-mono text-sm text-white">
+                  {shortenAddress(donor.donor)}
+                  {donor.refunded > 0n && <span className="ml-2 font-sans text-xs text-amber-300">refunded</span>}
+                </span>
+                <span className="col-span-4 text-right font-bold text-white">
+                  {ethers.formatEther(donor.net)} {nativeCurrency.symbol}
+                </span>
+                <span className="col-span-2 text-right text-white/80">{donor.voteShare.toFixed(2)}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DonorAnalytics;
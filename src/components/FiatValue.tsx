@@ -0,0 +1,31 @@
+import React from 'react';
+import { TokenInfo } from '../config/networks';
+import { useFiat } from '../prices/FiatContext';
+import { useFiatRate } from '../prices/useFiatRate';
+import { formatFiat, toFiat } from '../prices/PriceFeed';
+
+interface FiatValueProps {
+  amount: bigint;
+  // Asset the amount is in, null for ETH
+  asset?: TokenInfo | null;
+  // Value the amount at this block instead of now
+  blockTag?: number;
+  className?: string;
+}
+
+// Approximate display-currency value of an amount, e.g. "≈ $1,234.56".
+// Renders nothing while the rate loads or when the feed has none.
+const FiatValue: React.FC<FiatValueProps> = ({ amount, asset = null, blockTag, className = '' }) => {
+  const { currency } = useFiat();
+  const rate = useFiatRate(asset, blockTag);
+
+  if (rate === null) return null;
+
+  return (
+    <span className={className}>
+      ≈ {formatFiat(toFiat(amount, asset ? asset.decimals : 18, rate), currency)}
+    </span>
+  );
+};
+
+export default FiatValue;
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import ContentImage from './ContentImage';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../content/markdown';
+
+interface MarkdownContentProps {
+  source: string;
+}
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-bold'];
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={i} className="bg-black/30 rounded px-1 font-mono text-sm">{node.text}</code>;
+      case 'strong':
+        return <strong key={i} className="font-bold text-white">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-purple-200 underline hover:text-white">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image':
+        return <ContentImage key={i} src={node.src} alt={node.alt} />;
+    }
+    return null;
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(
+          `h${Math.min(block.level + 2, 6)}`,
+          { key: i, className: `${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-white` },
+          renderInline(block.children)
+        );
+      case 'paragraph':
+        return <p key={i} className="whitespace-pre-line">{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="whitespace-pre-line">{renderInline(item)}</li>);
+        return block.ordered
+          ? <ol key={i} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className="border-l-4 border-purple-400/50 pl-4 text-white/70 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'code':
+        return <pre key={i} className="bg-black/30 rounded-xl p-3 overflow-x-auto font-mono text-sm">{block.text}</pre>;
+      case 'rule':
+        return <hr key={i} className="border-white/10" />;
+    }
+    return null;
+  });
+
+// Renders untrusted Markdown as React elements; raw HTML shows as text and only safe URLs are linked
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className="text-white/80 leading-relaxed space-y-3 break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
@@ -1,32 +1,71 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ethers } from 'ethers';
+import Pagination from './Pagination';
+import MilestoneVoters from './MilestoneVoters';
+import VoteReceipt from './VoteReceipt';
+import PendingSignedVotes from './PendingSignedVotes';
+import DelegationPanel from './DelegationPanel';
+import MilestoneOwnerActions from './MilestoneOwnerActions';
+import MilestoneRoundHistory from './MilestoneRoundHistory';
+import StoredContent from './StoredContent';
+import FiatValue from './FiatValue';
+import {
+  CrowdfundingClient,
+  CrowdfundingEventRecord,
+  Milestone,
+  decodeCrowdfundingError,
+} from '../contracts/CrowdfundingClient';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { publishText } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+import { useEventFeed } from '../indexer/useEventFeed';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+import { usePendingVotes } from '../votes/usePendingVotes';
+import { delegatorsOf, donationAt } from '../analytics/delegations';
+import { milestoneRounds } from '../analytics/milestoneRounds';
+import { findToken, formatAssetAmount, parseAssetAmount } from '../tokens/tokens';
 
-interface Milestone {
-  id: number;
-  description: string;
-  fundAmount: bigint;
-  voteDeadline: bigint;
-  yesVotes: bigint;
-  noVotes: bigint;
-  approved: boolean;
-  fundsReleased: boolean;
-  votingActive: boolean;
-}
+const MILESTONES_PER_PAGE = 10;
 
 interface MilestoneManagerProps {
-  contract: ethers.Contract | null;
+  contract: CrowdfundingClient | null;
   account: string | null;
   isOwner: boolean;
   userDonation: bigint;
+  // Indexed campaign events in chain order
+  events: CrowdfundingEventRecord[];
+  // ERC-20 tokens the campaign accepts besides ETH, which milestones can pay out
+  tokens?: TokenInfo[];
 }
 
 const MilestoneManager: React.FC<MilestoneManagerProps> = ({
   contract,
   account,
   isOwner,
-  userDonation
+  userDonation,
+  events,
+  tokens = []
 }) => {
+  const network = useNetwork();
+  const track = useTrackTransaction();
+  const { nativeCurrency } = network;
+  const store = useContentStore();
   const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [milestoneCount, setMilestoneCount] = useState(0);
+  const [page, setPage] = useState(0);
+  // Milestones on this page the connected account has voted on
+  const [votedIds, setVotedIds] = useState<Set<number>>(new Set());
+  // The connected account's snapshot voting power per milestone on this page
+  const [votingPower, setVotingPower] = useState<Map<number, bigint>>(new Map());
+  // The connected account's own ETH donation at each milestone's snapshot block
+  const [snapshotDonations, setSnapshotDonations] = useState<Map<number, bigint>>(new Map());
+  // Campaign voting rules in basis points, fixed at deployment
+  const [rules, setRules] = useState<{ quorumBps: number; approvalThresholdBps: number } | null>(null);
+  const pendingVotes = usePendingVotes(contract?.address ?? '');
+  // Balance not yet reserved by other milestones, the most a new one can ask for
+  const [unallocated, setUnallocated] = useState<bigint | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -34,51 +73,160 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
   const [newMilestone, setNewMilestone] = useState({
     description: '',
     fundAmount: '',
-    votingDays: '7'
+    votingDays: '7',
+    evidence: '',
+    // Address of the token to pay out, empty for ETH
+    token: ''
   });
+  const newMilestoneToken = findToken(tokens, newMilestone.token || null);
+
+  // Fetch the current page of milestones in two calls regardless of its size
+  const fetchMilestones = useCallback(async () => {
+    if (!contract) return;
+    
+    try {
+      const count = await contract.getMilestoneCount();
+      setMilestoneCount(count);
+      setMilestones(await contract.getMilestones(page * MILESTONES_PER_PAGE, MILESTONES_PER_PAGE));
+    } catch (err) {
+      console.error('Error fetching milestones:', err);
+    }
+  }, [contract, page]);
 
-  // Fetch milestones
   useEffect(() => {
-    const fetchMilestones = async () => {
-      if (!contract) return;
-      
-      try {
-        const count = await contract.getMilestoneCount();
-        const milestonesData: Milestone[] = [];
-        
-        for (let i = 0; i < count; i++) {
-          const m = await contract.getMilestone(i);
-          milestonesData.push({
-            id: i,
-            description: m.description,
-            fundAmount: m.fundAmount,
-            voteDeadline: m.voteDeadline,
-            yesVotes: m.yesVotes,
-            noVotes: m.noVotes,
-            approved: m.approved,
-            fundsReleased: m.fundsReleased,
-            votingActive: m.votingActive
-          });
-        }
-        
-        setMilestones(milestonesData);
-      } catch (err) {
-        console.error('Error fetching milestones:', err);
+    fetchMilestones();
+  }, [fetchMilestones]);
+
+  useEffect(() => {
+    if (!contract) return;
+    Promise.all([contract.quorumBps(), contract.approvalThresholdBps()])
+      .then(([quorumBps, approvalThresholdBps]) => setRules({ quorumBps, approvalThresholdBps }))
+      .catch((err) => console.error('Error fetching voting rules:', err));
+  }, [contract]);
+
+  const fetchBudget = useCallback(async () => {
+    if (!contract || !isOwner) return;
+
+    try {
+      setUnallocated(await contract.availableFunds(newMilestone.token || null));
+    } catch (err) {
+      console.error('Error fetching milestone budget:', err);
+    }
+  }, [contract, isOwner, newMilestone.token]);
+
+  useEffect(() => {
+    fetchBudget();
+  }, [fetchBudget]);
+
+  // Milestone IDs with their snapshot blocks, which change when a round reopens
+  const milestoneSnapshots = milestones.map((m) => `${m.id}@${m.snapshotBlock}`).join(',');
+
+  const fetchVoteStatus = useCallback(async () => {
+    if (!contract || !account || !milestoneSnapshots) {
+      setVotedIds(new Set());
+      setVotingPower(new Map());
+      setSnapshotDonations(new Map());
+      return;
+    }
+
+    try {
+      const snapshots = milestoneSnapshots.split(',').map((s) => s.split('@').map(Number));
+      const ids = snapshots.map(([id]) => id);
+      const [voted, power, donated] = await Promise.all([
+        Promise.all(ids.map((id) => contract.hasUserVoted(id, account))),
+        Promise.all(ids.map((id) => contract.getVotingPower(id, account))),
+        Promise.all(snapshots.map(([, block]) => contract.getDonationsAt(account, block))),
+      ]);
+      setVotedIds(new Set(ids.filter((_, i) => voted[i])));
+      setVotingPower(new Map(ids.map((id, i) => [id, power[i]])));
+      setSnapshotDonations(new Map(ids.map((id, i) => [id, donated[i]])));
+    } catch (err) {
+      console.error('Error fetching vote status:', err);
+    }
+  }, [contract, account, milestoneSnapshots]);
+
+  useEffect(() => {
+    fetchVoteStatus();
+  }, [fetchVoteStatus]);
+
+  // Donors whose voting power the connected account held at each milestone's
+  // snapshot, so the count matches the voting power read at the same block.
+  // Delegators holding none of the milestone's asset then lent it no votes
+  const delegatorCounts = useMemo(
+    () =>
+      new Map(
+        milestones.map((m) => [
+          m.id,
+          account
+            ? delegatorsOf(events, account, m.snapshotBlock).filter(
+                (delegator) => donationAt(events, delegator, m.token, m.snapshotBlock) > 0n
+              ).length
+            : 0,
+        ])
+      ),
+    [milestones, events, account]
+  );
+
+  // Every voting round of every milestone, with its votes and outcome
+  const rounds = useMemo(() => milestoneRounds(events), [events]);
+
+  // Votes and abstentions in a milestone's current round
+  const currentBallots = (milestone: Milestone) =>
+    rounds.get(milestone.id)?.find((r) => r.round === milestone.round)?.ballots ?? [];
+
+  // Keep the cards live: a new milestone reloads the page, while votes and
+  // decisions (or their removal by a reorg) reload just the affected card
+  useEventFeed(contract, ({ event, removed }) => {
+    if (!contract) return;
+
+    // Nearly every event moves the balance or a reservation, so the budget just follows them all
+    fetchBudget();
+
+    // Signed votes leave the pending list once counted or revoked, whoever relayed them.
+    // A vote counts in the milestone's current round, so votes signed for another round stay
+    if (!removed && (event.name === 'VoteCast' || event.name === 'NonceInvalidated')) {
+      const votedRound = event.name === 'VoteCast'
+        ? milestones.find((m) => m.id === event.milestoneId)?.round ?? rounds.get(event.milestoneId)?.slice(-1)[0]?.round
+        : undefined;
+      const settled = pendingVotes.votes.filter((v) =>
+        v.voter.toLowerCase() === event.voter.toLowerCase() &&
+        (event.name === 'VoteCast'
+          ? v.milestoneId === event.milestoneId && v.round === votedRound
+          : v.nonce === event.nonce)
+      );
+      if (settled.length > 0) {
+        pendingVotes.remove(settled).catch((err) => console.error('Error removing settled votes:', err));
       }
-    };
+    }
 
-    fetchMilestones();
-    
-    // Listen for new milestones
-    if (contract) {
-      const filter = contract.filters.MilestoneCreated();
-      contract.on(filter, () => fetchMilestones());
-      
-      return () => {
-        contract.off(filter, () => fetchMilestones());
-      };
+    if (event.name === 'MilestoneCreated') {
+      fetchMilestones();
+    } else if (
+      event.name === 'MilestoneRoundOpened' ||
+      event.name === 'MilestoneAmended' ||
+      event.name === 'MilestoneCancelled' ||
+      event.name === 'VoteCast' ||
+      event.name === 'VoteAbstained' ||
+      event.name === 'MilestoneApproved' ||
+      event.name === 'MilestoneRejected' ||
+      event.name === 'MilestoneQuorumNotMet' ||
+      event.name === 'MilestoneFundsReleased'
+    ) {
+      const { milestoneId } = event;
+      contract.getMilestone(milestoneId)
+        .then((updated) => setMilestones((prev) => prev.map((m) => (m.id === milestoneId ? updated : m))))
+        .catch((err) => console.error('Error refreshing milestone:', err));
+
+      // A new round resets who has voted and takes a fresh voting power snapshot
+      if (
+        event.name === 'MilestoneRoundOpened' ||
+        ((event.name === 'VoteCast' || event.name === 'VoteAbstained') &&
+          event.voter.toLowerCase() === account?.toLowerCase())
+      ) {
+        fetchVoteStatus();
+      }
     }
-  }, [contract]);
+  });
 
   const handleCreateMilestone = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -88,35 +236,67 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
     setError(null);
     
     try {
-      const amountInWei = ethers.parseEther(newMilestone.fundAmount);
+      const amountInWei = parseAssetAmount(newMilestone.fundAmount, newMilestoneToken);
+      if (unallocated !== null && amountInWei > unallocated) {
+        setError(`Only ${formatAssetAmount(unallocated, newMilestoneToken, network)} is left unallocated.`);
+        return;
+      }
+
+      // Evidence is stored like update content; only its CID goes on chain
+      const evidenceRef = newMilestone.evidence.trim() ? await publishText(store, newMilestone.evidence) : '';
       const tx = await contract.createMilestone(
         newMilestone.description,
         amountInWei,
-        parseInt(newMilestone.votingDays)
+        parseInt(newMilestone.votingDays),
+        evidenceRef,
+        newMilestone.token || null
       );
-      await tx.wait();
+      await track(tx, `Create milestone: ${newMilestone.description}`);
       
-      setNewMilestone({ description: '', fundAmount: '', votingDays: '7' });
+      setNewMilestone({ description: '', fundAmount: '', votingDays: '7', evidence: '', token: newMilestone.token });
     } catch (err: any) {
       console.error('Error creating milestone:', err);
-      setError(err.reason || 'Failed to create milestone');
+      setError(describeError(err, 'Failed to create milestone'));
+      // Another milestone may have reserved funds since the budget was loaded
+      if (decodeCrowdfundingError(err) === 'ExceedsUnallocatedFunds') fetchBudget();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleVote = async (milestoneId: number, approve: boolean) => {
+  const handleVote = async (milestoneId: number, choice: 'yes' | 'no' | 'abstain') => {
     if (!contract) return;
     
     setIsLoading(true);
     setError(null);
     
     try {
-      const tx = await contract.voteOnMilestone(milestoneId, approve);
-      await tx.wait();
+      const tx = choice === 'abstain'
+        ? await contract.abstainOnMilestone(milestoneId)
+        : await contract.voteOnMilestone(milestoneId, choice === 'yes');
+      await track(tx, `Vote ${choice} on milestone #${milestoneId + 1}`);
+      setVotedIds((prev) => new Set(prev).add(milestoneId));
     } catch (err: any) {
       console.error('Error voting:', err);
-      setError(err.reason || 'Failed to vote');
+      setError(describeError(err, 'Failed to vote', { VotingNotActive: 'Voting on this milestone has closed.' }));
+      if (decodeCrowdfundingError(err) === 'AlreadyVoted') setVotedIds((prev) => new Set(prev).add(milestoneId));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Signs a vote without sending a transaction; it waits in the pending list for a relayer
+  const handleSignVote = async (milestone: Milestone, approve: boolean) => {
+    if (!contract) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await pendingVotes.add(await contract.signVote(milestone.id, milestone.round, approve));
+    } catch (err: any) {
+      console.error('Error signing vote:', err);
+      setError(err.code === 'ACTION_REJECTED' ? 'Signature request was rejected by user.' : describeError(err, 'Failed to sign vote'));
     } finally {
       setIsLoading(false);
     }
@@ -130,10 +310,10 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
     
     try {
       const tx = await contract.finalizeMilestoneVote(milestoneId);
-      await tx.wait();
+      await track(tx, `Finalize vote on milestone #${milestoneId + 1}`);
     } catch (err: any) {
       console.error('Error finalizing:', err);
-      setError(err.reason || 'Failed to finalize');
+      setError(describeError(err, 'Failed to finalize'));
     } finally {
       setIsLoading(false);
     }
@@ -147,15 +327,51 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
     
     try {
       const tx = await contract.releaseMilestoneFunds(milestoneId);
-      await tx.wait();
+      await track(tx, `Release funds of milestone #${milestoneId + 1}`);
     } catch (err: any) {
       console.error('Error releasing funds:', err);
-      setError(err.reason || 'Failed to release funds');
+      setError(describeError(err, 'Failed to release funds'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // The connected account's ballot in a milestone's current round, once indexed
+  const receiptFor = (milestone: Milestone) =>
+    account
+      ? currentBallots(milestone).find((v) => v.voter.toLowerCase() === account.toLowerCase())
+      : undefined;
+
+  // The connected account's signed vote on a milestone that has not been relayed yet
+  const pendingVoteFor = (milestone: Milestone) =>
+    account
+      ? pendingVotes.votes.find((v) =>
+          v.milestoneId === milestone.id &&
+          v.round === milestone.round &&
+          v.voter.toLowerCase() === account.toLowerCase()
+        )
+      : undefined;
+
+  const getTurnout = (milestone: Milestone) => milestone.yesVotes + milestone.noVotes + milestone.abstainVotes;
+
+  // Votes are weighted by donations of the asset the milestone pays out
+  const formatVotes = (milestone: Milestone, amount: bigint) =>
+    milestone.token === null || findToken(tokens, milestone.token)
+      ? formatAssetAmount(amount, findToken(tokens, milestone.token), network)
+      : '...';
+
+  // A finalized milestone that was not approved either missed quorum or was voted down
+  const missedQuorum = (milestone: Milestone) => {
+    const turnout = getTurnout(milestone);
+    return turnout === 0n || turnout < milestone.quorumVotes;
+  };
+
+  // Turnout as a percentage of the quorum, capped at 100
+  const getQuorumProgress = (milestone: Milestone) => {
+    if (milestone.quorumVotes === 0n) return getTurnout(milestone) > 0n ? 100 : 0;
+    return Math.min(100, Number((getTurnout(milestone) * 100n) / milestone.quorumVotes));
+  };
+
   const getVotePercentage = (milestone: Milestone) => {
     const total = milestone.yesVotes + milestone.noVotes;
     if (total === 0n) return 0;
@@ -177,12 +393,26 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
           <span>Project Milestones</span>
         </h2>
         <p className="text-white/70">Vote on project milestones to release funds</p>
+        {rules && (
+          <p className="text-white/60 text-sm mt-2">
+            Quorum {rules.quorumBps / 100}% of donations · approval needs {rules.approvalThresholdBps / 100}% of yes + no
+            votes
+          </p>
+        )}
       </div>
 
       {/* Create Milestone Form (Owner Only) */}
       {isOwner && (
         <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
-          <h3 className="text-xl font-bold text-white mb-4">Create New Milestone</h3>
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="text-xl font-bold text-white">Create New Milestone</h3>
+            {unallocated !== null && (
+              <div className="text-right">
+                <p className="text-white/60 text-xs">Unallocated Budget</p>
+                <p className="text-emerald-200 font-bold">{formatAssetAmount(unallocated, newMilestoneToken, network)}</p>
+              </div>
+            )}
+          </div>
           <form onSubmit={handleCreateMilestone} className="space-y-4">
             <div>
               <label className="block text-white/80 text-sm font-semibold mb-2">
@@ -201,17 +431,34 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-white/80 text-sm font-semibold mb-2">
-                  Fund Amount (ETH)
+                  Fund Amount
                 </label>
-                <input
-                  type="number"
-                  step="0.001"
-                  value={newMilestone.fundAmount}
-                  onChange={(e) => setNewMilestone({...newMilestone, fundAmount: e.target.value})}
-                  className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  placeholder="0.0"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.001"
+                    max={unallocated !== null ? ethers.formatUnits(unallocated, newMilestoneToken?.decimals ?? 18) : undefined}
+                    value={newMilestone.fundAmount}
+                    onChange={(e) => setNewMilestone({...newMilestone, fundAmount: e.target.value})}
+                    className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="0.0"
+                    required
+                  />
+                  {/* Milestones pay out in one asset, from that asset's own balance */}
+                  <select
+                    value={newMilestone.token}
+                    onChange={(e) => setNewMilestone({...newMilestone, token: e.target.value})}
+                    disabled={tokens.length === 0}
+                    className="bg-white/10 border border-white/20 rounded-xl px-3 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="" className="text-gray-900">{nativeCurrency.symbol}</option>
+                    {tokens.map((token) => (
+                      <option key={token.address} value={token.address} className="text-gray-900">
+                        {token.symbol}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div>
@@ -229,6 +476,18 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
               </div>
             </div>
             
+            <div>
+              <label className="block text-white/80 text-sm font-semibold mb-2">
+                Evidence (optional, Markdown)
+              </label>
+              <textarea
+                value={newMilestone.evidence}
+                onChange={(e) => setNewMilestone({...newMilestone, evidence: e.target.value})}
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 h-24 resize-none"
+                placeholder="Proof of completion: photos, receipts or links donors can check"
+              />
+            </div>
+            
             <button
               type="submit"
               disabled={isLoading}
@@ -240,8 +499,17 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
         </div>
       )}
 
+      {/* Delegation */}
+      {contract && account && <DelegationPanel contract={contract} account={account} events={events} />}
+
       {/* Milestones List */}
       <div className="space-y-4">
+        <Pagination
+          page={page}
+          pageCount={Math.ceil(milestoneCount / MILESTONES_PER_PAGE)}
+          onPageChange={setPage}
+        />
+
         {milestones.length === 0 ? (
           <div className="bg-white/5 backdrop-blur-md rounded-2xl p-8 border border-white/10 text-center">
             <p className="text-white/60">No milestones created yet</p>
@@ -256,11 +524,32 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
                     <span className="bg-purple-500/30 text-purple-200 text-xs font-bold px-3 py-1 rounded-full">
                       Milestone #{milestone.id + 1}
                     </span>
+                    {milestone.round > 1 && (
+                      <span className="bg-white/10 text-white/80 text-xs font-bold px-3 py-1 rounded-full">
+                        Round {milestone.round}
+                      </span>
+                    )}
+                    {milestone.cancelled && (
+                      <span className="bg-slate-500/30 text-slate-200 text-xs font-bold px-3 py-1 rounded-full">
+                        Cancelled
+                      </span>
+                    )}
                     {milestone.approved && !milestone.fundsReleased && (
                       <span className="bg-green-500/30 text-green-200 text-xs font-bold px-3 py-1 rounded-full">
                         ✓ Approved
                       </span>
                     )}
+                    {!milestone.votingActive && !milestone.approved && !milestone.cancelled && (
+                      missedQuorum(milestone) ? (
+                        <span className="bg-amber-500/30 text-amber-200 text-xs font-bold px-3 py-1 rounded-full">
+                          Quorum Not Met
+                        </span>
+                      ) : (
+                        <span className="bg-red-500/30 text-red-200 text-xs font-bold px-3 py-1 rounded-full">
+                          ✕ Rejected
+                        </span>
+                      )
+                    )}
                     {milestone.fundsReleased && (
                       <span className="bg-blue-500/30 text-blue-200 text-xs font-bold px-3 py-1 rounded-full">
                         💰 Funds Released
@@ -269,11 +558,28 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
                   </div>
                   <h4 className="text-lg font-bold text-white mb-2">{milestone.description}</h4>
                   <p className="text-2xl font-bold text-purple-200">
-                    {ethers.formatEther(milestone.fundAmount)} ETH
+                    {milestone.token === null || findToken(tokens, milestone.token)
+                      ? formatAssetAmount(milestone.fundAmount, findToken(tokens, milestone.token), network)
+                      : '...'}
                   </p>
+                  {(milestone.token === null || findToken(tokens, milestone.token)) && (
+                    <FiatValue
+                      amount={milestone.fundAmount}
+                      asset={findToken(tokens, milestone.token)}
+                      className="text-white/60 text-sm"
+                    />
+                  )}
                 </div>
               </div>
 
+              {/* Evidence */}
+              {milestone.evidence && (
+                <div className="bg-white/5 rounded-xl px-4 py-3 border border-white/10">
+                  <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Evidence</p>
+                  <StoredContent contentRef={milestone.evidence} className="text-sm" />
+                </div>
+              )}
+
               {/* Voting Progress */}
               {milestone.votingActive && (
                 <div className="space-y-2">
@@ -287,14 +593,32 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
                       style={{ width: `${getVotePercentage(milestone)}%` }}
                     />
                   </div>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div className="flex justify-between text-sm text-white/70">
+                    <span>Turnout</span>
+                    <span>
+                      {formatVotes(milestone, getTurnout(milestone))} / {formatVotes(milestone, milestone.quorumVotes)} quorum
+                    </span>
+                  </div>
+                  <div className="w-full bg-white/10 rounded-full h-2 overflow-hidden">
+                    <div
+                      className={`h-full transition-all duration-500 ${
+                        getQuorumProgress(milestone) >= 100 ? 'bg-blue-400' : 'bg-amber-400'
+                      }`}
+                      style={{ width: `${getQuorumProgress(milestone)}%` }}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 text-sm">
                     <div className="bg-white/5 rounded-lg p-3">
                       <p className="text-white/60 text-xs">Yes Votes</p>
-                      <p className="text-emerald-300 font-bold">{ethers.formatEther(milestone.yesVotes)} ETH</p>
+                      <p className="text-emerald-300 font-bold">{formatVotes(milestone, milestone.yesVotes)}</p>
                     </div>
                     <div className="bg-white/5 rounded-lg p-3">
                       <p className="text-white/60 text-xs">No Votes</p>
-                      <p className="text-red-300 font-bold">{ethers.formatEther(milestone.noVotes)} ETH</p>
+                      <p className="text-red-300 font-bold">{formatVotes(milestone, milestone.noVotes)}</p>
+                    </div>
+                    <div className="bg-white/5 rounded-lg p-3">
+                      <p className="text-white/60 text-xs">Abstained</p>
+                      <p className="text-white/80 font-bold">{formatVotes(milestone, milestone.abstainVotes)}</p>
                     </div>
                   </div>
                   <p className="text-white/60 text-xs">
@@ -303,28 +627,81 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
                 </div>
               )}
 
+              {/* Your Voting Power */}
+              {account && milestone.votingActive &&
+                ((milestone.token === null && userDonation > 0n) || (votingPower.get(milestone.id) ?? 0n) > 0n) && (
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div className="bg-white/5 rounded-lg p-3">
+                    <p className="text-white/60 text-xs">Your Voting Power</p>
+                    <p className="text-white font-bold">
+                      {formatVotes(milestone, votingPower.get(milestone.id) ?? 0n)}
+                    </p>
+                    <p className="text-white/50 text-xs">Own and delegated donations as of block {milestone.snapshotBlock}</p>
+                    {(delegatorCounts.get(milestone.id) ?? 0) > 0 && (
+                      <p className="text-purple-200 text-xs">
+                        Voting on behalf of {delegatorCounts.get(milestone.id)} donor
+                        {delegatorCounts.get(milestone.id) === 1 ? '' : 's'}
+                      </p>
+                    )}
+                  </div>
+                  {milestone.token === null && (
+                    <div className="bg-white/5 rounded-lg p-3">
+                      <p className="text-white/60 text-xs">Your Current Donation</p>
+                      <p className="text-white font-bold">{ethers.formatEther(userDonation)} {nativeCurrency.symbol}</p>
+                      {userDonation !== (snapshotDonations.get(milestone.id) ?? userDonation) && (
+                        <p className="text-white/50 text-xs">Donations after the snapshot do not count</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Your Vote */}
+              {votedIds.has(milestone.id) && <VoteReceipt receipt={receiptFor(milestone)} />}
+              {!votedIds.has(milestone.id) && pendingVoteFor(milestone) && (
+                <div className="bg-white/5 rounded-xl px-4 py-3 border border-white/10 text-sm">
+                  <p className="text-white">
+                    You signed a{' '}
+                    <span className={pendingVoteFor(milestone)?.approve ? 'text-emerald-300 font-bold' : 'text-red-300 font-bold'}>
+                      {pendingVoteFor(milestone)?.approve ? 'Yes' : 'No'}
+                    </span>{' '}
+                    vote. It counts once it is relayed on chain.
+                  </p>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3">
-                {milestone.votingActive && !isVotingExpired(milestone.voteDeadline) && userDonation > 0n && (
+                {milestone.votingActive &&
+                  !isVotingExpired(milestone.voteDeadline) &&
+                  (votingPower.get(milestone.id) ?? 0n) > 0n &&
+                  !votedIds.has(milestone.id) && (
                   <>
                     <button
-                      onClick={() => handleVote(milestone.id, true)}
+                      onClick={() => handleVote(milestone.id, 'yes')}
                       disabled={isLoading}
                       className="flex-1 bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-500/50 text-emerald-200 font-bold py-2 px-4 rounded-xl transition-all duration-300"
                     >
                       Vote Yes
                     </button>
                     <button
-                      onClick={() => handleVote(milestone.id, false)}
+                      onClick={() => handleVote(milestone.id, 'no')}
                       disabled={isLoading}
                       className="flex-1 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-200 font-bold py-2 px-4 rounded-xl transition-all duration-300"
                     >
                       Vote No
                     </button>
+                    <button
+                      onClick={() => handleVote(milestone.id, 'abstain')}
+                      disabled={isLoading}
+                      className="flex-1 bg-white/10 hover:bg-white/20 border border-white/30 text-white/80 font-bold py-2 px-4 rounded-xl transition-all duration-300"
+                    >
+                      Abstain
+                    </button>
                   </>
                 )}
                 
-                {milestone.votingActive && isVotingExpired(milestone.voteDeadline) && (
+                {account && milestone.votingActive && isVotingExpired(milestone.voteDeadline) && (
                   <button
                     onClick={() => handleFinalize(milestone.id)}
                     disabled={isLoading}
@@ -344,11 +721,51 @@ const MilestoneManager: React.FC<MilestoneManagerProps> = ({
                   </button>
                 )}
               </div>
+
+              {milestone.votingActive &&
+                !isVotingExpired(milestone.voteDeadline) &&
+                (votingPower.get(milestone.id) ?? 0n) > 0n &&
+                !votedIds.has(milestone.id) &&
+                !pendingVoteFor(milestone) && (
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-white/60">Or sign without paying gas:</span>
+                  <button
+                    onClick={() => handleSignVote(milestone, true)}
+                    disabled={isLoading}
+                    className="text-emerald-300 hover:text-emerald-200 font-semibold"
+                  >
+                    Sign Yes
+                  </button>
+                  <button
+                    onClick={() => handleSignVote(milestone, false)}
+                    disabled={isLoading}
+                    className="text-red-300 hover:text-red-200 font-semibold"
+                  >
+                    Sign No
+                  </button>
+                </div>
+              )}
+
+              {isOwner && contract && <MilestoneOwnerActions contract={contract} milestone={milestone} />}
+
+              <MilestoneVoters votes={currentBallots(milestone)} account={account} />
+              <MilestoneRoundHistory rounds={rounds.get(milestone.id) ?? []} />
             </div>
           ))
         )}
       </div>
 
+      {contract && (isOwner || pendingVotes.votes.length > 0) && (
+        <PendingSignedVotes
+          contract={contract}
+          account={account}
+          votes={pendingVotes.votes}
+          shared={pendingVotes.shared}
+          onAdd={pendingVotes.add}
+          onRemove={pendingVotes.remove}
+        />
+      )}
+
       {error && (
         <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
           <p className="text-red-200 text-sm text-center">{error}</p>
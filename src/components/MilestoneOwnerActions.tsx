@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { CrowdfundingClient, Milestone } from '../contracts/CrowdfundingClient';
+import { publishText, readText } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+interface MilestoneOwnerActionsProps {
+  contract: CrowdfundingClient;
+  milestone: Milestone;
+}
+
+// Owner controls for a milestone's lifecycle: amend or cancel before any votes, resubmit after a failed vote
+const MilestoneOwnerActions: React.FC<MilestoneOwnerActionsProps> = ({ contract, milestone }) => {
+  const store = useContentStore();
+  const track = useTrackTransaction();
+  const [mode, setMode] = useState<'amend' | 'resubmit' | null>(null);
+  const [description, setDescription] = useState(milestone.description);
+  const [evidence, setEvidence] = useState('');
+  const [votingDays, setVotingDays] = useState('7');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasVotes = milestone.yesVotes + milestone.noVotes + milestone.abstainVotes > 0n;
+  const canEdit = milestone.votingActive && !hasVotes;
+  const canResubmit = !milestone.votingActive && !milestone.approved && !milestone.cancelled;
+
+  if (!canEdit && !canResubmit) return null;
+
+  const open = (next: 'amend' | 'resubmit') => {
+    setDescription(milestone.description);
+    setEvidence('');
+    setError(null);
+    setMode(mode === next ? null : next);
+
+    // Amendments start from the current evidence document
+    if (next === 'amend' && mode !== next && milestone.evidence) {
+      readText(store, milestone.evidence)
+        .then(setEvidence)
+        .catch((err) => console.error('Error loading evidence:', err));
+    }
+  };
+
+  const publishEvidence = async () => (evidence.trim() ? publishText(store, evidence) : '');
+
+  const run = async (action: () => Promise<ethers.ContractTransactionResponse>, description: string, fallback: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await action();
+      await track(tx, description);
+      setMode(null);
+    } catch (err: any) {
+      console.error(`${fallback}:`, err);
+      setError(describeError(err, err.message || fallback, {
+        ExceedsUnallocatedFunds: 'Other milestones have reserved too much of the balance to reopen this one.',
+      }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'amend') {
+      run(
+        async () => contract.amendMilestone(milestone.id, description, await publishEvidence()),
+        `Amend milestone #${milestone.id + 1}`,
+        'Failed to amend milestone'
+      );
+    } else {
+      run(
+        async () => contract.resubmitMilestone(milestone.id, await publishEvidence(), parseInt(votingDays)),
+        `Resubmit milestone #${milestone.id + 1}`,
+        'Failed to resubmit milestone'
+      );
+    }
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this milestone? It cannot be reopened.')) return;
+    run(() => contract.cancelMilestone(milestone.id), `Cancel milestone #${milestone.id + 1}`, 'Failed to cancel milestone');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-3 text-sm">
+        {canEdit && (
+          <>
+            <button onClick={() => open('amend')} className="text-white/70 hover:text-white font-semibold">
+              Amend
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={isLoading}
+              className="text-red-300 hover:text-red-200 font-semibold"
+            >
+              Cancel Milestone
+            </button>
+          </>
+        )}
+        {canResubmit && (
+          <button onClick={() => open('resubmit')} className="text-purple-200 hover:text-white font-semibold">
+            Resubmit With New Evidence
+          </button>
+        )}
+      </div>
+
+      {mode && (
+        <form onSubmit={handleSubmit} className="space-y-3 bg-white/5 rounded-xl p-4 border border-white/10">
+          {mode === 'amend' && (
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="Milestone description"
+              required
+            />
+          )}
+          <textarea
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 h-24 resize-none"
+            placeholder="Evidence of completion in Markdown: photos, receipts or links"
+          />
+          {mode === 'resubmit' && (
+            <input
+              type="number"
+              value={votingDays}
+              onChange={(e) => setVotingDays(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="Voting period (days)"
+              min="1"
+              required
+            />
+          )}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 text-purple-200 font-bold py-2 px-4 rounded-xl transition-all duration-300"
+          >
+            {isLoading ? 'Submitting...' : mode === 'amend' ? 'Save Changes' : 'Open New Voting Round'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-red-200 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default MilestoneOwnerActions;
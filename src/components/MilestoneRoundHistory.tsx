@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { MilestoneRound, RoundOutcome } from '../analytics/milestoneRounds';
+import StoredContent from './StoredContent';
+import { useNetwork } from '../config/NetworkContext';
+
+interface MilestoneRoundHistoryProps {
+  // Rounds of one milestone, oldest first
+  rounds: MilestoneRound[];
+}
+
+const OUTCOME_LABELS: Record<RoundOutcome, { label: string; className: string }> = {
+  voting: { label: 'Voting', className: 'bg-purple-500/30 text-purple-200' },
+  approved: { label: '✓ Approved', className: 'bg-green-500/30 text-green-200' },
+  rejected: { label: '✕ Rejected', className: 'bg-red-500/30 text-red-200' },
+  quorumNotMet: { label: 'Quorum Not Met', className: 'bg-amber-500/30 text-amber-200' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-500/30 text-slate-200' },
+};
+
+// Collapsible record of every voting round a milestone went through
+const MilestoneRoundHistory: React.FC<MilestoneRoundHistoryProps> = ({ rounds }) => {
+  const { nativeCurrency } = useNetwork();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (rounds.length === 0) return null;
+
+  return (
+    <div className="border-t border-white/10 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-white/70 hover:text-white text-sm font-semibold"
+      >
+        {isOpen ? '▾' : '▸'} Round History ({rounds.length})
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {[...rounds].reverse().map((round) => (
+            <div key={round.round} className="bg-white/5 rounded-lg px-3 py-2 text-sm space-y-1">
+              <div className="flex justify-between items-center">
+                <span className="text-white font-semibold">Round {round.round}</span>
+                <span className={`text-xs font-bold px-3 py-1 rounded-full ${OUTCOME_LABELS[round.outcome].className}`}>
+                  {OUTCOME_LABELS[round.outcome].label}
+                </span>
+              </div>
+              <p className="text-white/70">
+                <span className="text-emerald-300">{ethers.formatEther(round.yesVotes)} yes</span> ·{' '}
+                <span className="text-red-300">{ethers.formatEther(round.noVotes)} no</span> ·{' '}
+                {ethers.formatEther(round.abstainVotes)} abstain {nativeCurrency.symbol} from {round.ballots.length}{' '}
+                voter{round.ballots.length === 1 ? '' : 's'}
+              </p>
+              <p className="text-white/50 text-xs">
+                Voting until {new Date(Number(round.voteDeadline) * 1000).toLocaleString()}
+              </p>
+              {round.evidence && (
+                <div className="text-xs">
+                  <p className="text-white/60 font-semibold">Evidence</p>
+                  <StoredContent contentRef={round.evidence} className="text-xs" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneRoundHistory;
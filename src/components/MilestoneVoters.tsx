@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { BallotEvent } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+import { explorerTxUrl } from '../config/networks';
+
+interface MilestoneVotersProps {
+  votes: BallotEvent[];
+  account: string | null;
+}
+
+const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Collapsible roll of everyone who voted on a milestone, heaviest first
+const MilestoneVoters: React.FC<MilestoneVotersProps> = ({ votes, account }) => {
+  const network = useNetwork();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (votes.length === 0) return null;
+
+  const sorted = [...votes].sort((a, b) => (a.weight < b.weight ? 1 : a.weight > b.weight ? -1 : 0));
+
+  return (
+    <div className="border-t border-white/10 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-white/70 hover:text-white text-sm font-semibold"
+      >
+        {isOpen ? '▾' : '▸'} Voters ({votes.length})
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {sorted.map((vote) => (
+            <div
+              key={`${vote.txHash}-${vote.logIndex}`}
+              className="flex justify-between items-center bg-white/5 rounded-lg px-3 py-2 text-sm"
+            >
+              <span className="font-mono text-white">
+                {shortenAddress(vote.voter)}
+                {vote.voter.toLowerCase() === account?.toLowerCase() && (
+                  <span className="ml-2 font-sans text-xs text-purple-200">you</span>
+                )}
+              </span>
+              <span className="flex items-center space-x-3">
+                {'vote' in vote ? (
+                  <span className={vote.vote ? 'text-emerald-300 font-bold' : 'text-red-300 font-bold'}>
+                    {vote.vote ? 'Yes' : 'No'}
+                  </span>
+                ) : (
+                  <span className="text-white/60 font-bold">Abstain</span>
+                )}
+                {explorerTxUrl(network, vote.txHash) ? (
+                  <a
+                    href={explorerTxUrl(network, vote.txHash) ?? undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-white/70 hover:text-white"
+                  >
+                    {ethers.formatEther(vote.weight)} {network.nativeCurrency.symbol}
+                  </a>
+                ) : (
+                  <span className="text-white/70">
+                    {ethers.formatEther(vote.weight)} {network.nativeCurrency.symbol}
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneVoters;
@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import {
+  CrowdfundingClient,
+  CrowdfundingEventName,
+  CrowdfundingEventRecord,
+} from '../contracts/CrowdfundingClient';
+import { Erc20Client } from '../contracts/Erc20Client';
+import { useNetwork } from '../config/NetworkContext';
+import { TokenInfo, explorerTxUrl } from '../config/networks';
+import { useEventFeed } from '../indexer/useEventFeed';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+import { findToken, formatAssetAmount } from '../tokens/tokens';
+
+const TREASURY_EVENTS: CrowdfundingEventName[] = [
+  'DonationReceived',
+  'RefundIssued',
+  'MilestoneCreated',
+  'MilestoneRejected',
+  'MilestoneQuorumNotMet',
+  'MilestoneRoundOpened',
+  'MilestoneCancelled',
+  'FundsWithdrawn',
+  'MilestoneFundsReleased',
+  'TokenDonationReceived',
+  'TokenRefundIssued',
+  'TokenFundsWithdrawn',
+];
+
+interface OwnerConsoleProps {
+  contract: CrowdfundingClient | null;
+  // Indexed campaign events in chain order
+  events: CrowdfundingEventRecord[];
+  // Funded across ETH and accepted tokens, as the contract's goalReached()
+  goalReached: boolean;
+  deadline: bigint;
+  // ERC-20 tokens the campaign accepts besides ETH
+  tokens?: TokenInfo[];
+}
+
+interface TokenTreasury {
+  balance: bigint;
+  committed: bigint;
+}
+
+interface TreasuryEvent {
+  kind: 'withdrawal' | 'milestone';
+  milestoneId?: number;
+  amount: bigint;
+  // Null for ETH
+  token: TokenInfo | null;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+const OwnerConsole: React.FC<OwnerConsoleProps> = ({
+  contract,
+  events,
+  goalReached,
+  deadline,
+  tokens = []
+}) => {
+  const network = useNetwork();
+  const track = useTrackTransaction();
+  const { nativeCurrency } = network;
+  const [balance, setBalance] = useState<bigint>(0n);
+  const [committed, setCommitted] = useState<bigint>(0n);
+  // Balance and milestone reservations of each accepted token, by address
+  const [tokenTreasury, setTokenTreasury] = useState<Map<string, TokenTreasury>>(new Map());
+  const [campaignActive, setCampaignActive] = useState(true);
+  const [confirmingEnd, setConfirmingEnd] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTreasury = useCallback(async () => {
+    if (!contract) return;
+
+    try {
+      const [currentBalance, active, reserved, perToken] = await Promise.all([
+        contract.getBalance(),
+        contract.campaignActive(),
+        // The contract reserves milestones still voting or approved but unpaid
+        contract.committedFunds(),
+        Promise.all(
+          tokens.map(async (token) => {
+            const [tokenBalance, tokenCommitted] = await Promise.all([
+              new Erc20Client(token.address, contract.provider).balanceOf(contract.address),
+              contract.committedFunds(token.address),
+            ]);
+            return [token.address, { balance: tokenBalance, committed: tokenCommitted }] as const;
+          })
+        ),
+      ]);
+      setBalance(currentBalance);
+      setCampaignActive(active);
+      setCommitted(reserved);
+      setTokenTreasury(new Map(perToken));
+    } catch (err) {
+      console.error('Error fetching treasury data:', err);
+    }
+  }, [contract, tokens]);
+
+  useEffect(() => {
+    fetchTreasury();
+  }, [fetchTreasury]);
+
+  // Events that move the balance or change what is committed
+  useEventFeed(contract, ({ event }) => {
+    if (TREASURY_EVENTS.includes(event.name)) fetchTreasury();
+  });
+
+  // Funds that left the contract, newest first
+  const treasuryEvents = useMemo(() => {
+    const movements: TreasuryEvent[] = [];
+    for (const e of events) {
+      if (e.name === 'FundsWithdrawn') movements.push({ ...e, kind: 'withdrawal', token: null });
+      if (e.name === 'TokenFundsWithdrawn') {
+        const token = findToken(tokens, e.token);
+        if (token) movements.push({ ...e, kind: 'withdrawal', token });
+      }
+      if (e.name === 'MilestoneFundsReleased') {
+        const token = findToken(tokens, e.token);
+        // Skip token releases until the token's metadata has loaded
+        if (e.token === null || token) movements.push({ ...e, kind: 'milestone', token });
+      }
+    }
+    return movements.reverse();
+  }, [events, tokens]);
+
+  // Mirrors the contract rule: goal reached or deadline passed
+  const deadlinePassed = deadline > 0n && BigInt(Math.floor(Date.now() / 1000)) >= deadline;
+  // withdraw() only pays out the balance milestones have not reserved
+  const uncommitted = balance > committed ? balance - committed : 0n;
+  const canWithdraw = (deadlinePassed || goalReached) && uncommitted > 0n;
+
+  const handleWithdraw = async (token: TokenInfo | null) => {
+    if (!contract) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = token ? await contract.withdrawToken(token.address) : await contract.withdraw();
+      await track(tx, `Withdraw ${token ? token.symbol : nativeCurrency.symbol}`);
+      await fetchTreasury();
+    } catch (err: any) {
+      console.error('Error withdrawing funds:', err);
+      setError(describeError(err, 'Failed to withdraw funds'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEndCampaign = async () => {
+    if (!contract) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await contract.endCampaign();
+      await track(tx, 'End campaign');
+      setConfirmingEnd(false);
+      await fetchTreasury();
+    } catch (err: any) {
+      console.error('Error ending campaign:', err);
+      setError(describeError(err, 'Failed to end campaign'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center space-x-3">
+          <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l9-4 9 4M4 10h16M5 10v8m4-8v8m6-8v8m4-8v8M3 20h18" />
+          </svg>
+          <span>Treasury Console</span>
+        </h2>
+        <p className="text-white/70">Manage campaign funds and lifecycle</p>
+      </div>
+
+      {/* Balance Overview */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white">Contract Balance</h3>
+          <span
+            className={`text-xs font-bold px-3 py-1 rounded-full ${
+              campaignActive ? 'bg-green-500/30 text-green-200' : 'bg-red-500/30 text-red-200'
+            }`}
+          >
+            {campaignActive ? 'Campaign Active' : 'Campaign Ended'}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+            <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Balance</p>
+            <p className="text-xl font-bold text-white">{ethers.formatEther(balance)} {nativeCurrency.symbol}</p>
+          </div>
+          <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+            <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Committed</p>
+            <p className="text-xl font-bold text-amber-200">{ethers.formatEther(committed)} {nativeCurrency.symbol}</p>
+          </div>
+          <div className="bg-white/5 rounded-xl p-4 border border-white/10 text-center">
+            <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Uncommitted</p>
+            <p className="text-xl font-bold text-emerald-200">{ethers.formatEther(uncommitted)} {nativeCurrency.symbol}</p>
+          </div>
+        </div>
+        {committed > balance && (
+          <p className="text-amber-200 text-sm">
+            Pending milestones commit more than the contract currently holds.
+          </p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-4">
+        <h3 className="text-xl font-bold text-white">Actions</h3>
+
+        <div>
+          <button
+            onClick={() => handleWithdraw(null)}
+            disabled={isLoading || !canWithdraw}
+            className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed shadow-lg hover:shadow-emerald-500/50"
+          >
+            {isLoading ? 'Processing...' : `Withdraw ${ethers.formatEther(uncommitted)} ${nativeCurrency.symbol}`}
+          </button>
+          {!canWithdraw && (
+            <p className="text-white/60 text-xs mt-2">
+              {balance === 0n
+                ? 'The contract holds no funds.'
+                : uncommitted === 0n
+                  ? 'All funds are reserved for pending milestones.'
+                  : 'Available once the goal is met or the deadline has passed.'}
+            </p>
+          )}
+        </div>
+
+        {tokens.map((token) => {
+          const treasury = tokenTreasury.get(token.address) ?? { balance: 0n, committed: 0n };
+          const available = treasury.balance > treasury.committed ? treasury.balance - treasury.committed : 0n;
+          return (
+            <div key={token.address} className="bg-white/5 rounded-xl p-4 border border-white/10 flex justify-between items-center">
+              <div>
+                <p className="text-white font-bold">{formatAssetAmount(treasury.balance, token, network)}</p>
+                <p className="text-white/60 text-xs">
+                  {formatAssetAmount(treasury.committed, token, network)} committed to milestones
+                </p>
+              </div>
+              <button
+                onClick={() => handleWithdraw(token)}
+                disabled={isLoading || !(deadlinePassed || goalReached) || available === 0n}
+                className="bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-500/50 text-emerald-200 font-bold py-2 px-4 rounded-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Withdraw {formatAssetAmount(available, token, network)}
+              </button>
+            </div>
+          );
+        })}
+
+        {campaignActive && (
+          confirmingEnd ? (
+            <div className="bg-red-500/10 rounded-xl p-4 border border-red-500/30 space-y-3">
+              <p className="text-red-200 text-sm">
+                Ending the campaign cannot be undone. Are you sure?
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleEndCampaign}
+                  disabled={isLoading}
+                  className="flex-1 bg-red-500/90 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-xl transition-all duration-300"
+                >
+                  Yes, End Campaign
+                </button>
+                <button
+                  onClick={() => setConfirmingEnd(false)}
+                  disabled={isLoading}
+                  className="flex-1 bg-white/10 hover:bg-white/20 text-white font-bold py-2 px-4 rounded-xl transition-all duration-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmingEnd(true)}
+              disabled={isLoading}
+              className="w-full bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-200 font-bold py-3 px-6 rounded-xl transition-all duration-300"
+            >
+              End Campaign
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Treasury History */}
+      <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+        <h3 className="text-xl font-bold text-white mb-4">Fund Movements</h3>
+        {treasuryEvents.length === 0 ? (
+          <p className="text-white/60 text-center">No funds have left the contract yet</p>
+        ) : (
+          <div className="space-y-3">
+            {treasuryEvents.map((event) => (
+              <div
+                key={`${event.txHash}-${event.logIndex}`}
+                className="bg-white/5 rounded-xl p-3 border border-white/10 flex justify-between items-center"
+              >
+                <div>
+                  <p className="text-white/70 text-sm">
+                    {event.kind === 'withdrawal' ? 'Withdrawal' : `Milestone #${(event.milestoneId ?? 0) + 1} release`}
+                  </p>
+                  <p className="font-bold text-white">{formatAssetAmount(event.amount, event.token, network)}</p>
+                </div>
+                {explorerTxUrl(network, event.txHash) ? (
+                  <a
+                    href={explorerTxUrl(network, event.txHash) ?? undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-purple-200 hover:text-white text-sm"
+                  >
+                    Block {event.blockNumber}
+                  </a>
+                ) : (
+                  <span className="text-white/60 text-sm">Block {event.blockNumber}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
+          <p className="text-red-200 text-sm text-center">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OwnerConsole;
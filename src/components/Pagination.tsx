@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageCount, onPageChange }) => {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-between bg-white/5 backdrop-blur-md rounded-2xl p-2 border border-white/10">
+      <button
+        onClick={() => onPageChange(page - 1)}
+        disabled={page === 0}
+        className="py-2 px-4 rounded-xl font-semibold text-white/70 hover:text-white hover:bg-white/5 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        ← Previous
+      </button>
+      <span className="text-white/70 text-sm font-semibold">
+        Page {page + 1} of {pageCount}
+      </span>
+      <button
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount - 1}
+        className="py-2 px-4 rounded-xl font-semibold text-white/70 hover:text-white hover:bg-white/5 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Next →
+      </button>
+    </div>
+  );
+};
+
+export default Pagination;
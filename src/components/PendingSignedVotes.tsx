@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import {
+  CrowdfundingClient,
+  SignedVote,
+  decodeCrowdfundingError,
+  recoverVoteSigner,
+} from '../contracts/CrowdfundingClient';
+import { parseSignedVote, sameBallot, serializeSignedVote } from '../votes/signedVotes';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+interface PendingSignedVotesProps {
+  contract: CrowdfundingClient;
+  account: string | null;
+  // Signed votes not yet relayed, oldest first
+  votes: SignedVote[];
+  // Whether the votes come from a store every visitor shares, rather than this browser
+  shared: boolean;
+  onAdd: (vote: SignedVote) => Promise<void>;
+  onRemove: (votes: SignedVote[]) => Promise<void>;
+}
+
+const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+// Signed votes waiting for someone to submit them on chain in one batch
+const PendingSignedVotes: React.FC<PendingSignedVotesProps> = ({ contract, account, votes, shared, onAdd, onRemove }) => {
+  const [importText, setImportText] = useState('');
+  const track = useTrackTransaction();
+  const [copied, setCopied] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const voteKey = (vote: SignedVote) => `${vote.voter}-${vote.milestoneId}-${vote.round}-${vote.nonce}`;
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      const vote = parseSignedVote(importText.trim());
+      if (recoverVoteSigner(await contract.voteDomain(), vote).toLowerCase() !== vote.voter.toLowerCase()) {
+        setError('The signature does not match the voter, or was made for another campaign or network.');
+        return;
+      }
+      await onAdd(vote);
+      setImportText('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to import vote');
+    }
+  };
+
+  const handleCopy = async (vote: SignedVote) => {
+    try {
+      await navigator.clipboard.writeText(serializeSignedVote(vote));
+      setCopied(voteKey(vote));
+    } catch (err) {
+      console.error('Error copying vote:', err);
+      setError('Could not copy to the clipboard.');
+    }
+  };
+
+  /**
+   * Sorts the votes by whether the batch can include them. Stale votes can
+   * never count: already counted, revoked, signed without voting power in the
+   * milestone's asset, for a closed vote, an earlier round or a milestone that
+   * does not exist. Votes whose check failed for another reason (RPC errors)
+   * are held back but kept for a later attempt.
+   */
+  const checkVotes = async (): Promise<{ relayable: SignedVote[]; stale: SignedVote[] }> => {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const results = await Promise.all(
+      votes.map(async (vote): Promise<'relayable' | 'stale' | 'unchecked'> => {
+        try {
+          const [voted, nonceUsed, milestone, votingPower] = await Promise.all([
+            contract.hasVoted(vote.milestoneId, vote.voter),
+            contract.isNonceUsed(vote.voter, vote.nonce),
+            contract.getMilestone(vote.milestoneId),
+            contract.getVotingPower(vote.milestoneId, vote.voter),
+          ]);
+          const stale =
+            nonceUsed ||
+            milestone.round !== vote.round ||
+            voted ||
+            !milestone.votingActive ||
+            now > milestone.voteDeadline ||
+            votingPower === 0n;
+          return stale ? 'stale' : 'relayable';
+        } catch (err) {
+          // The contract rejected the vote's milestone itself, so it can never count
+          if (decodeCrowdfundingError(err)) return 'stale';
+          console.error('Error checking signed vote:', err);
+          return 'unchecked';
+        }
+      })
+    );
+
+    // One vote per voter and milestone round; the newest signature wins, as when adding
+    const relayable: SignedVote[] = [];
+    votes.forEach((vote, i) => {
+      if (results[i] !== 'relayable') return;
+      const earlier = relayable.findIndex((v) => sameBallot(v, vote));
+      if (earlier >= 0) relayable.splice(earlier, 1);
+      relayable.push(vote);
+    });
+    return { relayable, stale: votes.filter((_, i) => results[i] === 'stale') };
+  };
+
+  const handleRelay = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { relayable, stale } = await checkVotes();
+      if (stale.length > 0) await onRemove(stale);
+
+      if (relayable.length === 0) {
+        setError('None of the pending votes can still be counted.');
+        return;
+      }
+
+      const tx = relayable.length === 1
+        ? await contract.voteBySig(relayable[0])
+        : await contract.castVotesBySig(relayable);
+      await track(tx, `Relay ${relayable.length} signed vote(s)`);
+      await onRemove(relayable);
+    } catch (err: any) {
+      console.error('Error relaying votes:', err);
+      setError(describeError(err, 'Failed to relay votes', {
+        InvalidSignature: 'One of the votes has an invalid signature. Discard it and try again.',
+        NonceAlreadyUsed: 'One of the votes was already counted or revoked. Try again to skip it.',
+        AlreadyVoted: 'One of the votes was already counted or revoked. Try again to skip it.',
+      }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (vote: SignedVote) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = await contract.invalidateNonce(vote.nonce);
+      await track(tx, 'Revoke signed vote');
+      await onRemove([vote]);
+    } catch (err: any) {
+      console.error('Error revoking vote:', err);
+      setError(describeError(err, 'Failed to revoke vote'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10 space-y-4">
+      <div>
+        <h3 className="text-xl font-bold text-white">Signed Votes Awaiting Relay</h3>
+        <p className="text-white/60 text-sm">
+          {shared
+            ? 'Gasless votes only count once someone submits them. Everyone visiting the campaign sees these votes, and anyone can relay the whole batch in one transaction.'
+            : 'Gasless votes only count once someone submits them. Share yours with the campaign owner, or relay the whole batch yourself in one transaction.'}
+        </p>
+      </div>
+
+      {votes.length === 0 ? (
+        <p className="text-white/60 text-center text-sm">No signed votes pending</p>
+      ) : (
+        <div className="space-y-2">
+          {votes.map((vote) => (
+            <div
+              key={voteKey(vote)}
+              className="flex justify-between items-center bg-white/5 rounded-lg px-3 py-2 text-sm"
+            >
+              <span className="text-white">
+                Milestone #{vote.milestoneId + 1}
+                {vote.round > 1 && <span className="text-white/60"> (round {vote.round})</span>}:{' '}
+                <span className={vote.approve ? 'text-emerald-300 font-bold' : 'text-red-300 font-bold'}>
+                  {vote.approve ? 'Yes' : 'No'}
+                </span>{' '}
+                <span className="font-mono text-white/70">{shortenAddress(vote.voter)}</span>
+              </span>
+              <span className="flex items-center space-x-3">
+                <button onClick={() => handleCopy(vote)} className="text-white/70 hover:text-white">
+                  {copied === voteKey(vote) ? 'Copied' : 'Copy'}
+                </button>
+                {vote.voter.toLowerCase() === account?.toLowerCase() && (
+                  <button
+                    onClick={() => handleRevoke(vote)}
+                    disabled={isLoading}
+                    className="text-red-300 hover:text-red-200"
+                  >
+                    Revoke
+                  </button>
+                )}
+                <button
+                  onClick={() => onRemove([vote]).catch((err) => setError(err.message || 'Failed to discard vote'))}
+                  className="text-white/50 hover:text-white/80"
+                >
+                  Discard
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <input
+          type="text"
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          className="flex-1 bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white text-sm placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="Paste a signed vote to relay it"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!importText.trim()}
+          className="bg-white/10 hover:bg-white/20 border border-white/20 text-white font-bold py-2 px-4 rounded-xl transition-all duration-300"
+        >
+          Add
+        </button>
+      </div>
+
+      {account && votes.length > 0 && (
+        <button
+          onClick={handleRelay}
+          disabled={isLoading}
+          className="w-full bg-gradient-to-r from-purple-500 to-indigo-600 hover:from-purple-600 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 shadow-lg"
+        >
+          {isLoading ? 'Submitting...' : `Relay ${votes.length} Signed Vote${votes.length === 1 ? '' : 's'}`}
+        </button>
+      )}
+
+      {error && <p className="text-red-200 text-sm text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default PendingSignedVotes;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useNetwork } from '../config/NetworkContext';
+import { explorerTxUrl } from '../config/networks';
+import { describeError } from '../errors/errorMessages';
+import { useTransactionManager } from '../transactions/TransactionContext';
+import { useTransactions } from '../transactions/useTransactions';
+import { TrackedTransaction, TransactionStatus } from '../transactions/transactionStore';
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  replaced: 'Replaced',
+  dropped: 'Dropped',
+};
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: 'bg-amber-500/30 text-amber-200',
+  confirmed: 'bg-emerald-500/30 text-emerald-200',
+  failed: 'bg-red-500/30 text-red-200',
+  cancelled: 'bg-white/10 text-white/70',
+  replaced: 'bg-white/10 text-white/70',
+  dropped: 'bg-red-500/30 text-red-200',
+};
+
+// The attempt to link to: the mined one, else the latest sent
+const currentHash = (tx: TrackedTransaction) => tx.minedHash ?? tx.attempts[tx.attempts.length - 1].hash;
+
+// Transactions sent from this browser that are pending or recently settled
+const PendingTransactions: React.FC = () => {
+  const network = useNetwork();
+  const manager = useTransactionManager();
+  const { transactions, dismiss } = useTransactions();
+  // Transaction being sped up or cancelled
+  const [isLoading, setIsLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!manager || transactions.length === 0) return null;
+
+  const handleReplace = async (tx: TrackedTransaction, action: 'speedUp' | 'cancel') => {
+    setIsLoading(tx.id);
+    setError(null);
+
+    try {
+      await (action === 'speedUp' ? manager.speedUp(tx.id) : manager.cancel(tx.id));
+    } catch (err: any) {
+      console.error(`Error replacing transaction ${tx.id}:`, err);
+      setError(describeError(err, err.message || `Failed to ${action === 'speedUp' ? 'speed up' : 'cancel'} the transaction`));
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+      <h3 className="text-lg font-bold text-white mb-4">Your Transactions</h3>
+
+      <div className="space-y-3">
+        {transactions.map((tx) => (
+          <div key={tx.id} className="bg-white/5 rounded-xl p-4 border border-white/10 space-y-2">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <p className="text-white font-semibold">{tx.description}</p>
+              <span className={`text-xs font-bold px-3 py-1 rounded-full ${STATUS_STYLES[tx.status]}`}>
+                {STATUS_LABELS[tx.status]}
+                {tx.blockNumber !== null && !tx.final && ` · ${tx.confirmations}/${network.confirmations}`}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-white/60">
+              {explorerTxUrl(network, currentHash(tx)) ? (
+                <a
+                  href={explorerTxUrl(network, currentHash(tx)) ?? undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-violet-200 hover:text-white"
+                >
+                  {currentHash(tx).substring(0, 10)}...
+                </a>
+              ) : (
+                <span className="font-mono">{currentHash(tx).substring(0, 10)}...</span>
+              )}
+              {tx.attempts.length > 1 && <span>{tx.attempts.length - 1} replacement(s) sent</span>}
+              <span>{new Date(tx.submittedAt).toLocaleTimeString()}</span>
+            </div>
+
+            {tx.status === 'pending' ? (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleReplace(tx, 'speedUp')}
+                  disabled={isLoading !== null}
+                  className="bg-violet-500/80 hover:bg-violet-600 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded-lg transition-all"
+                >
+                  {isLoading === tx.id ? 'Processing...' : 'Speed up'}
+                </button>
+                <button
+                  onClick={() => handleReplace(tx, 'cancel')}
+                  disabled={isLoading !== null}
+                  className="bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              tx.final && (
+                <button onClick={() => dismiss(tx.id)} className="text-white/50 hover:text-white text-xs font-semibold">
+                  Dismiss
+                </button>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-red-200 text-sm mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default PendingTransactions;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { formatAssetAmount } from '../tokens/tokens';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+interface RefundPanelProps {
+  contract: CrowdfundingClient | null;
+  userDonation: bigint;
+  // Progress toward the goal across ETH and tokens, in basis points
+  fundedBps: bigint;
+  // Accepted tokens and the connected account's donation of each, by address
+  tokens?: TokenInfo[];
+  userTokenDonations?: Map<string, bigint>;
+}
+
+// Shared default, so fetching available funds does not rerun on every render
+const NO_TOKENS: TokenInfo[] = [];
+
+const RefundPanel: React.FC<RefundPanelProps> = ({
+  contract,
+  userDonation,
+  fundedBps,
+  tokens = NO_TOKENS,
+  userTokenDonations = new Map()
+}) => {
+  const network = useNetwork();
+  const { nativeCurrency } = network;
+  const track = useTrackTransaction();
+  // Asset being refunded: a token address, 'native' for ETH
+  const [isLoading, setIsLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Funds of each asset not held by open or approved milestones, keyed like isLoading
+  const [availableFunds, setAvailableFunds] = useState<Map<string, bigint> | null>(null);
+
+  const fetchAvailableFunds = useCallback(async () => {
+    if (!contract) return;
+
+    try {
+      const assets = ['native', ...tokens.map((token) => token.address)];
+      const amounts = await Promise.all(
+        assets.map((asset) => contract.availableFunds(asset === 'native' ? null : asset))
+      );
+      setAvailableFunds(new Map(assets.map((asset, i) => [asset, amounts[i]])));
+    } catch (err) {
+      console.error('Error fetching available funds:', err);
+    }
+  }, [contract, tokens]);
+
+  useEffect(() => {
+    fetchAvailableFunds();
+  }, [fetchAvailableFunds]);
+
+  // A refund pays out the donation, capped at the funds no milestone holds
+  const refundable = (asset: string, donation: bigint) => {
+    const available = availableFunds?.get(asset) ?? donation;
+    return donation < available ? donation : available;
+  };
+
+  const nativeRefund = refundable('native', userDonation);
+
+  // Token donations are refunded separately, one token per transaction
+  const tokenRefunds = tokens.filter((token) => (userTokenDonations.get(token.address) ?? 0n) > 0n);
+  const isHeld = (donation: bigint, refund: bigint) => donation > 0n && refund === 0n;
+  const fundsHeld =
+    isHeld(userDonation, nativeRefund) ||
+    tokenRefunds.some((token) => {
+      const donation = userTokenDonations.get(token.address) ?? 0n;
+      return isHeld(donation, refundable(token.address, donation));
+    });
+
+  const handleRefund = async (token: TokenInfo | null) => {
+    if (!contract) return;
+
+    setIsLoading(token?.address ?? 'native');
+    setError(null);
+
+    try {
+      const tx = token ? await contract.refundToken(token.address) : await contract.refund();
+      await track(tx, `Refund ${token ? token.symbol : nativeCurrency.symbol} donation`);
+      await fetchAvailableFunds();
+    } catch (err: any) {
+      console.error('Error claiming refund:', err);
+      setError(describeError(err, 'Failed to claim refund'));
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-amber-500/30">
+      <h3 className="text-xl font-bold text-white mb-2 flex items-center space-x-2">
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+        <span>Refunds Available</span>
+      </h3>
+      <p className="text-white/70 text-sm mb-4">
+        This campaign ended {Number(fundedBps / 100n)}% funded and did not reach its goal. Donors can reclaim their
+        contributions, except funds still held by open or approved milestones, which can be claimed once those close unpaid.
+      </p>
+
+      <div className="bg-white/5 rounded-xl p-4 border border-white/10 mb-4">
+        <p className="text-white/60 text-xs font-semibold uppercase tracking-wider mb-1">Your Refundable Balance</p>
+        <p className="text-2xl font-bold text-white">{ethers.formatEther(nativeRefund)} {nativeCurrency.symbol}</p>
+        {nativeRefund < userDonation && (
+          <p className="text-white/50 text-xs mt-1">
+            of your {ethers.formatEther(userDonation)} {nativeCurrency.symbol} donation
+          </p>
+        )}
+      </div>
+
+      {fundsHeld && (
+        <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-3 mb-4">
+          <p className="text-amber-200 text-sm">
+            Some of your donation is held by open or approved milestones and cannot be refunded yet. Check back once
+            those milestones close unpaid.
+          </p>
+        </div>
+      )}
+
+      <button
+        onClick={() => handleRefund(null)}
+        disabled={isLoading !== null || nativeRefund === 0n}
+        className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed shadow-lg hover:shadow-amber-500/50"
+      >
+        {isLoading === 'native'
+          ? 'Processing Refund...'
+          : nativeRefund > 0n
+            ? 'Claim Refund'
+            : isHeld(userDonation, nativeRefund)
+              ? 'Held by Milestones'
+              : 'Nothing to Refund'}
+      </button>
+
+      {tokenRefunds.map((token) => {
+        const donation = userTokenDonations.get(token.address) ?? 0n;
+        const refund = refundable(token.address, donation);
+        return (
+          <div key={token.address} className="mt-4 flex items-center justify-between bg-white/5 rounded-xl p-4 border border-white/10">
+            <div>
+              <p className="text-white font-bold">{formatAssetAmount(refund, token, network)}</p>
+              {refund < donation && (
+                <p className="text-white/50 text-xs">of your {formatAssetAmount(donation, token, network)} donation</p>
+              )}
+            </div>
+            <button
+              onClick={() => handleRefund(token)}
+              disabled={isLoading !== null || refund === 0n}
+              className="bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/50 text-amber-200 font-bold py-2 px-4 rounded-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading === token.address ? 'Processing...' : refund > 0n ? `Refund ${token.symbol}` : 'Held by Milestones'}
+            </button>
+          </div>
+        );
+      })}
+
+      {error && (
+        <div className="mt-4 bg-red-500/10 backdrop-blur-md border border-red-500/30 rounded-xl p-4">
+          <p className="text-red-200 text-sm text-center">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefundPanel;
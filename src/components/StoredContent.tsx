@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import MarkdownContent from './MarkdownContent';
+import { ContentVerificationError, parseContentRef } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+
+interface StoredContentProps {
+  // On-chain reference: ipfs://<cid>, or text stored inline by older versions
+  contentRef: string;
+  className?: string;
+}
+
+// Fetches, verifies and renders Markdown stored by CID; legacy inline text is shown verbatim
+const StoredContent: React.FC<StoredContentProps> = ({ contentRef, className = '' }) => {
+  const store = useContentStore();
+  const cid = parseContentRef(contentRef);
+  const [source, setSource] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cid) return;
+
+    let cancelled = false;
+    setSource(null);
+    setError(null);
+
+    store
+      .get(cid)
+      .then((data) => {
+        if (!cancelled) setSource(ethers.toUtf8String(data));
+      })
+      .catch((err) => {
+        console.error('Error loading content:', err);
+        if (cancelled) return;
+        setError(
+          err instanceof ContentVerificationError
+            ? 'The content served for this update does not match its fingerprint and was not shown.'
+            : 'This content could not be loaded from IPFS.'
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cid, store]);
+
+  if (!cid) {
+    return <p className={`text-white/80 leading-relaxed whitespace-pre-wrap ${className}`}>{contentRef}</p>;
+  }
+
+  if (error) {
+    return (
+      <div className={`text-sm ${className}`}>
+        <p className="text-amber-200">{error}</p>
+        <p className="text-white/50 font-mono text-xs break-all">{cid}</p>
+      </div>
+    );
+  }
+
+  if (source === null) {
+    return <p className={`text-white/50 text-sm ${className}`}>Loading content...</p>;
+  }
+
+  return (
+    <div className={className}>
+      <MarkdownContent source={source} />
+    </div>
+  );
+};
+
+export default StoredContent;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { useNetwork } from '../config/NetworkContext';
+import { explorerTxUrl } from '../config/networks';
+import { useTransactionManager } from '../transactions/TransactionContext';
+import { TrackedTransaction, TransactionStatus } from '../transactions/transactionStore';
+
+interface Toast {
+  key: string;
+  transaction: TrackedTransaction;
+}
+
+const TOAST_DURATION_MS = 8000;
+
+const TOAST_MESSAGES: Record<TransactionStatus, string> = {
+  pending: 'Transaction sent',
+  confirmed: 'Transaction confirmed',
+  failed: 'Transaction failed',
+  cancelled: 'Transaction cancelled',
+  replaced: 'Transaction replaced in your wallet',
+  dropped: 'Transaction dropped by the network',
+};
+
+const TOAST_STYLES: Record<TransactionStatus, string> = {
+  pending: 'border-violet-400/40',
+  confirmed: 'border-emerald-400/40',
+  failed: 'border-red-400/40',
+  cancelled: 'border-white/20',
+  replaced: 'border-white/20',
+  dropped: 'border-red-400/40',
+};
+
+// Short-lived notifications when a tracked transaction is sent or changes status
+const TransactionToasts: React.FC = () => {
+  const network = useNetwork();
+  const manager = useTransactionManager();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => {
+    if (!manager) return;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = manager.subscribe((transaction, previous) => {
+      // Only new transactions and status changes, not every extra confirmation
+      if (previous === transaction.status) return;
+
+      const key = `${transaction.id}:${transaction.status}:${Date.now()}`;
+      setToasts((prev) => [...prev, { key, transaction }]);
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setToasts((prev) => prev.filter((toast) => toast.key !== key));
+      }, TOAST_DURATION_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [manager]);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map(({ key, transaction }) => {
+        const hash = transaction.minedHash ?? transaction.attempts[transaction.attempts.length - 1].hash;
+        const url = explorerTxUrl(network, hash);
+
+        return (
+          <div
+            key={key}
+            className={`bg-slate-900/90 backdrop-blur-md rounded-xl p-4 border shadow-2xl ${TOAST_STYLES[transaction.status]}`}
+          >
+            <p className="text-white font-bold text-sm">{TOAST_MESSAGES[transaction.status]}</p>
+            <p className="text-white/70 text-sm">{transaction.description}</p>
+            {url && (
+              <a href={url} target="_blank" rel="noopener noreferrer" className="text-violet-300 hover:text-white text-xs font-semibold">
+                View on explorer →
+              </a>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TransactionToasts;
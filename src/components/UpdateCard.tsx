@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import StoredContent from './StoredContent';
+import UpdateComments from './UpdateComments';
+import UpdateEditor, { UpdateDraft } from './UpdateEditor';
+import UpdateVersionHistory from './UpdateVersionHistory';
+import { CrowdfundingClient, CampaignUpdate } from '../contracts/CrowdfundingClient';
+import { CommentMessage, UpdateThread } from '../comments/comments';
+import { readText } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+interface UpdateCardProps {
+  contract: CrowdfundingClient;
+  update: CampaignUpdate;
+  account: string | null;
+  isOwner: boolean;
+  isPinned: boolean;
+  // Draws the timeline line down to the next card
+  showTimeline: boolean;
+  thread?: UpdateThread;
+  contributions: Map<string, bigint>;
+  onPost: (message: CommentMessage) => Promise<void>;
+  onTagSelect: (tag: string) => void;
+}
+
+// One entry of the updates feed, with owner controls to correct or pin it
+const UpdateCard: React.FC<UpdateCardProps> = ({
+  contract,
+  update,
+  account,
+  isOwner,
+  isPinned,
+  showTimeline,
+  thread,
+  contributions,
+  onPost,
+  onTagSelect
+}) => {
+  const store = useContentStore();
+  const track = useTrackTransaction();
+  const [draft, setDraft] = useState<UpdateDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = async () => {
+    setError(null);
+    try {
+      const content = await readText(store, update.contentHash);
+      setDraft({ title: update.title, content, tags: update.tags.join(', ') });
+    } catch (err) {
+      console.error('Error loading update content:', err);
+      setError('Could not load the current content to edit.');
+    }
+  };
+
+  const handleTogglePin = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tx = isPinned ? await contract.unpinUpdate() : await contract.pinUpdate(update.id);
+      await track(tx, `${isPinned ? 'Unpin' : 'Pin'} update: ${update.title}`);
+    } catch (err: any) {
+      console.error('Error pinning update:', err);
+      setError(describeError(err, 'Failed to change the pinned update', {
+        UpdateAlreadySuperseded: 'Only the latest version of an update can be pinned.',
+      }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className={`bg-white/5 backdrop-blur-md rounded-2xl p-6 border relative ${
+        isPinned ? 'border-amber-400/40' : 'border-white/10'
+      }`}
+    >
+      {/* Timeline dot */}
+      {showTimeline && (
+        <div className="absolute left-8 top-20 bottom-0 w-0.5 bg-gradient-to-b from-purple-500 to-transparent" />
+      )}
+
+      <div className="flex space-x-4">
+        <div className="flex-shrink-0">
+          <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-indigo-600 rounded-full flex items-center justify-center shadow-lg relative z-10">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {draft ? (
+            <UpdateEditor
+              initial={draft}
+              submitLabel="Publish Correction"
+              onSubmit={(title, contentRef, tags) => contract.supersedeUpdate(update.id, title, contentRef, tags)}
+              onDone={() => setDraft(null)}
+              onCancel={() => setDraft(null)}
+            />
+          ) : (
+            <>
+              <div className="flex items-start justify-between mb-2">
+                <h4 className="text-lg font-bold text-white">
+                  {isPinned && <span className="text-amber-200 mr-2" title="Pinned">📌</span>}
+                  {update.title}
+                </h4>
+                <span className="text-xs text-white/60 ml-4 flex-shrink-0">
+                  {new Date(Number(update.timestamp) * 1000).toLocaleDateString()}
+                </span>
+              </div>
+
+              {update.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {update.tags.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => onTagSelect(tag)}
+                      className="text-xs px-3 py-1 rounded-full bg-purple-500/20 border border-purple-400/30 text-purple-100 hover:bg-purple-500/30"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <StoredContent contentRef={update.contentHash} />
+              <UpdateVersionHistory contract={contract} update={update} />
+
+              {isOwner && (
+                <div className="flex gap-4 mt-3 text-sm">
+                  <button onClick={startEditing} className="text-white/70 hover:text-white font-semibold">
+                    Edit
+                  </button>
+                  <button
+                    onClick={handleTogglePin}
+                    disabled={isLoading}
+                    className="text-amber-200 hover:text-white font-semibold"
+                  >
+                    {isLoading ? 'Saving...' : isPinned ? 'Unpin' : 'Pin to Top'}
+                  </button>
+                </div>
+              )}
+              {error && <p className="text-red-200 text-sm mt-2">{error}</p>}
+
+              <UpdateComments
+                updateId={update.id}
+                thread={thread}
+                account={account}
+                contributions={contributions}
+                onPost={onPost}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpdateCard;
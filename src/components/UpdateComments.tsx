@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { CommentMessage, MAX_COMMENT_LENGTH, REACTIONS, Reaction, UpdateThread } from '../comments/comments';
+import { useNetwork } from '../config/NetworkContext';
+
+interface UpdateCommentsProps {
+  updateId: number;
+  thread?: UpdateThread;
+  account: string | null;
+  // Current donations by lowercased address, for the donor badge
+  contributions: Map<string, bigint>;
+  onPost: (message: CommentMessage) => Promise<void>;
+}
+
+const shortenAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Reactions and signed comments under one campaign update
+const UpdateComments: React.FC<UpdateCommentsProps> = ({ updateId, thread, account, contributions, onPost }) => {
+  const { nativeCurrency } = useNetwork();
+  const [isOpen, setIsOpen] = useState(false);
+  const [body, setBody] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const comments = thread?.comments ?? [];
+  const reactedBy = (reaction: Reaction) => thread?.reactions.get(reaction) ?? [];
+  const hasReacted = (reaction: Reaction) =>
+    !!account && reactedBy(reaction).some((author) => author.toLowerCase() === account.toLowerCase());
+
+  const sign = async (message: CommentMessage) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onPost(message);
+      return true;
+    } catch (err: any) {
+      console.error('Error signing comment:', err);
+      setError(err.code === 'ACTION_REJECTED' ? 'Signature was rejected by user.' : err.message || 'Failed to sign comment');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReaction = (reaction: Reaction) => {
+    sign({ kind: 'reaction', updateId, reaction, active: !hasReacted(reaction), createdAt: now() });
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sign({ kind: 'comment', updateId, body: body.trim(), createdAt: now() })) setBody('');
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-white/10 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {REACTIONS.map((reaction) => (
+          <button
+            key={reaction}
+            onClick={() => handleReaction(reaction)}
+            disabled={!account || isLoading}
+            title={account ? 'Sign to react (no gas)' : 'Connect a wallet to react'}
+            className={`text-sm px-3 py-1 rounded-full border transition-all duration-300 ${
+              hasReacted(reaction)
+                ? 'bg-purple-500/30 border-purple-400/60 text-white'
+                : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {reaction} {reactedBy(reaction).length > 0 && reactedBy(reaction).length}
+          </button>
+        ))}
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="ml-auto text-white/70 hover:text-white text-sm font-semibold"
+        >
+          {isOpen ? '▾' : '▸'} Comments ({comments.length})
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-2">
+          {comments.map((comment) => {
+            const contribution = contributions.get(comment.author.toLowerCase()) ?? 0n;
+            return (
+              <div key={comment.signature} className="bg-white/5 rounded-lg px-3 py-2 text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center space-x-2">
+                    <span className="font-mono text-white/80">{shortenAddress(comment.author)}</span>
+                    {contribution > 0n && (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-emerald-500/30 text-emerald-200">
+                        ✓ Donor · {ethers.formatEther(contribution)} {nativeCurrency.symbol}
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-white/50 text-xs">{new Date(comment.createdAt * 1000).toLocaleString()}</span>
+                </div>
+                {comment.kind === 'comment' && (
+                  <p className="text-white/80 whitespace-pre-wrap break-words">{comment.body}</p>
+                )}
+              </div>
+            );
+          })}
+
+          {account ? (
+            <form onSubmit={handleComment} className="space-y-2">
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                maxLength={MAX_COMMENT_LENGTH}
+                className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white text-sm placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 h-20 resize-none"
+                placeholder="Add a comment..."
+              />
+              <button
+                type="submit"
+                disabled={isLoading || !body.trim()}
+                className="bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 text-purple-200 font-bold py-2 px-4 rounded-xl text-sm transition-all duration-300"
+              >
+                {isLoading ? 'Signing...' : 'Sign & Comment'}
+              </button>
+              <p className="text-white/50 text-xs">Comments are signed with your wallet; no gas is needed.</p>
+            </form>
+          ) : (
+            <p className="text-white/60 text-sm">Connect a wallet to comment.</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-200 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default UpdateComments;
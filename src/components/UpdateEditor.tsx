@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import MarkdownContent from './MarkdownContent';
+import { MAX_CONTENT_BYTES, publishText, toContentRef } from '../content/ContentStore';
+import { useContentStore } from '../content/ContentStoreContext';
+import { SUGGESTED_TAGS, parseTags } from '../content/updateTags';
+import { describeError } from '../errors/errorMessages';
+import { useTrackTransaction } from '../transactions/TransactionContext';
+
+export interface UpdateDraft {
+  title: string;
+  // Markdown source
+  content: string;
+  // Comma-separated
+  tags: string;
+}
+
+interface UpdateEditorProps {
+  initial?: UpdateDraft;
+  submitLabel: string;
+  // Sends the transaction for a draft whose content is already stored
+  onSubmit: (title: string, contentRef: string, tags: string[]) => Promise<ethers.ContractTransactionResponse>;
+  // Called once the transaction is mined
+  onDone?: () => void;
+  onCancel?: () => void;
+}
+
+const EMPTY_DRAFT: UpdateDraft = { title: '', content: '', tags: '' };
+
+// Markdown form for posting an update or a corrected version of one
+const UpdateEditor: React.FC<UpdateEditorProps> = ({ initial = EMPTY_DRAFT, submitLabel, onSubmit, onDone, onCancel }) => {
+  const store = useContentStore();
+  const track = useTrackTransaction();
+  const [draft, setDraft] = useState<UpdateDraft>(initial);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const tags = parseTags(draft.tags);
+      // Only the content's CID goes on chain; the Markdown itself lives in the
+      // content store, or inline on chain when the store cannot keep it
+      const contentRef = await publishText(store, draft.content);
+      const tx = await onSubmit(draft.title, contentRef, tags);
+      await track(tx, `${submitLabel}: ${draft.title}`);
+
+      setDraft(EMPTY_DRAFT);
+      setShowPreview(false);
+      onDone?.();
+    } catch (err: any) {
+      console.error('Error posting update:', err);
+      setError(describeError(err, err.message || 'Failed to post update'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_CONTENT_BYTES) {
+      setError(`Images must be smaller than ${MAX_CONTENT_BYTES / 1024} KiB.`);
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const cid = await store.put(new Uint8Array(await file.arrayBuffer()));
+      const alt = file.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '');
+      setDraft((current) => ({
+        ...current,
+        content: `${current.content}${current.content && !current.content.endsWith('\n') ? '\n' : ''}![${alt}](${toContentRef(cid)})\n`,
+      }));
+    } catch (err: any) {
+      console.error('Error uploading image:', err);
+      setError(err.message || 'Failed to upload image');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const addSuggestedTag = (tag: string) => {
+    const current = draft.tags.split(',').map((t) => t.trim()).filter(Boolean);
+    if (!current.includes(tag)) setDraft({ ...draft, tags: [...current, tag].join(', ') });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-white/80 text-sm font-semibold mb-2">
+          Update Title
+        </label>
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="E.g., Prototype Development Complete!"
+          required
+        />
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="block text-white/80 text-sm font-semibold">
+            Content <span className="text-white/50 font-normal">(Markdown)</span>
+          </label>
+          <div className="flex items-center space-x-4 text-sm">
+            {store.persistent ? (
+              <label className="text-purple-200 hover:text-white font-semibold cursor-pointer">
+                {isUploading ? 'Uploading...' : 'Insert Image'}
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={handleImageUpload}
+                  disabled={isUploading}
+                  className="hidden"
+                />
+              </label>
+            ) : (
+              // Images only exist in the content store, so without IPFS they would vanish on reload
+              <span className="text-white/50">Images need an IPFS node</span>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowPreview(!showPreview)}
+              className="text-white/70 hover:text-white font-semibold"
+            >
+              {showPreview ? 'Edit' : 'Preview'}
+            </button>
+          </div>
+        </div>
+        {showPreview ? (
+          <div className="bg-white/5 border border-white/20 rounded-xl px-4 py-3 min-h-[120px]">
+            <MarkdownContent source={draft.content} />
+          </div>
+        ) : (
+          <textarea
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[120px]"
+            placeholder="Share progress, achievements, or important news..."
+            required
+          />
+        )}
+      </div>
+
+      <div>
+        <label className="block text-white/80 text-sm font-semibold mb-2">
+          Tags <span className="text-white/50 font-normal">(optional, comma separated)</span>
+        </label>
+        <input
+          type="text"
+          value={draft.tags}
+          onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+          className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="financial report, milestone"
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          {SUGGESTED_TAGS.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addSuggestedTag(tag)}
+              className="text-xs px-3 py-1 rounded-full bg-white/5 border border-white/10 text-white/70 hover:bg-white/10"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={isLoading || isUploading || !draft.content.trim()}
+          className="flex-1 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300 disabled:from-slate-400 disabled:to-slate-500 shadow-lg hover:shadow-blue-500/50"
+        >
+          {isLoading ? 'Posting...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isLoading}
+            className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-xl transition-all duration-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-200 text-sm text-center">{error}</p>}
+    </form>
+  );
+};
+
+export default UpdateEditor;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import StoredContent from './StoredContent';
+import { CrowdfundingClient, CampaignUpdate } from '../contracts/CrowdfundingClient';
+
+interface UpdateVersionHistoryProps {
+  contract: CrowdfundingClient;
+  // Current version; earlier ones are loaded on demand
+  update: CampaignUpdate;
+}
+
+// Earlier versions of a corrected update, newest first
+const UpdateVersionHistory: React.FC<UpdateVersionHistoryProps> = ({ contract, update }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<CampaignUpdate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (update.supersedes === null) return null;
+
+  const loadVersions = async () => {
+    setError(null);
+    try {
+      const earlier: CampaignUpdate[] = [];
+      for (let id: number | null = update.supersedes; id !== null; id = earlier[earlier.length - 1].supersedes) {
+        earlier.push(await contract.getUpdate(id));
+      }
+      setVersions(earlier);
+    } catch (err) {
+      console.error('Error fetching update history:', err);
+      setError('Could not load earlier versions.');
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen && versions === null) loadVersions();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="mt-3">
+      <button onClick={toggle} className="text-white/60 hover:text-white text-xs font-semibold">
+        {isOpen ? '▾' : '▸'} Edited · Version History
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {versions === null && !error && <p className="text-white/50 text-xs">Loading versions...</p>}
+          {versions?.map((version, i) => (
+            <div key={version.id} className="bg-white/5 rounded-lg px-3 py-2 border border-white/10 space-y-1">
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-white/80 font-semibold">
+                  Version {versions.length - i}: {version.title}
+                </span>
+                <span className="text-white/50">
+                  {new Date(Number(version.timestamp) * 1000).toLocaleDateString()}
+                </span>
+              </div>
+              <StoredContent contentRef={version.contentHash} className="text-sm opacity-80" />
+            </div>
+          ))}
+          {error && <p className="text-red-200 text-xs">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpdateVersionHistory;
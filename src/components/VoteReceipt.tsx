@@ -0,0 +1,37 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { BallotEvent } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+
+interface VoteReceiptProps {
+  // The account's VoteCast or VoteAbstained event, undefined until it has been indexed
+  receipt?: BallotEvent;
+}
+
+// Confirms the connected account's vote on a milestone
+const VoteReceipt: React.FC<VoteReceiptProps> = ({ receipt }) => {
+  const { nativeCurrency } = useNetwork();
+
+  return (
+    <div className="bg-purple-500/20 rounded-xl px-4 py-3 border border-purple-500/30 text-sm">
+      {receipt && !('vote' in receipt) ? (
+        <p className="text-white">
+          You abstained with a weight of {ethers.formatEther(receipt.weight)} {nativeCurrency.symbol}, counting
+          towards quorum only
+        </p>
+      ) : receipt ? (
+        <p className="text-white">
+          You voted{' '}
+          <span className={receipt.vote ? 'text-emerald-300 font-bold' : 'text-red-300 font-bold'}>
+            {receipt.vote ? 'Yes' : 'No'}
+          </span>{' '}
+          with a weight of {ethers.formatEther(receipt.weight)} {nativeCurrency.symbol}
+        </p>
+      ) : (
+        <p className="text-white">You have voted on this milestone</p>
+      )}
+    </div>
+  );
+};
+
+export default VoteReceipt;
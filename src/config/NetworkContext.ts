@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { NETWORKS, DEFAULT_CHAIN_ID, NetworkConfig } from './networks';
+
+// The network the app is currently talking to
+export const NetworkContext = createContext<NetworkConfig>(NETWORKS[DEFAULT_CHAIN_ID]);
+
+export const useNetwork = (): NetworkConfig => useContext(NetworkContext);
@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  // CrowdfundingFactory deployment on this chain
+  factoryAddress: string;
+  // Block explorer base URL, without a trailing slash. Empty for local chains.
+  explorerUrl: string;
+  rpcUrl: string;
+  // Blocks on top of an event's block before the app treats it as final
+  confirmations: number;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  // Well-known stablecoins offered when creating a campaign
+  stablecoins: TokenInfo[];
+  // Chainlink price aggregators by pair, e.g. "ETH/USD". Empty to use manual rates.
+  priceFeeds: Record<string, string>;
+}
+
+// TODO: Replace the factory addresses with your deployments
+export const NETWORKS: Record<number, NetworkConfig> = {
+  11155111: {
+    chainId: 11155111,
+    name: 'Sepolia',
+    factoryAddress: '0x0000000000000000000000000000000000000000',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    rpcUrl: 'https://rpc.sepolia.org',
+    confirmations: 3,
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    stablecoins: [
+      { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+    ],
+    priceFeeds: {
+      'ETH/USD': '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+      'EUR/USD': '0x1a81afB8146aeFfCFc5E50e8479e826E7D55b910',
+      'USDC/USD': '0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E',
+    },
+  },
+  1: {
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    factoryAddress: '0x0000000000000000000000000000000000000000',
+    explorerUrl: 'https://etherscan.io',
+    rpcUrl: 'https://cloudflare-eth.com',
+    confirmations: 12,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    stablecoins: [
+      { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+      { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18 },
+    ],
+    priceFeeds: {
+      'ETH/USD': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+      'EUR/USD': '0xb49f677943BC038e9857d61E7d053CaA2C1734C1',
+      'USDC/USD': '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+      'DAI/USD': '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9',
+      'GBP/USD': '0x5c0Ab2d9b5a7ed9f470386e82BB36A3613cDd4b5',
+    },
+  },
+  31337: {
+    chainId: 31337,
+    name: 'Localhost',
+    factoryAddress: '0x0000000000000000000000000000000000000000',
+    explorerUrl: '',
+    rpcUrl: 'http://127.0.0.1:8545',
+    confirmations: 1,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    stablecoins: [],
+    priceFeeds: {},
+  },
+};
+
+// Network used before a wallet tells us otherwise
+export const DEFAULT_CHAIN_ID = 11155111;
+
+export const SUPPORTED_NETWORKS = Object.values(NETWORKS);
+
+export const getNetwork = (chainId: number | bigint | null | undefined): NetworkConfig | null =>
+  chainId == null ? null : NETWORKS[Number(chainId)] ?? null;
+
+// Link to a transaction on the network's explorer, or null if it has none
+export const explorerTxUrl = (network: NetworkConfig, txHash: string): string | null =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+
+/**
+ * Asks an injected wallet to switch to `network`, adding the chain first if
+ * the wallet does not know it yet (EIP-3326 / EIP-3085).
+ */
+export const switchWalletNetwork = async (ethereum: ethers.Eip1193Provider, network: NetworkConfig): Promise<void> => {
+  const chainId = ethers.toQuantity(network.chainId);
+
+  try {
+    await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (err: any) {
+    // 4902: unrecognized chain. MetaMask mobile nests it in originalError.
+    if (err.code !== 4902 && err.data?.originalError?.code !== 4902) throw err;
+
+    await ethereum.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId,
+        chainName: network.name,
+        rpcUrls: [network.rpcUrl],
+        nativeCurrency: network.nativeCurrency,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+      }],
+    });
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * @jest-environment node
+ */
+// ethers hashes with node's crypto here, whose Buffers jsdom does not accept as Uint8Arrays
+import { IpfsContentStore, MemoryContentStore, publishText, readText } from './ContentStore';
+
+test('publishes to a persistent store by CID', async () => {
+  const store = new MemoryContentStore();
+  // Stands in for an IPFS node, which keeps what it is given
+  const persistent = Object.assign(store, { persistent: true });
+
+  const ref = await publishText(persistent, '# Update');
+  expect(ref).toMatch(/^ipfs:\/\//);
+  expect(await readText(persistent, ref)).toBe('# Update');
+});
+
+test('stores text inline when the store would lose it', async () => {
+  expect(new MemoryContentStore().persistent).toBe(false);
+  expect(new IpfsContentStore({ gatewayUrl: 'https://ipfs.io' }).persistent).toBe(false);
+  expect(new IpfsContentStore({ apiUrl: 'http://127.0.0.1:5001' }).persistent).toBe(true);
+
+  const store = new MemoryContentStore();
+  const ref = await publishText(store, '# Update');
+  expect(ref).toBe('# Update');
+  expect(await readText(store, ref)).toBe('# Update');
+});
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+import { computeCid, isCid } from './cid';
+
+// Largest document stored as a single raw block, so its CID can be checked locally
+export const MAX_CONTENT_BYTES = 1024 * 1024;
+
+const IPFS_SCHEME = 'ipfs://';
+
+/**
+ * Content-addressed storage for update bodies, milestone evidence and
+ * images. Every adapter returns and accepts CIDv1 raw-block identifiers,
+ * so the same reference resolves on any of them.
+ */
+export interface ContentStore {
+  // Whether stored content outlives the page and other visitors can read it
+  readonly persistent: boolean;
+
+  // Stores `data` and resolves to its CID
+  put(data: Uint8Array): Promise<string>;
+
+  // Resolves to the bytes behind `cid`, after checking they hash to it
+  get(cid: string): Promise<Uint8Array>;
+}
+
+/**
+ * Content whose bytes do not hash to the CID they were requested or
+ * announced under, e.g. from a misbehaving gateway.
+ */
+export class ContentVerificationError extends Error {
+  readonly cid: string;
+
+  constructor(cid: string) {
+    super(`Content does not match ${cid}`);
+    this.name = 'ContentVerificationError';
+    this.cid = cid;
+  }
+}
+
+const checkSize = (data: Uint8Array) => {
+  if (data.length > MAX_CONTENT_BYTES) {
+    throw new Error(`Content is larger than ${MAX_CONTENT_BYTES / 1024} KiB`);
+  }
+};
+
+const verify = (cid: string, data: Uint8Array): Uint8Array => {
+  if (computeCid(data) !== cid) throw new ContentVerificationError(cid);
+  return data;
+};
+
+/**
+ * Keeps content for the lifetime of the page. Used when no IPFS node is
+ * configured, and in tests.
+ */
+export class MemoryContentStore implements ContentStore {
+  readonly persistent = false;
+  private blocks = new Map<string, Uint8Array>();
+
+  async put(data: Uint8Array): Promise<string> {
+    checkSize(data);
+    const cid = computeCid(data);
+    this.blocks.set(cid, data.slice());
+    return cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const data = this.blocks.get(cid);
+    if (!data) throw new Error(`Content ${cid} not found`);
+    return verify(cid, data);
+  }
+}
+
+export interface IpfsContentStoreOptions {
+  // Kubo RPC API, e.g. http://127.0.0.1:5001. Required for uploads
+  apiUrl?: string;
+  // HTTP gateway used for reads, e.g. http://127.0.0.1:8080 or https://ipfs.io
+  gatewayUrl?: string;
+}
+
+/**
+ * Talks to an IPFS node over its RPC API and/or an HTTP gateway. Content
+ * is added as a single raw block, and everything read back is verified
+ * against its CID, so an untrusted public gateway is safe to use.
+ */
+export class IpfsContentStore implements ContentStore {
+  // Only a node's API can pin uploads; a gateway alone is read-only
+  readonly persistent: boolean;
+  private apiUrl: string | null;
+  private gatewayUrl: string | null;
+  // Verified content, keyed by CID
+  private cache = new Map<string, Uint8Array>();
+
+  constructor({ apiUrl, gatewayUrl }: IpfsContentStoreOptions) {
+    if (!apiUrl && !gatewayUrl) throw new Error('An IPFS API or gateway URL is required');
+    this.apiUrl = apiUrl ? apiUrl.replace(/\/+$/, '') : null;
+    this.gatewayUrl = gatewayUrl ? gatewayUrl.replace(/\/+$/, '') : null;
+    this.persistent = this.apiUrl !== null;
+  }
+
+  async put(data: Uint8Array): Promise<string> {
+    if (!this.apiUrl) throw new Error('Uploading needs an IPFS API URL');
+    checkSize(data);
+
+    const body = new FormData();
+    body.append('file', new Blob([data]));
+    // One chunk as large as the size limit keeps the CID a plain hash of the bytes
+    const response = await fetch(
+      `${this.apiUrl}/api/v0/add?cid-version=1&raw-leaves=true&chunker=size-${MAX_CONTENT_BYTES}&pin=true`,
+      { method: 'POST', body }
+    );
+    if (!response.ok) throw new Error(`IPFS upload failed (${response.status})`);
+
+    const { Hash } = await response.json();
+    const cid = computeCid(data);
+    if (Hash !== cid) throw new ContentVerificationError(Hash);
+    this.cache.set(cid, data.slice());
+    return cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    if (!isCid(cid)) throw new Error(`Unsupported CID ${cid}`);
+
+    const cached = this.cache.get(cid);
+    if (cached) return cached;
+
+    // Gateways serve raw blocks as-is; the RPC API needs block/get
+    const response = this.gatewayUrl
+      ? await fetch(`${this.gatewayUrl}/ipfs/${cid}`)
+      : await fetch(`${this.apiUrl}/api/v0/block/get?arg=${cid}`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Content ${cid} could not be fetched (${response.status})`);
+
+    const data = verify(cid, new Uint8Array(await response.arrayBuffer()));
+    this.cache.set(cid, data);
+    return data;
+  }
+}
+
+// IPFS when the build configures a node or gateway, otherwise an in-memory fallback
+export const createContentStore = (): ContentStore => {
+  const apiUrl = process.env.REACT_APP_IPFS_API_URL;
+  const gatewayUrl = process.env.REACT_APP_IPFS_GATEWAY_URL;
+  return apiUrl || gatewayUrl ? new IpfsContentStore({ apiUrl, gatewayUrl }) : new MemoryContentStore();
+};
+
+// On-chain value referencing stored content
+export const toContentRef = (cid: string): string => `${IPFS_SCHEME}${cid}`;
+
+// CID behind an `ipfs://` reference, or null for anything else (such as legacy inline text)
+export const parseContentRef = (ref: string): string | null => {
+  if (!ref.startsWith(IPFS_SCHEME)) return null;
+  const cid = ref.slice(IPFS_SCHEME.length);
+  return isCid(cid) ? cid : null;
+};
+
+/**
+ * Uploads a UTF-8 document and returns the reference to store on chain. A
+ * store that cannot keep it gets the text itself, stored inline the legacy
+ * way, rather than an ipfs:// reference no one could resolve after a reload.
+ */
+export const publishText = async (store: ContentStore, text: string): Promise<string> =>
+  store.persistent ? toContentRef(await store.put(ethers.toUtf8Bytes(text))) : text;
+
+// Text behind a reference, fetched and verified for ipfs:// and returned as-is for legacy inline text
+export const readText = async (store: ContentStore, ref: string): Promise<string> => {
+  const cid = parseContentRef(ref);
+  return cid ? ethers.toUtf8String(await store.get(cid)) : ref;
+};
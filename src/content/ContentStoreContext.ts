@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { ContentStore, MemoryContentStore } from './ContentStore';
+
+// Where update bodies, milestone evidence and images are stored
+export const ContentStoreContext = createContext<ContentStore>(new MemoryContentStore());
+
+export const useContentStore = (): ContentStore => useContext(ContentStoreContext);
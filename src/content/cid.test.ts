@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+// ethers hashes with node's crypto here, whose Buffers jsdom does not accept as Uint8Arrays
+import { ethers } from 'ethers';
+import { computeCid, isCid } from './cid';
+
+describe('computeCid', () => {
+  it('matches the CID IPFS assigns to raw blocks', () => {
+    expect(computeCid(new Uint8Array())).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+  });
+
+  it('changes with the content', () => {
+    expect(computeCid(ethers.toUtf8Bytes('a'))).not.toBe(computeCid(ethers.toUtf8Bytes('b')));
+  });
+});
+
+describe('isCid', () => {
+  it('accepts raw sha2-256 CIDs', () => {
+    expect(isCid(computeCid(ethers.toUtf8Bytes('hello')))).toBe(true);
+  });
+
+  it('rejects legacy inline text and other CID kinds', () => {
+    expect(isCid('We reached our first milestone!')).toBe(false);
+    // CIDv0 (dag-pb) cannot be verified against a single block
+    expect(isCid('QmbWqxBEKC3P8tqsKc98xmWNzrzDtRLMiMPL8wBuTGsMnR')).toBe(false);
+    expect(isCid('bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi')).toBe(false);
+  });
+});
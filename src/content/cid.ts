@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+
+// CIDv1 header for a `raw` block addressed by a sha2-256 multihash
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const DIGEST_LENGTH = 32;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+// Multibase prefix of lowercase, unpadded RFC 4648 base32
+const BASE32_PREFIX = 'b';
+
+const toBase32 = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+};
+
+const fromBase32 = (text: string): Uint8Array | null => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * The CID IPFS assigns to `data` stored as a single raw block
+ * (`ipfs add --cid-version=1 --raw-leaves`), e.g. `bafkrei...`.
+ */
+export const computeCid = (data: Uint8Array): string => {
+  const digest = ethers.getBytes(ethers.sha256(data));
+  const header = new Uint8Array([CID_VERSION, RAW_CODEC, SHA2_256, DIGEST_LENGTH]);
+  return BASE32_PREFIX + toBase32(ethers.getBytes(ethers.concat([header, digest])));
+};
+
+// Whether `cid` is a CID this app can verify: CIDv1, raw codec, sha2-256
+export const isCid = (cid: string): boolean => {
+  if (!cid.startsWith(BASE32_PREFIX)) return false;
+  const bytes = fromBase32(cid.slice(1));
+  return (
+    bytes !== null &&
+    bytes.length === 4 + DIGEST_LENGTH &&
+    bytes[0] === CID_VERSION &&
+    bytes[1] === RAW_CODEC &&
+    bytes[2] === SHA2_256 &&
+    bytes[3] === DIGEST_LENGTH
+  );
+};
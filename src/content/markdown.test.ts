@@ -0,0 +1,48 @@
+import { parseInline, parseMarkdown } from './markdown';
+
+describe('parseMarkdown', () => {
+  it('parses headings, paragraphs, lists, quotes and code', () => {
+    const blocks = parseMarkdown(
+      ['# Week 3', '', 'We **finished** the roof.', 'Next up:', '', '- windows', '- doors', '', '> thanks!', '', '```', '<b>raw</b>', '```'].join('\n')
+    );
+
+    expect(blocks.map((b) => b.type)).toEqual(['heading', 'paragraph', 'list', 'blockquote', 'code']);
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, children: [{ type: 'text', text: 'Week 3' }] });
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'We ' },
+        { type: 'strong', children: [{ type: 'text', text: 'finished' }] },
+        { type: 'text', text: ' the roof.\nNext up:' },
+      ],
+    });
+    expect(blocks[4]).toEqual({ type: 'code', text: '<b>raw</b>' });
+  });
+
+  it('keeps ordered and unordered lists apart', () => {
+    const blocks = parseMarkdown('1. first\n2. second\n\n* other');
+    expect(blocks).toEqual([
+      { type: 'list', ordered: true, items: [[{ type: 'text', text: 'first' }], [{ type: 'text', text: 'second' }]] },
+      { type: 'list', ordered: false, items: [[{ type: 'text', text: 'other' }]] },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('parses links and images with allowed schemes', () => {
+    expect(parseInline('[site](https://example.org) ![roof](ipfs://bafkreiabc)')).toEqual([
+      { type: 'link', href: 'https://example.org', children: [{ type: 'text', text: 'site' }] },
+      { type: 'text', text: ' ' },
+      { type: 'image', src: 'ipfs://bafkreiabc', alt: 'roof' },
+    ]);
+  });
+
+  it('drops URLs with unsafe schemes', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click)' }]);
+    expect(parseInline('![x](data:image/svg+xml,abc)')).toEqual([{ type: 'text', text: 'x' }]);
+  });
+
+  it('leaves HTML as text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([{ type: 'text', text: '<img src=x onerror=alert(1)>' }]);
+  });
+});
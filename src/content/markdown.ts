@@ -0,0 +1,166 @@
+/**
+ * A small Markdown subset parsed into a tree the UI renders as React
+ * elements. Raw HTML is never interpreted, and link and image URLs are
+ * limited to safe schemes, so untrusted documents can be shown as-is.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:'];
+const IMAGE_SCHEMES = ['http:', 'https:', 'ipfs:'];
+
+const safeUrl = (url: string, schemes: string[]): string | null => {
+  try {
+    return schemes.includes(new URL(url).protocol) ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }[] = [
+  { pattern: /^`([^`]+)`/, build: (m) => ({ type: 'code', text: m[1] }) },
+  {
+    pattern: /^!\[([^\]]*)\]\(\s*(\S+?)\s*\)/,
+    build: (m) => {
+      const src = safeUrl(m[2], IMAGE_SCHEMES);
+      return src ? { type: 'image', src, alt: m[1] } : { type: 'text', text: m[1] };
+    },
+  },
+  {
+    pattern: /^\[([^\]]+)\]\(\s*(\S+?)\s*\)/,
+    build: (m) => {
+      const href = safeUrl(m[2], LINK_SCHEMES);
+      // Links with a disallowed scheme keep only their text
+      return href ? { type: 'link', href, children: parseInline(m[1]) } : { type: 'text', text: m[1] };
+    },
+  },
+  { pattern: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, build: (m) => ({ type: 'strong', children: parseInline(m[2]) }) },
+  { pattern: /^(\*|_)(?=\S)([\s\S]*?\S)\1/, build: (m) => ({ type: 'em', children: parseInline(m[2]) }) },
+];
+
+// Characters that may start an inline rule
+const SPECIAL = /[`![*_]/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  let rest = text;
+  scan: while (rest.length > 0) {
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      if (match) {
+        nodes.push(rule.build(match));
+        rest = rest.slice(match[0].length);
+        continue scan;
+      }
+    }
+    // Plain text up to the next character that could open a rule
+    const next = rest.slice(1).search(SPECIAL);
+    const end = next === -1 ? rest.length : next + 1;
+    pushText(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  return nodes;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string) =>
+    line.trim() === '' ||
+    HEADING.test(line) ||
+    FENCE.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    UNORDERED_ITEM.test(line) ||
+    ORDERED_ITEM.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++; // closing fence
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(QUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const itemPattern = UNORDERED_ITEM.test(line) ? UNORDERED_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : null;
+    if (itemPattern) {
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '') {
+        const item = itemPattern.exec(lines[i]);
+        if (item) items.push(item[1]);
+        else if (startsBlock(lines[i])) break;
+        // Lazy continuation of the previous item
+        else items[items.length - 1] += `\n${lines[i].trim()}`;
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: itemPattern === ORDERED_ITEM, items: items.map(parseInline) });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,13 @@
+import { parseTags } from './updateTags';
+
+describe('parseTags', () => {
+  it('normalizes and de-duplicates tags', () => {
+    expect(parseTags(' Financial Report, milestone,, financial report ')).toEqual(['financial report', 'milestone']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('rejects tags the contract would refuse', () => {
+    expect(() => parseTags('a, b, c, d, e, f')).toThrow('at most 5');
+    expect(() => parseTags('x'.repeat(33))).toThrow('longer than 32');
+  });
+});
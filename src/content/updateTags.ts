@@ -0,0 +1,25 @@
+import { ethers } from 'ethers';
+
+// Mirrors the contract's MAX_UPDATE_TAGS and MAX_TAG_LENGTH (in bytes)
+export const MAX_UPDATE_TAGS = 5;
+export const MAX_TAG_LENGTH = 32;
+
+// Offered in the update form and the feed filter before any update uses them
+export const SUGGESTED_TAGS = ['financial report', 'milestone', 'announcement'];
+
+/**
+ * Turns comma-separated input into the tags stored on chain: trimmed,
+ * lowercased, without blanks or duplicates. Throws if the contract would
+ * reject them.
+ */
+export const parseTags = (input: string): string[] => {
+  const tags = Array.from(new Set(input.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_UPDATE_TAGS) {
+    throw new Error(`Use at most ${MAX_UPDATE_TAGS} tags.`);
+  }
+  const tooLong = tags.find((t) => ethers.toUtf8Bytes(t).length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    throw new Error(`Tag "${tooLong}" is longer than ${MAX_TAG_LENGTH} characters.`);
+  }
+  return tags;
+};
@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+import contractAbi from '../contractInfo.json';
+import {
+  CROWDFUNDING_FRAGMENTS,
+  CrowdfundingClient,
+  CrowdfundingContractError,
+  VOTE_TYPES,
+  decodeCrowdfundingError,
+  recoverVoteSigner,
+  voteDomain,
+} from './CrowdfundingClient';
+
+const abiFragments = () =>
+  new ethers.Interface(contractAbi).fragments.map((f) => f.format('minimal')).sort();
+
+test('client fragments match the deployed ABI', () => {
+  expect([...CROWDFUNDING_FRAGMENTS].sort()).toEqual(abiFragments());
+});
+
+test('decodes custom errors from revert data', () => {
+  const data = CrowdfundingClient.interface.encodeErrorResult('AlreadyVoted', []);
+  expect(decodeCrowdfundingError({ data })).toBe('AlreadyVoted');
+  expect(decodeCrowdfundingError({ revert: { name: 'FundraisingClosed' } })).toBe('FundraisingClosed');
+  expect(decodeCrowdfundingError(new CrowdfundingContractError('NotOwner', null))).toBe('NotOwner');
+  expect(decodeCrowdfundingError({ code: 'ACTION_REJECTED' })).toBeNull();
+  expect(decodeCrowdfundingError({ revert: { name: 'Error', args: ['Not yet'] } })).toBeNull();
+  expect(decodeCrowdfundingError({ info: { error: { data: { data } } } })).toBe('AlreadyVoted');
+});
+
+test('signed votes hash the way the contract does', async () => {
+  const wallet = new ethers.Wallet(ethers.id('voter'));
+  const campaign = '0x00000000000000000000000000000000000000cc';
+  const domain = voteDomain(11155111, campaign);
+  const value = { milestoneId: 2, round: 1, approve: true, nonce: 7n };
+  const signature = await wallet.signTypedData(domain, VOTE_TYPES, value);
+
+  expect(recoverVoteSigner(domain, { ...value, voter: wallet.address, signature })).toBe(wallet.address);
+
+  // Mirrors DOMAIN_SEPARATOR() and the struct hash built in _relayVote
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const domainSeparator = ethers.keccak256(coder.encode(
+    ['bytes32', 'bytes32', 'bytes32', 'uint256', 'address'],
+    [
+      ethers.id('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)'),
+      ethers.id('PhilanChain Crowdfunding'),
+      ethers.id('1'),
+      11155111,
+      campaign,
+    ]
+  ));
+  const structHash = ethers.keccak256(coder.encode(
+    ['bytes32', 'uint256', 'uint256', 'bool', 'uint256'],
+    [ethers.id('Vote(uint256 milestoneId,uint256 round,bool approve,uint256 nonce)'), 2, 1, true, 7]
+  ));
+  expect(ethers.TypedDataEncoder.hash(domain, VOTE_TYPES, value)).toBe(
+    ethers.keccak256(ethers.concat(['0x1901', domainSeparator, structHash]))
+  );
+});
@@ -0,0 +1,1022 @@
+import { ethers } from 'ethers';
+import contractAbi from '../contractInfo.json';
+import { sendWithPreflight } from '../transactions/preflight';
+import { findRevertData } from '../errors/revertData';
+import { FunctionArgs, FunctionFragment, FunctionName, FunctionReturn } from './abiTypes';
+
+// Every fragment of the deployed Crowdfunding ABI that this client is written
+// against. CrowdfundingClient.test.ts compares this list with contractInfo.json,
+// so regenerating the ABI without updating it fails the tests, and the client's
+// calls are type-checked against it (see abiTypes.ts).
+export const CROWDFUNDING_FRAGMENTS = [
+  'constructor()',
+  'receive() payable',
+
+  // Writes
+  'function initialize(uint256,uint256,address,uint256,uint256,address[],uint256[])',
+  'function donate() payable',
+  'function donateToken(address,uint256)',
+  'function donateTokenWithPermit(address,uint256,uint256,uint8,bytes32,bytes32)',
+  'function createMilestone(string,uint256,uint256,string,address)',
+  'function amendMilestone(uint256,string,string)',
+  'function cancelMilestone(uint256)',
+  'function resubmitMilestone(uint256,string,uint256)',
+  'function voteOnMilestone(uint256,bool)',
+  'function abstainOnMilestone(uint256)',
+  'function voteBySig((uint256,uint256,bool,address,uint256,uint8,bytes32,bytes32))',
+  'function castVotesBySig((uint256,uint256,bool,address,uint256,uint8,bytes32,bytes32)[])',
+  'function invalidateNonce(uint256)',
+  'function delegate(address)',
+  'function undelegate()',
+  'function finalizeMilestoneVote(uint256)',
+  'function releaseMilestoneFunds(uint256)',
+  'function postUpdate(string,string,string[])',
+  'function supersedeUpdate(uint256,string,string,string[])',
+  'function pinUpdate(uint256)',
+  'function unpinUpdate()',
+  'function withdraw()',
+  'function refund()',
+  'function withdrawToken(address)',
+  'function refundToken(address)',
+  'function endCampaign()',
+
+  // Views
+  'function owner() view returns (address)',
+  'function fundraisingGoal() view returns (uint256)',
+  'function totalDonations() view returns (uint256)',
+  'function deadline() view returns (uint256)',
+  'function deploymentBlock() view returns (uint256)',
+  'function quorumBps() view returns (uint256)',
+  'function approvalThresholdBps() view returns (uint256)',
+  'function campaignActive() view returns (bool)',
+  'function committedFunds(address) view returns (uint256)',
+  'function availableFunds(address) view returns (uint256)',
+  'function donations(address) view returns (uint256)',
+  'function MAX_ACCEPTED_TOKENS() view returns (uint256)',
+  'function getAcceptedTokens() view returns (address[])',
+  'function isAcceptedToken(address) view returns (bool)',
+  'function tokenDonations(address,address) view returns (uint256)',
+  'function tokenTotals(address) view returns (uint256)',
+  'function tokenGoals(address) view returns (uint256)',
+  'function pinnedUpdate() view returns (uint256)',
+  'function MAX_UPDATE_TAGS() view returns (uint256)',
+  'function MAX_TAG_LENGTH() view returns (uint256)',
+  'function hasVoted(uint256,address) view returns (bool)',
+  'function progressPercentage() view returns (uint256)',
+  'function fundedBps() view returns (uint256)',
+  'function goalReached() view returns (bool)',
+  'function timeRemaining() view returns (uint256)',
+  'function getMilestoneCount() view returns (uint256)',
+  'function getUpdateCount() view returns (uint256)',
+  'function getMilestone(uint256) view returns ((string,uint256,uint256,uint256,uint256,bool,bool,bool,uint256,uint256,uint256,string,uint256,bool,address))',
+  'function getUpdate(uint256) view returns ((string,string,uint256,string[],uint256,uint256))',
+  'function getMilestones(uint256,uint256) view returns ((string,uint256,uint256,uint256,uint256,bool,bool,bool,uint256,uint256,uint256,string,uint256,bool,address)[])',
+  'function getUpdates(uint256,uint256) view returns ((string,string,uint256,string[],uint256,uint256)[])',
+  'function hasUserVoted(uint256,address) view returns (bool)',
+  'function getMilestoneVotePercentage(uint256) view returns (uint256)',
+  'function getVotingPower(uint256,address) view returns (uint256)',
+  'function getDonationsAt(address,uint256) view returns (uint256)',
+  'function VOTE_TYPEHASH() view returns (bytes32)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function usedNonces(address,uint256) view returns (bool)',
+  'function delegates(address) view returns (address)',
+  'function votingDelegate(address) view returns (address)',
+  'function getVotes(address) view returns (uint256)',
+  'function getTokenVotes(address,address) view returns (uint256)',
+
+  // Events
+  'event DonationReceived(address indexed,uint256)',
+  'event FundsWithdrawn(uint256)',
+  'event MilestoneCreated(uint256 indexed,string,uint256,address indexed)',
+  'event MilestoneRoundOpened(uint256 indexed,uint256,string,uint256)',
+  'event MilestoneAmended(uint256 indexed,string,string)',
+  'event MilestoneCancelled(uint256 indexed)',
+  'event VoteCast(uint256 indexed,address indexed,bool,uint256)',
+  'event VoteAbstained(uint256 indexed,address indexed,uint256)',
+  'event MilestoneApproved(uint256 indexed)',
+  'event MilestoneRejected(uint256 indexed)',
+  'event MilestoneQuorumNotMet(uint256 indexed,uint256,uint256)',
+  'event MilestoneFundsReleased(uint256 indexed,uint256,address indexed)',
+  'event CampaignUpdatePosted(uint256 indexed,string,uint256)',
+  'event UpdateSuperseded(uint256 indexed,uint256 indexed)',
+  'event UpdatePinned(uint256 indexed)',
+  'event UpdateUnpinned(uint256 indexed)',
+  'event RefundIssued(address indexed,uint256)',
+  'event TokenDonationReceived(address indexed,address indexed,uint256)',
+  'event TokenRefundIssued(address indexed,address indexed,uint256)',
+  'event TokenFundsWithdrawn(address indexed,uint256)',
+  'event NonceInvalidated(address indexed,uint256)',
+  'event DelegateChanged(address indexed,address indexed,address indexed)',
+
+  // Errors
+  'error UseDonateFunction()',
+  'error NotOwner()',
+  'error FundraisingClosed()',
+  'error InvalidDonationAmount()',
+  'error NoFundsToWithdraw()',
+  'error TransferFailed()',
+  'error RefundNotAvailable()',
+  'error NoDonationToRefund()',
+  'error WithdrawalNotAvailable()',
+  'error InvalidMilestone()',
+  'error InsufficientContractBalance()',
+  'error VotingNotActive()',
+  'error VotingPeriodNotEnded()',
+  'error AlreadyVoted()',
+  'error MilestoneNotApproved()',
+  'error FundsAlreadyReleased()',
+  'error InvalidMilestoneAmount()',
+  'error EmptyDescription()',
+  'error VotingStillActive()',
+  'error NoVotingPower()',
+  'error InvalidSignature()',
+  'error NonceAlreadyUsed()',
+  'error InvalidDelegate()',
+  'error MilestoneHasVotes()',
+  'error MilestoneNotResubmittable()',
+  'error ExceedsUnallocatedFunds()',
+  'error InvalidUpdate()',
+  'error UpdateAlreadySuperseded()',
+  'error InvalidTags()',
+  'error TokenNotAccepted()',
+  'error AlreadyInitialized()',
+] as const;
+
+type ErrorFragmentName<F> = F extends `error ${infer Name}()` ? Name : never;
+
+// Names of the contract's custom errors, derived from the fragment list above
+export type CrowdfundingErrorName = ErrorFragmentName<typeof CROWDFUNDING_FRAGMENTS[number]>;
+
+type CrowdfundingFunction = FunctionName<typeof CROWDFUNDING_FRAGMENTS[number]>;
+type CrowdfundingFragment<M extends string> = FunctionFragment<typeof CROWDFUNDING_FRAGMENTS[number], M>;
+
+export interface Milestone {
+  id: number;
+  description: string;
+  fundAmount: bigint;
+  voteDeadline: bigint;
+  yesVotes: bigint;
+  noVotes: bigint;
+  approved: boolean;
+  fundsReleased: boolean;
+  votingActive: boolean;
+  // Votes are weighted by donations as of this block
+  snapshotBlock: number;
+  abstainVotes: bigint;
+  // Turnout (yes + no + abstain) needed for the decision to count
+  quorumVotes: bigint;
+  // Proof of completion for the current round: IPFS hash or direct content
+  evidence: string;
+  // Current voting round, starting at 1; votes and tallies above are for this round
+  round: number;
+  cancelled: boolean;
+  // ERC-20 token the milestone pays out, null for ETH
+  token: string | null;
+}
+
+// A vote signed off-chain with EIP-712, relayable by anyone via voteBySig
+export interface SignedVote {
+  milestoneId: number;
+  // Voting round the vote was signed for; it cannot count in a later round
+  round: number;
+  approve: boolean;
+  voter: string;
+  nonce: bigint;
+  signature: string;
+}
+
+// EIP-712 types of a signed vote, matching the contract's VOTE_TYPEHASH
+export const VOTE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Vote: [
+    { name: 'milestoneId', type: 'uint256' },
+    { name: 'round', type: 'uint256' },
+    { name: 'approve', type: 'bool' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+// EIP-712 domain of a campaign's signed votes, matching its DOMAIN_SEPARATOR()
+export const voteDomain = (chainId: bigint | number, campaign: string): ethers.TypedDataDomain => ({
+  name: 'PhilanChain Crowdfunding',
+  version: '1',
+  chainId,
+  verifyingContract: campaign,
+});
+
+// Address that produced a signed vote's signature under `domain`
+export const recoverVoteSigner = (domain: ethers.TypedDataDomain, vote: SignedVote): string =>
+  ethers.verifyTypedData(
+    domain,
+    VOTE_TYPES,
+    { milestoneId: vote.milestoneId, round: vote.round, approve: vote.approve, nonce: vote.nonce },
+    vote.signature
+  );
+
+export interface CampaignUpdate {
+  id: number;
+  title: string;
+  contentHash: string;
+  timestamp: bigint;
+  tags: string[];
+  // Earlier version this update corrects, if any
+  supersedes: number | null;
+  // Newer version that replaced this one, null while it is current
+  supersededBy: number | null;
+}
+
+// Where a decoded event came from on chain
+export interface EventLocation {
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface DonationEvent extends EventLocation {
+  donor: string;
+  amount: bigint;
+}
+
+export interface FundsWithdrawnEvent extends EventLocation {
+  amount: bigint;
+}
+
+export interface MilestoneCreatedEvent extends EventLocation {
+  milestoneId: number;
+  description: string;
+  fundAmount: bigint;
+  token: string | null;
+}
+
+export interface MilestoneRoundOpenedEvent extends EventLocation {
+  milestoneId: number;
+  round: number;
+  evidence: string;
+  voteDeadline: bigint;
+}
+
+export interface MilestoneAmendedEvent extends EventLocation {
+  milestoneId: number;
+  description: string;
+  evidence: string;
+}
+
+export interface VoteCastEvent extends EventLocation {
+  milestoneId: number;
+  voter: string;
+  vote: boolean;
+  weight: bigint;
+}
+
+export interface VoteAbstainedEvent extends EventLocation {
+  milestoneId: number;
+  voter: string;
+  weight: bigint;
+}
+
+// A donor's recorded ballot on a milestone: a yes/no vote or an abstention
+export type BallotEvent = VoteCastEvent | VoteAbstainedEvent;
+
+export interface MilestoneDecisionEvent extends EventLocation {
+  milestoneId: number;
+}
+
+export interface MilestoneQuorumNotMetEvent extends EventLocation {
+  milestoneId: number;
+  turnout: bigint;
+  quorumVotes: bigint;
+}
+
+export interface NonceInvalidatedEvent extends EventLocation {
+  voter: string;
+  nonce: bigint;
+}
+
+// `toDelegate` equals `delegator` when the donor takes their voting power back
+export interface DelegateChangedEvent extends EventLocation {
+  delegator: string;
+  fromDelegate: string;
+  toDelegate: string;
+}
+
+export interface MilestoneFundsReleasedEvent extends EventLocation {
+  milestoneId: number;
+  amount: bigint;
+  token: string | null;
+}
+
+export interface CampaignUpdatePostedEvent extends EventLocation {
+  updateId: number;
+  title: string;
+  timestamp: bigint;
+}
+
+export interface UpdateSupersededEvent extends EventLocation {
+  updateId: number;
+  newUpdateId: number;
+}
+
+export interface UpdatePinEvent extends EventLocation {
+  updateId: number;
+}
+
+export interface RefundIssuedEvent extends EventLocation {
+  donor: string;
+  amount: bigint;
+}
+
+export interface TokenDonationEvent extends EventLocation {
+  donor: string;
+  token: string;
+  amount: bigint;
+}
+
+export interface TokenFundsWithdrawnEvent extends EventLocation {
+  token: string;
+  amount: bigint;
+}
+
+export interface CrowdfundingEventMap {
+  DonationReceived: DonationEvent;
+  FundsWithdrawn: FundsWithdrawnEvent;
+  MilestoneCreated: MilestoneCreatedEvent;
+  MilestoneRoundOpened: MilestoneRoundOpenedEvent;
+  MilestoneAmended: MilestoneAmendedEvent;
+  MilestoneCancelled: MilestoneDecisionEvent;
+  VoteCast: VoteCastEvent;
+  MilestoneApproved: MilestoneDecisionEvent;
+  MilestoneRejected: MilestoneDecisionEvent;
+  MilestoneQuorumNotMet: MilestoneQuorumNotMetEvent;
+  VoteAbstained: VoteAbstainedEvent;
+  MilestoneFundsReleased: MilestoneFundsReleasedEvent;
+  CampaignUpdatePosted: CampaignUpdatePostedEvent;
+  UpdateSuperseded: UpdateSupersededEvent;
+  UpdatePinned: UpdatePinEvent;
+  UpdateUnpinned: UpdatePinEvent;
+  RefundIssued: RefundIssuedEvent;
+  TokenDonationReceived: TokenDonationEvent;
+  TokenRefundIssued: TokenDonationEvent;
+  TokenFundsWithdrawn: TokenFundsWithdrawnEvent;
+  NonceInvalidated: NonceInvalidatedEvent;
+  DelegateChanged: DelegateChangedEvent;
+}
+
+export type CrowdfundingEventName = keyof CrowdfundingEventMap;
+
+// Any decoded contract event, tagged with its name
+export type CrowdfundingEventRecord = {
+  [K in CrowdfundingEventName]: { name: K } & CrowdfundingEventMap[K];
+}[CrowdfundingEventName];
+
+// The contract names ETH as the zero address wherever an asset is expected
+const toAssetAddress = (token: string | null): string => token ?? ethers.ZeroAddress;
+const fromAssetAddress = (asset: string): string | null => (asset === ethers.ZeroAddress ? null : asset);
+
+const locate = (log: ethers.EventLog): EventLocation => ({
+  txHash: log.transactionHash,
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+});
+
+const eventDecoders: { [K in CrowdfundingEventName]: (log: ethers.EventLog) => CrowdfundingEventMap[K] } = {
+  DonationReceived: (log) => ({ ...locate(log), donor: log.args.donor, amount: log.args.amount }),
+  FundsWithdrawn: (log) => ({ ...locate(log), amount: log.args.amount }),
+  MilestoneCreated: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    description: log.args.description,
+    fundAmount: log.args.fundAmount,
+    token: fromAssetAddress(log.args.token),
+  }),
+  MilestoneRoundOpened: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    round: Number(log.args.round),
+    evidence: log.args.evidence,
+    voteDeadline: log.args.voteDeadline,
+  }),
+  MilestoneAmended: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    description: log.args.description,
+    evidence: log.args.evidence,
+  }),
+  MilestoneCancelled: (log) => ({ ...locate(log), milestoneId: Number(log.args.milestoneId) }),
+  VoteCast: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    voter: log.args.voter,
+    vote: log.args.vote,
+    weight: log.args.weight,
+  }),
+  MilestoneApproved: (log) => ({ ...locate(log), milestoneId: Number(log.args.milestoneId) }),
+  MilestoneRejected: (log) => ({ ...locate(log), milestoneId: Number(log.args.milestoneId) }),
+  MilestoneQuorumNotMet: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    turnout: log.args.turnout,
+    quorumVotes: log.args.quorumVotes,
+  }),
+  VoteAbstained: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    voter: log.args.voter,
+    weight: log.args.weight,
+  }),
+  MilestoneFundsReleased: (log) => ({
+    ...locate(log),
+    milestoneId: Number(log.args.milestoneId),
+    amount: log.args.amount,
+    token: fromAssetAddress(log.args.token),
+  }),
+  CampaignUpdatePosted: (log) => ({
+    ...locate(log),
+    updateId: Number(log.args.updateId),
+    title: log.args.title,
+    timestamp: log.args.timestamp,
+  }),
+  UpdateSuperseded: (log) => ({
+    ...locate(log),
+    updateId: Number(log.args.updateId),
+    newUpdateId: Number(log.args.newUpdateId),
+  }),
+  UpdatePinned: (log) => ({ ...locate(log), updateId: Number(log.args.updateId) }),
+  UpdateUnpinned: (log) => ({ ...locate(log), updateId: Number(log.args.updateId) }),
+  RefundIssued: (log) => ({ ...locate(log), donor: log.args.donor, amount: log.args.amount }),
+  TokenDonationReceived: (log) => ({
+    ...locate(log),
+    donor: log.args.donor,
+    token: log.args.token,
+    amount: log.args.amount,
+  }),
+  TokenRefundIssued: (log) => ({
+    ...locate(log),
+    donor: log.args.donor,
+    token: log.args.token,
+    amount: log.args.amount,
+  }),
+  TokenFundsWithdrawn: (log) => ({ ...locate(log), token: log.args.token, amount: log.args.amount }),
+  NonceInvalidated: (log) => ({ ...locate(log), voter: log.args.voter, nonce: log.args.nonce }),
+  DelegateChanged: (log) => ({
+    ...locate(log),
+    delegator: log.args.delegator,
+    fromDelegate: log.args.fromDelegate,
+    toDelegate: log.args.toDelegate,
+  }),
+};
+
+/**
+ * A custom error reverted by the Crowdfunding contract, decoded from the
+ * revert data of a failed call or transaction.
+ */
+export class CrowdfundingContractError extends Error {
+  readonly errorName: CrowdfundingErrorName;
+  readonly cause: unknown;
+
+  constructor(errorName: CrowdfundingErrorName, cause: unknown) {
+    super(`Contract reverted with ${errorName}()`);
+    this.name = 'CrowdfundingContractError';
+    this.errorName = errorName;
+    this.cause = cause;
+  }
+}
+
+const crowdfundingInterface = new ethers.Interface(contractAbi);
+
+// Ethers also names Error(string) and Panic reverts, which are not custom errors
+const crowdfundingErrorNames = new Set(crowdfundingInterface.fragments.filter(ethers.ErrorFragment.isFragment).map((f) => f.name));
+
+/**
+ * Returns the name of the Crowdfunding custom error carried by `err`, or null
+ * if the error is not a decodable revert (user rejection, RPC failure, ...).
+ */
+export const decodeCrowdfundingError = (err: unknown): CrowdfundingErrorName | null => {
+  if (err instanceof CrowdfundingContractError) return err.errorName;
+
+  const e = err as { revert?: { name?: string } | null };
+  const data = findRevertData(err);
+  const name = e?.revert?.name ?? (data ? crowdfundingInterface.parseError(data)?.name : null);
+  return name && crowdfundingErrorNames.has(name) ? (name as CrowdfundingErrorName) : null;
+};
+
+// Rethrows contract reverts as CrowdfundingContractError, anything else as is
+const rethrowDecoded = (err: unknown): never => {
+  const errorName = decodeCrowdfundingError(err);
+  if (errorName) throw new CrowdfundingContractError(errorName, err);
+  throw err;
+};
+
+/**
+ * Typed wrapper around the Crowdfunding contract. Components go through this
+ * client instead of calling an untyped ethers.Contract directly.
+ */
+export class CrowdfundingClient {
+  static readonly interface = crowdfundingInterface;
+
+  readonly address: string;
+  readonly provider: ethers.Provider;
+  // Reads and event subscriptions always go through the provider
+  private readonly contract: ethers.Contract;
+  // Only set while a wallet is connected
+  private writer: ethers.Contract | null = null;
+  private signer: ethers.Signer | null = null;
+
+  constructor(address: string, provider: ethers.Provider, signer?: ethers.Signer | null) {
+    this.address = address;
+    this.provider = provider;
+    this.contract = new ethers.Contract(address, crowdfundingInterface, provider);
+    this.attachSigner(signer ?? null);
+  }
+
+  /**
+   * Upgrades this client to send transactions from `signer`, or back to
+   * read-only with null. Existing subscriptions are left untouched.
+   */
+  attachSigner(signer: ethers.Signer | null): void {
+    this.writer = signer ? new ethers.Contract(this.address, crowdfundingInterface, signer) : null;
+    this.signer = signer;
+  }
+
+  get canWrite(): boolean {
+    return this.writer !== null;
+  }
+
+  // ============ Views ============
+
+  owner(): Promise<string> {
+    return this.call('owner');
+  }
+
+  fundraisingGoal(): Promise<bigint> {
+    return this.call('fundraisingGoal');
+  }
+
+  totalDonations(): Promise<bigint> {
+    return this.call('totalDonations');
+  }
+
+  async deploymentBlock(): Promise<number> {
+    return Number(await this.call('deploymentBlock'));
+  }
+
+  // Basis points of total donations that must vote on a milestone
+  async quorumBps(): Promise<number> {
+    return Number(await this.call('quorumBps'));
+  }
+
+  // Basis points of yes + no votes that must be yes to approve a milestone
+  async approvalThresholdBps(): Promise<number> {
+    return Number(await this.call('approvalThresholdBps'));
+  }
+
+  deadline(): Promise<bigint> {
+    return this.call('deadline');
+  }
+
+  campaignActive(): Promise<boolean> {
+    return this.call('campaignActive');
+  }
+
+  // Milestone amounts reserved while voting or approved but unpaid, in ETH or `token`
+  committedFunds(token: string | null = null): Promise<bigint> {
+    return this.call('committedFunds', toAssetAddress(token));
+  }
+
+  // Balance above committedFunds, usable for new milestones or withdrawal
+  availableFunds(token: string | null = null): Promise<bigint> {
+    return this.call('availableFunds', toAssetAddress(token));
+  }
+
+  // ERC-20 tokens the campaign accepts besides ETH
+  async getAcceptedTokens(): Promise<string[]> {
+    return [...(await this.call('getAcceptedTokens'))];
+  }
+
+  tokenDonations(token: string, donor: string): Promise<bigint> {
+    return this.call('tokenDonations', token, donor);
+  }
+
+  tokenTotals(token: string): Promise<bigint> {
+    return this.call('tokenTotals', token);
+  }
+
+  // Goal of an accepted token, in its smallest unit
+  tokenGoals(token: string): Promise<bigint> {
+    return this.call('tokenGoals', token);
+  }
+
+  donations(donor: string): Promise<bigint> {
+    return this.call('donations', donor);
+  }
+
+  hasVoted(milestoneId: number, voter: string): Promise<boolean> {
+    return this.call('hasVoted', milestoneId, voter);
+  }
+
+  hasUserVoted(milestoneId: number, voter: string): Promise<boolean> {
+    return this.call('hasUserVoted', milestoneId, voter);
+  }
+
+  progressPercentage(): Promise<bigint> {
+    return this.call('progressPercentage');
+  }
+
+  // Each asset's share of its own goal, added up, in basis points
+  fundedBps(): Promise<bigint> {
+    return this.call('fundedBps');
+  }
+
+  // Funded across ETH and tokens: withdrawals open early and refunds never do
+  goalReached(): Promise<boolean> {
+    return this.call('goalReached');
+  }
+
+  timeRemaining(): Promise<bigint> {
+    return this.call('timeRemaining');
+  }
+
+  async getMilestoneCount(): Promise<number> {
+    return Number(await this.call('getMilestoneCount'));
+  }
+
+  async getUpdateCount(): Promise<number> {
+    return Number(await this.call('getUpdateCount'));
+  }
+
+  async getMilestone(milestoneId: number): Promise<Milestone> {
+    return toMilestone(milestoneId, await this.call('getMilestone', milestoneId));
+  }
+
+  async getUpdate(updateId: number): Promise<CampaignUpdate> {
+    return toCampaignUpdate(updateId, await this.call('getUpdate', updateId));
+  }
+
+  // ID of the pinned update, or null when nothing is pinned
+  async pinnedUpdate(): Promise<number | null> {
+    return fromUpdateLink(await this.call('pinnedUpdate'));
+  }
+
+  /**
+   * Loads up to `limit` milestones starting at `offset` in a single call.
+   * The page is clamped to the milestone count, so it may be shorter.
+   */
+  async getMilestones(offset: number, limit: number): Promise<Milestone[]> {
+    const page = await this.call('getMilestones', offset, limit);
+    return page.map((m: ethers.Result, i: number) => toMilestone(offset + i, m));
+  }
+
+  /**
+   * Loads up to `limit` updates starting at `offset` in a single call.
+   * The page is clamped to the update count, so it may be shorter.
+   */
+  async getUpdates(offset: number, limit: number): Promise<CampaignUpdate[]> {
+    const page = await this.call('getUpdates', offset, limit);
+    return page.map((u: ethers.Result, i: number) => toCampaignUpdate(offset + i, u));
+  }
+
+  getMilestoneVotePercentage(milestoneId: number): Promise<bigint> {
+    return this.call('getMilestoneVotePercentage', milestoneId);
+  }
+
+  // Address a donor has delegated to, or the zero address if they vote themselves
+  delegates(donor: string): Promise<string> {
+    return this.call('delegates', donor);
+  }
+
+  // Current voting power of an account on ETH milestones: own donations unless delegated, plus delegated ones
+  getVotes(account: string): Promise<bigint> {
+    return this.call('getVotes', account);
+  }
+
+  // Current voting power of an account on milestones paying out `token` (null for ETH)
+  getTokenVotes(token: string | null, account: string): Promise<bigint> {
+    return this.call('getTokenVotes', toAssetAddress(token), account);
+  }
+
+  // Weight `voter` would vote with on a milestone (own plus delegated), fixed at its snapshot block
+  getVotingPower(milestoneId: number, voter: string): Promise<bigint> {
+    return this.call('getVotingPower', milestoneId, voter);
+  }
+
+  getDonationsAt(donor: string, blockNumber: number): Promise<bigint> {
+    return this.call('getDonationsAt', donor, blockNumber);
+  }
+
+  // Whether `voter` has spent or revoked a signed-vote nonce
+  isNonceUsed(voter: string, nonce: bigint): Promise<boolean> {
+    return this.call('usedNonces', voter, nonce);
+  }
+
+  // EIP-712 domain for this campaign on the provider's chain
+  async voteDomain(): Promise<ethers.TypedDataDomain> {
+    const { chainId } = await this.provider.getNetwork();
+    return voteDomain(chainId, this.address);
+  }
+
+  // ETH currently held by the contract (not a contract function)
+  getBalance(): Promise<bigint> {
+    return this.provider.getBalance(this.address);
+  }
+
+  // ============ Writes ============
+
+  donate(amount: bigint): Promise<ethers.ContractTransactionResponse> {
+    return this.send('donate', { value: amount });
+  }
+
+  // Needs an ERC-20 allowance of at least `amount` for this campaign
+  donateToken(token: string, amount: bigint): Promise<ethers.ContractTransactionResponse> {
+    return this.send('donateToken', token, amount);
+  }
+
+  /**
+   * Donates an EIP-2612 token in a single transaction, using a permit signed
+   * with Erc20Client.signPermit instead of a prior approve().
+   */
+  donateTokenWithPermit(
+    token: string,
+    amount: bigint,
+    deadline: bigint,
+    signature: string
+  ): Promise<ethers.ContractTransactionResponse> {
+    const { v, r, s } = ethers.Signature.from(signature);
+    return this.send('donateTokenWithPermit', token, amount, deadline, v, r, s);
+  }
+
+  // `token` is the ERC-20 the milestone pays out, null for ETH
+  createMilestone(
+    description: string,
+    fundAmount: bigint,
+    votingDurationDays: number,
+    evidence = '',
+    token: string | null = null
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('createMilestone', description, fundAmount, votingDurationDays, evidence, toAssetAddress(token));
+  }
+
+  // Only allowed while the current round has no votes
+  amendMilestone(milestoneId: number, description: string, evidence: string): Promise<ethers.ContractTransactionResponse> {
+    return this.send('amendMilestone', milestoneId, description, evidence);
+  }
+
+  // Only allowed while the current round has no votes
+  cancelMilestone(milestoneId: number): Promise<ethers.ContractTransactionResponse> {
+    return this.send('cancelMilestone', milestoneId);
+  }
+
+  // Opens a new voting round for a rejected or quorum-failed milestone
+  resubmitMilestone(
+    milestoneId: number,
+    evidence: string,
+    votingDurationDays: number
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('resubmitMilestone', milestoneId, evidence, votingDurationDays);
+  }
+
+  voteOnMilestone(milestoneId: number, approve: boolean): Promise<ethers.ContractTransactionResponse> {
+    return this.send('voteOnMilestone', milestoneId, approve);
+  }
+
+  abstainOnMilestone(milestoneId: number): Promise<ethers.ContractTransactionResponse> {
+    return this.send('abstainOnMilestone', milestoneId);
+  }
+
+  /**
+   * Signs a vote off-chain with the connected wallet. Costs no gas; the vote
+   * only counts once someone relays it with voteBySig or castVotesBySig.
+   * Nonces are unordered, so a random one is used unless given. The vote is
+   * simulated as a direct vote from the signer first, so a vote that could
+   * never count fails before the wallet asks for a signature.
+   */
+  async signVote(
+    milestoneId: number,
+    round: number,
+    approve: boolean,
+    nonce: bigint = BigInt(ethers.hexlify(ethers.randomBytes(16)))
+  ): Promise<SignedVote> {
+    if (!this.signer) throw new Error('Connect a wallet to sign votes');
+    const voter = await this.signer.getAddress();
+    await this.call('voteOnMilestone', milestoneId, approve, { from: voter });
+    const signature = await this.signer.signTypedData(
+      await this.voteDomain(),
+      VOTE_TYPES,
+      { milestoneId, round, approve, nonce }
+    );
+    return { milestoneId, round, approve, voter, nonce, signature };
+  }
+
+  /**
+   * Signs off-chain EIP-712 data, such as a comment, with the connected
+   * wallet and returns the signer's address alongside the signature.
+   */
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<{ signer: string; signature: string }> {
+    if (!this.signer) throw new Error('Connect a wallet to sign messages');
+    const signer = await this.signer.getAddress();
+    return { signer, signature: await this.signer.signTypedData(domain, types, value) };
+  }
+
+  voteBySig(vote: SignedVote): Promise<ethers.ContractTransactionResponse> {
+    return this.send('voteBySig', toSignedVoteTuple(vote));
+  }
+
+  // Relays several signed votes in one transaction; one invalid vote reverts all
+  castVotesBySig(votes: SignedVote[]): Promise<ethers.ContractTransactionResponse> {
+    return this.send('castVotesBySig', votes.map(toSignedVoteTuple));
+  }
+
+  delegate(delegatee: string): Promise<ethers.ContractTransactionResponse> {
+    return this.send('delegate', delegatee);
+  }
+
+  undelegate(): Promise<ethers.ContractTransactionResponse> {
+    return this.send('undelegate');
+  }
+
+  // Revokes a signed vote of the connected account before it is relayed
+  invalidateNonce(nonce: bigint): Promise<ethers.ContractTransactionResponse> {
+    return this.send('invalidateNonce', nonce);
+  }
+
+  finalizeMilestoneVote(milestoneId: number): Promise<ethers.ContractTransactionResponse> {
+    return this.send('finalizeMilestoneVote', milestoneId);
+  }
+
+  releaseMilestoneFunds(milestoneId: number): Promise<ethers.ContractTransactionResponse> {
+    return this.send('releaseMilestoneFunds', milestoneId);
+  }
+
+  postUpdate(title: string, contentHash: string, tags: string[] = []): Promise<ethers.ContractTransactionResponse> {
+    return this.send('postUpdate', title, contentHash, tags);
+  }
+
+  // Posts a corrected version of a current update; the old one stays as history
+  supersedeUpdate(
+    updateId: number,
+    title: string,
+    contentHash: string,
+    tags: string[]
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send('supersedeUpdate', updateId, title, contentHash, tags);
+  }
+
+  pinUpdate(updateId: number): Promise<ethers.ContractTransactionResponse> {
+    return this.send('pinUpdate', updateId);
+  }
+
+  unpinUpdate(): Promise<ethers.ContractTransactionResponse> {
+    return this.send('unpinUpdate');
+  }
+
+  withdraw(): Promise<ethers.ContractTransactionResponse> {
+    return this.send('withdraw');
+  }
+
+  refund(): Promise<ethers.ContractTransactionResponse> {
+    return this.send('refund');
+  }
+
+  withdrawToken(token: string): Promise<ethers.ContractTransactionResponse> {
+    return this.send('withdrawToken', token);
+  }
+
+  refundToken(token: string): Promise<ethers.ContractTransactionResponse> {
+    return this.send('refundToken', token);
+  }
+
+  endCampaign(): Promise<ethers.ContractTransactionResponse> {
+    return this.send('endCampaign');
+  }
+
+  // ============ Events ============
+
+  /**
+   * Fetches and decodes past events in the given block range (defaults to the
+   * whole chain).
+   */
+  async queryEvents<K extends CrowdfundingEventName>(
+    eventName: K,
+    fromBlock?: ethers.BlockTag,
+    toBlock?: ethers.BlockTag
+  ): Promise<CrowdfundingEventMap[K][]> {
+    const logs = await this.contract.queryFilter(eventName, fromBlock, toBlock);
+    return logs
+      .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+      .map((log) => eventDecoders[eventName](log) as CrowdfundingEventMap[K]);
+  }
+
+  /**
+   * Fetches and decodes every contract event in the given block range with a
+   * single eth_getLogs call, in chain order.
+   */
+  async queryAllEvents(fromBlock: number, toBlock: number): Promise<CrowdfundingEventRecord[]> {
+    const logs = await this.contract.queryFilter('*', fromBlock, toBlock);
+    return logs
+      .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog && log.eventName in eventDecoders)
+      .map((log) => {
+        const name = log.eventName as CrowdfundingEventName;
+        return { name, ...eventDecoders[name](log) } as CrowdfundingEventRecord;
+      })
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Subscribes to a contract event. Returns a function that removes exactly
+   * the listener registered by this call.
+   */
+  on<K extends CrowdfundingEventName>(
+    eventName: K,
+    listener: (event: CrowdfundingEventMap[K]) => void
+  ): () => void {
+    const handler = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      listener(eventDecoders[eventName](payload.log) as CrowdfundingEventMap[K]);
+    };
+    this.contract.on(eventName, handler);
+    return () => {
+      this.contract.off(eventName, handler);
+    };
+  }
+
+  /**
+   * Subscribes to every contract event. `removed` is true when the provider
+   * reports that a previously delivered log was dropped by a reorg. Returns a
+   * function that removes exactly the listener registered by this call.
+   */
+  onAny(listener: (event: CrowdfundingEventRecord, removed: boolean) => void): () => void {
+    const handler = (payload: ethers.ContractEventPayload) => {
+      const log = payload.log;
+      if (!(log instanceof ethers.EventLog) || !(log.eventName in eventDecoders)) return;
+      const name = log.eventName as CrowdfundingEventName;
+      listener({ name, ...eventDecoders[name](log) } as CrowdfundingEventRecord, log.removed);
+    };
+    this.contract.on('*', handler);
+    return () => {
+      this.contract.off('*', handler);
+    };
+  }
+
+  // ============ Internals ============
+
+  private async call<M extends CrowdfundingFunction>(
+    method: M,
+    ...args: FunctionArgs<CrowdfundingFragment<M>>
+  ): Promise<FunctionReturn<CrowdfundingFragment<M>>> {
+    try {
+      return await this.contract.getFunction(method).staticCall(...args);
+    } catch (err) {
+      return rethrowDecoded(err);
+    }
+  }
+
+  private async send<M extends CrowdfundingFunction>(
+    method: M,
+    ...args: FunctionArgs<CrowdfundingFragment<M>>
+  ): Promise<ethers.ContractTransactionResponse> {
+    if (!this.writer) throw new Error('Connect a wallet to send transactions');
+    try {
+      return await sendWithPreflight(this.writer.getFunction(method), args);
+    } catch (err) {
+      return rethrowDecoded(err);
+    }
+  }
+}
+
+const toMilestone = (id: number, m: ethers.Result): Milestone => ({
+  id,
+  description: m.description,
+  fundAmount: m.fundAmount,
+  voteDeadline: m.voteDeadline,
+  yesVotes: m.yesVotes,
+  noVotes: m.noVotes,
+  approved: m.approved,
+  fundsReleased: m.fundsReleased,
+  votingActive: m.votingActive,
+  snapshotBlock: Number(m.snapshotBlock),
+  abstainVotes: m.abstainVotes,
+  quorumVotes: m.quorumVotes,
+  evidence: m.evidence,
+  round: Number(m.round),
+  cancelled: m.cancelled,
+  token: fromAssetAddress(m.token),
+});
+
+const toSignedVoteTuple = (vote: SignedVote) => {
+  const { v, r, s } = ethers.Signature.from(vote.signature);
+  return [vote.milestoneId, vote.round, vote.approve, vote.voter, vote.nonce, v, r, s] as const;
+};
+
+// The contract stores update links as ID + 1, with 0 meaning none
+const fromUpdateLink = (link: bigint): number | null => (link === 0n ? null : Number(link) - 1);
+
+const toCampaignUpdate = (id: number, u: ethers.Result): CampaignUpdate => ({
+  id,
+  title: u.title,
+  contentHash: u.contentHash,
+  timestamp: u.timestamp,
+  tags: [...u.tags],
+  supersedes: fromUpdateLink(u.supersedes),
+  supersededBy: fromUpdateLink(u.supersededBy),
+});
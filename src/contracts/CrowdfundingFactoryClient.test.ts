@@ -0,0 +1,8 @@
+import { ethers } from 'ethers';
+import factoryAbi from '../factoryInfo.json';
+import { CROWDFUNDING_FACTORY_FRAGMENTS } from './CrowdfundingFactoryClient';
+
+test('factory client fragments match the deployed ABI', () => {
+  const abiFragments = new ethers.Interface(factoryAbi).fragments.map((f) => f.format('minimal')).sort();
+  expect([...CROWDFUNDING_FACTORY_FRAGMENTS].sort()).toEqual(abiFragments);
+});
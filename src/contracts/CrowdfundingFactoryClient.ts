@@ -0,0 +1,249 @@
+import { ethers } from 'ethers';
+import factoryAbi from '../factoryInfo.json';
+import { sendWithPreflight } from '../transactions/preflight';
+import { findRevertData } from '../errors/revertData';
+import { FunctionArgs, FunctionFragment, FunctionName, FunctionReturn } from './abiTypes';
+
+// Every fragment of the CrowdfundingFactory ABI that this client is written
+// against, checked against factoryInfo.json by CrowdfundingFactoryClient.test.ts.
+export const CROWDFUNDING_FACTORY_FRAGMENTS = [
+  'constructor()',
+
+  // Writes
+  'function createCampaign(uint256,uint256,uint256,uint256,string,string,address[],uint256[]) returns (address)',
+
+  // Views
+  'function campaigns(uint256) view returns (address,address,string,string,uint256,uint256,uint256)',
+  'function isCampaign(address) view returns (bool)',
+  'function getCampaignCount() view returns (uint256)',
+  'function getCampaign(uint256) view returns (address,address,string,string,uint256,uint256,uint256)',
+  'function implementation() view returns (address)',
+
+  // Events
+  'event CampaignCreated(uint256 indexed,address indexed,address indexed,string,uint256,uint256)',
+
+  // Errors
+  'error EmptyTitle()',
+  'error InvalidCampaignId()',
+  'error CloneFailed()',
+] as const;
+
+type ErrorFragmentName<F> = F extends `error ${infer Name}()` ? Name : never;
+
+export type CrowdfundingFactoryErrorName = ErrorFragmentName<typeof CROWDFUNDING_FACTORY_FRAGMENTS[number]>;
+
+type FactoryFunction = FunctionName<typeof CROWDFUNDING_FACTORY_FRAGMENTS[number]>;
+type FactoryFragment<M extends string> = FunctionFragment<typeof CROWDFUNDING_FACTORY_FRAGMENTS[number], M>;
+
+export interface CampaignInfo {
+  id: number;
+  campaign: string;
+  owner: string;
+  title: string;
+  description: string;
+  fundraisingGoal: bigint;
+  deadline: bigint;
+  createdAt: bigint;
+}
+
+export interface CampaignCreatedEvent {
+  campaignId: number;
+  campaign: string;
+  owner: string;
+  title: string;
+  fundraisingGoal: bigint;
+  deadline: bigint;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * A custom error reverted by the CrowdfundingFactory contract.
+ */
+export class CrowdfundingFactoryError extends Error {
+  readonly errorName: CrowdfundingFactoryErrorName;
+  readonly cause: unknown;
+
+  constructor(errorName: CrowdfundingFactoryErrorName, cause: unknown) {
+    super(`Factory reverted with ${errorName}()`);
+    this.name = 'CrowdfundingFactoryError';
+    this.errorName = errorName;
+    this.cause = cause;
+  }
+}
+
+const factoryInterface = new ethers.Interface(factoryAbi);
+
+// Ethers also names Error(string) and Panic reverts, which are not custom errors
+const factoryErrorNames = new Set(factoryInterface.fragments.filter(ethers.ErrorFragment.isFragment).map((f) => f.name));
+
+/**
+ * Returns the name of the factory custom error carried by `err`, or null if
+ * the error is not a decodable factory revert.
+ */
+export const decodeFactoryError = (err: unknown): CrowdfundingFactoryErrorName | null => {
+  if (err instanceof CrowdfundingFactoryError) return err.errorName;
+
+  const e = err as { revert?: { name?: string } | null };
+  const data = findRevertData(err);
+  const name = e?.revert?.name ?? (data ? factoryInterface.parseError(data)?.name : null);
+  return name && factoryErrorNames.has(name) ? (name as CrowdfundingFactoryErrorName) : null;
+};
+
+const rethrowDecoded = (err: unknown): never => {
+  const errorName = decodeFactoryError(err);
+  if (errorName) throw new CrowdfundingFactoryError(errorName, err);
+  throw err;
+};
+
+const toCampaignInfo = (id: number, c: ethers.Result): CampaignInfo => ({
+  id,
+  campaign: c.campaign,
+  owner: c.owner,
+  title: c.title,
+  description: c.description,
+  fundraisingGoal: c.fundraisingGoal,
+  deadline: c.deadline,
+  createdAt: c.createdAt,
+});
+
+/**
+ * Typed wrapper around the CrowdfundingFactory contract, which deploys and
+ * indexes Crowdfunding campaigns.
+ */
+export class CrowdfundingFactoryClient {
+  static readonly interface = factoryInterface;
+
+  readonly address: string;
+  readonly provider: ethers.Provider;
+  // Reads and event subscriptions always go through the provider
+  private readonly contract: ethers.Contract;
+  // Only set while a wallet is connected
+  private writer: ethers.Contract | null = null;
+
+  constructor(address: string, provider: ethers.Provider, signer?: ethers.Signer | null) {
+    this.address = address;
+    this.provider = provider;
+    this.contract = new ethers.Contract(address, factoryInterface, provider);
+    this.attachSigner(signer ?? null);
+  }
+
+  /**
+   * Upgrades this client to send transactions from `signer`, or back to
+   * read-only with null. Existing subscriptions are left untouched.
+   */
+  attachSigner(signer: ethers.Signer | null): void {
+    this.writer = signer ? new ethers.Contract(this.address, factoryInterface, signer) : null;
+  }
+
+  get canWrite(): boolean {
+    return this.writer !== null;
+  }
+
+  // ============ Views ============
+
+  async getCampaignCount(): Promise<number> {
+    return Number(await this.call('getCampaignCount'));
+  }
+
+  async getCampaign(campaignId: number): Promise<CampaignInfo> {
+    return toCampaignInfo(campaignId, await this.call('getCampaign', campaignId));
+  }
+
+  async campaigns(campaignId: number): Promise<CampaignInfo> {
+    return toCampaignInfo(campaignId, await this.call('campaigns', campaignId));
+  }
+
+  isCampaign(address: string): Promise<boolean> {
+    return this.call('isCampaign', address);
+  }
+
+  /**
+   * Looks up the index entry of a campaign by its address, or returns null if
+   * the campaign was not deployed by this factory.
+   */
+  async findCampaign(campaign: string): Promise<CampaignInfo | null> {
+    const filter = this.contract.filters.CampaignCreated(null, campaign);
+    const [log] = await this.contract.queryFilter(filter);
+    if (!(log instanceof ethers.EventLog)) return null;
+    return this.getCampaign(Number(log.args.campaignId));
+  }
+
+  // ============ Writes ============
+
+  createCampaign(
+    goal: bigint,
+    durationDays: number,
+    quorumBps: number,
+    approvalThresholdBps: number,
+    title: string,
+    description: string,
+    acceptedTokens: string[] = [],
+    // Goal of each accepted token, in its smallest unit
+    tokenGoals: bigint[] = []
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      'createCampaign',
+      goal,
+      durationDays,
+      quorumBps,
+      approvalThresholdBps,
+      title,
+      description,
+      acceptedTokens,
+      tokenGoals
+    );
+  }
+
+  // ============ Events ============
+
+  /**
+   * Decodes the CampaignCreated event from a createCampaign receipt, or
+   * returns null if the receipt does not contain one.
+   */
+  parseCampaignCreated(receipt: ethers.TransactionReceipt): CampaignCreatedEvent | null {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = factoryInterface.parseLog(log);
+      if (parsed?.name !== 'CampaignCreated') continue;
+      return {
+        campaignId: Number(parsed.args.campaignId),
+        campaign: parsed.args.campaign,
+        owner: parsed.args.owner,
+        title: parsed.args.title,
+        fundraisingGoal: parsed.args.fundraisingGoal,
+        deadline: parsed.args.deadline,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      };
+    }
+    return null;
+  }
+
+  // ============ Internals ============
+
+  private async call<M extends FactoryFunction>(
+    method: M,
+    ...args: FunctionArgs<FactoryFragment<M>>
+  ): Promise<FunctionReturn<FactoryFragment<M>>> {
+    try {
+      return await this.contract.getFunction(method).staticCall(...args);
+    } catch (err) {
+      return rethrowDecoded(err);
+    }
+  }
+
+  private async send<M extends FactoryFunction>(
+    method: M,
+    ...args: FunctionArgs<FactoryFragment<M>>
+  ): Promise<ethers.ContractTransactionResponse> {
+    if (!this.writer) throw new Error('Connect a wallet to send transactions');
+    try {
+      return await sendWithPreflight(this.writer.getFunction(method), args);
+    } catch (err) {
+      return rethrowDecoded(err);
+    }
+  }
+}
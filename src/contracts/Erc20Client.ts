@@ -0,0 +1,141 @@
+import { ethers } from 'ethers';
+import { sendWithPreflight } from '../transactions/preflight';
+
+// The ERC-20 and EIP-2612 surface the app uses. Tokens are third-party
+// contracts, so there is no bundled ABI to check these against.
+export const ERC20_FRAGMENTS = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address) view returns (uint256)',
+  'function allowance(address,address) view returns (uint256)',
+  'function approve(address,uint256) returns (bool)',
+
+  // EIP-2612, optional
+  'function nonces(address) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function version() view returns (string)',
+  'function PERMIT_TYPEHASH() view returns (bytes32)',
+] as const;
+
+// EIP-712 types of an EIP-2612 permit
+export const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+const EIP2612_PERMIT_TYPEHASH = ethers.id(
+  'Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)'
+);
+
+const erc20Interface = new ethers.Interface(ERC20_FRAGMENTS);
+
+/**
+ * Typed wrapper around an ERC-20 token, with EIP-2612 permit signing for
+ * tokens that support it.
+ */
+export class Erc20Client {
+  readonly address: string;
+  readonly provider: ethers.Provider;
+  private readonly contract: ethers.Contract;
+  // Only set while a wallet is connected
+  private writer: ethers.Contract | null = null;
+  private signer: ethers.Signer | null = null;
+  // Resolved once: the token's permit domain, or null without EIP-2612
+  private permitDomain: Promise<ethers.TypedDataDomain | null> | null = null;
+
+  constructor(address: string, provider: ethers.Provider, signer?: ethers.Signer | null) {
+    this.address = address;
+    this.provider = provider;
+    this.contract = new ethers.Contract(address, erc20Interface, provider);
+    this.attachSigner(signer ?? null);
+  }
+
+  attachSigner(signer: ethers.Signer | null): void {
+    this.writer = signer ? new ethers.Contract(this.address, erc20Interface, signer) : null;
+    this.signer = signer;
+  }
+
+  // ============ Views ============
+
+  name(): Promise<string> {
+    return this.contract.name();
+  }
+
+  symbol(): Promise<string> {
+    return this.contract.symbol();
+  }
+
+  async decimals(): Promise<number> {
+    return Number(await this.contract.decimals());
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.contract.balanceOf(account);
+  }
+
+  allowance(owner: string, spender: string): Promise<bigint> {
+    return this.contract.allowance(owner, spender);
+  }
+
+  /**
+   * The token's EIP-712 permit domain, or null if it does not implement
+   * EIP-2612. Tokens differ in their domain version (USDC uses "2"), so the
+   * candidate domain is checked against the token's own DOMAIN_SEPARATOR.
+   */
+  getPermitDomain(): Promise<ethers.TypedDataDomain | null> {
+    if (!this.permitDomain) {
+      this.permitDomain = this.resolvePermitDomain().catch(() => null);
+    }
+    return this.permitDomain;
+  }
+
+  // ============ Writes ============
+
+  approve(spender: string, amount: bigint): Promise<ethers.ContractTransactionResponse> {
+    if (!this.writer) throw new Error('Connect a wallet to send transactions');
+    return sendWithPreflight(this.writer.getFunction('approve'), [spender, amount]);
+  }
+
+  /**
+   * Signs an EIP-2612 permit letting `spender` move `value` of the
+   * connected account's tokens until `deadline` (unix seconds).
+   */
+  async signPermit(spender: string, value: bigint, deadline: bigint): Promise<string> {
+    if (!this.signer) throw new Error('Connect a wallet to sign permits');
+
+    const domain = await this.getPermitDomain();
+    if (!domain) throw new Error('This token does not support permits');
+
+    const owner = await this.signer.getAddress();
+    const nonce: bigint = await this.contract.nonces(owner);
+    return this.signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline });
+  }
+
+  // ============ Internals ============
+
+  private async resolvePermitDomain(): Promise<ethers.TypedDataDomain | null> {
+    // DAI-style permits share the domain but take different arguments
+    const typehash: string | null = await this.contract.PERMIT_TYPEHASH().catch(() => null);
+    if (typehash !== null && typehash !== EIP2612_PERMIT_TYPEHASH) return null;
+
+    const [name, separator, { chainId }] = await Promise.all([
+      this.name(),
+      this.contract.DOMAIN_SEPARATOR() as Promise<string>,
+      this.provider.getNetwork(),
+    ]);
+    const declared: string | null = await this.contract.version().catch(() => null);
+
+    for (const version of [declared, '1', '2']) {
+      if (version === null) continue;
+      const domain = { name, version, chainId, verifyingContract: this.address };
+      if (ethers.TypedDataEncoder.hashDomain(domain) === separator) return domain;
+    }
+    return null;
+  }
+}
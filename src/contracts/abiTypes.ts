@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+
+// Reads human-readable ABI fragments such as
+// 'function getVotes(address) view returns (uint256)' at the type level, so a
+// client's call and send helpers only accept the functions, arguments and
+// return types in its fragment list.
+
+// TypeScript type accepted for a Solidity parameter type
+type InputType<T extends string> = T extends `${infer Element}[]`
+  ? readonly InputType<Element>[]
+  : T extends `uint${string}` | `int${string}`
+  ? ethers.BigNumberish
+  : T extends 'bool'
+  ? boolean
+  : T extends 'address' | 'string'
+  ? string
+  : T extends `bytes${string}`
+  ? ethers.BytesLike
+  : never;
+
+// Parameter types of a list up to its closing parenthesis, e.g.
+// "uint256,(uint256,bool)[],string)" (tuples are not nested in these ABIs)
+type ParseParams<S extends string, Acc extends unknown[] = []> = S extends `)${string}`
+  ? Acc
+  : S extends `(${infer Inner})${infer Rest}`
+  ? Rest extends `[]${infer After}`
+    ? ParseNext<After, [...Acc, readonly Readonly<ParseParams<`${Inner})`>>[]]>
+    : ParseNext<Rest, [...Acc, Readonly<ParseParams<`${Inner})`>>]>
+  : S extends `${infer Head})${infer After}`
+  ? Head extends `${infer Param},${infer More}`
+    ? ParseParams<`${More})${After}`, [...Acc, InputType<Param>]>
+    : [...Acc, InputType<Head>]
+  : never;
+
+type ParseNext<S extends string, Acc extends unknown[]> = S extends `,${infer Rest}` ? ParseParams<Rest, Acc> : Acc;
+
+// What ethers resolves a single output to; tuples, arrays and several outputs come back as a Result
+type OutputType<T extends string> = T extends `${string},${string}` | `${string}[]` | `(${string}`
+  ? ethers.Result
+  : T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends 'bool'
+  ? boolean
+  : T extends 'address' | 'string' | `bytes${string}`
+  ? string
+  : never;
+
+export type FunctionName<F> = F extends `function ${infer Name}(${string}` ? Name : never;
+
+// The fragment declaring function `Name`
+export type FunctionFragment<F, Name extends string> = F extends `function ${Name}(${string}` ? F : never;
+
+// Arguments of a function, optionally followed by transaction overrides
+export type FunctionArgs<F> = F extends `function ${string}(${infer Params}`
+  ? ParseParams<Params> | [...ParseParams<Params>, ethers.Overrides]
+  : never;
+
+export type FunctionReturn<F> = F extends `${string} returns (${infer Outputs})` ? OutputType<Outputs> : void;
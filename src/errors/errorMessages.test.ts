@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { CrowdfundingFactoryClient } from '../contracts/CrowdfundingFactoryClient';
+import { TransactionOutcomeError } from '../transactions/TransactionManager';
+import { TrackedTransaction } from '../transactions/transactionStore';
+import { CONTRACT_ERROR_MESSAGES, describeError } from './errorMessages';
+
+const FALLBACK = 'Failed to do it';
+
+test('every custom error in the ABIs has a message', () => {
+  const names = [CrowdfundingClient.interface, CrowdfundingFactoryClient.interface].flatMap((iface) =>
+    iface.fragments.filter((f): f is ethers.ErrorFragment => f.type === 'error').map((f) => f.name)
+  );
+  expect(Object.keys(CONTRACT_ERROR_MESSAGES).sort()).toEqual([...new Set(names)].sort());
+});
+
+test('explains custom errors wherever the wallet nests the revert data', () => {
+  const data = CrowdfundingClient.interface.encodeErrorResult('VotingStillActive', []);
+  const nested = { code: 'UNKNOWN_ERROR', error: { code: -32603, data: { data } } };
+
+  expect(describeError(nested, FALLBACK)).toBe(CONTRACT_ERROR_MESSAGES.VotingStillActive);
+  expect(describeError({ data: CrowdfundingFactoryClient.interface.encodeErrorResult('EmptyTitle', []) }, FALLBACK)).toBe(
+    'Campaign title cannot be empty.'
+  );
+  expect(describeError({ data }, FALLBACK, { VotingStillActive: 'Wait for the vote to end.' })).toBe(
+    'Wait for the vote to end.'
+  );
+});
+
+test('explains require() messages and panics', () => {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const reason = ethers.concat(['0x08c379a0', coder.encode(['string'], ['Not yet'])]);
+  const panic = ethers.concat(['0x4e487b71', coder.encode(['uint256'], [0x11])]);
+
+  expect(describeError({ info: { error: { data: reason } } }, FALLBACK)).toBe('The contract rejected this: Not yet.');
+  expect(describeError({ data: panic }, FALLBACK)).toBe('The contract failed because an amount overflowed.');
+  expect(describeError({ code: 'CALL_EXCEPTION', reason: 'Not yet' }, FALLBACK)).toBe('The contract rejected this: Not yet.');
+});
+
+test('explains wallet error codes, preferring the specific cause', () => {
+  expect(describeError({ code: 'ACTION_REJECTED', reason: 'rejected' }, FALLBACK)).toBe('Transaction was rejected by user.');
+  expect(describeError({ code: -32603, error: { code: 4001 } }, FALLBACK)).toBe('Transaction was rejected by user.');
+  expect(describeError({ code: -32002 }, FALLBACK)).toBe('Your wallet already has a request waiting. Open it to continue.');
+});
+
+test('keeps transaction outcomes and falls back for anything else', () => {
+  const outcome = new TransactionOutcomeError({ status: 'dropped' } as TrackedTransaction);
+  expect(describeError(outcome, FALLBACK)).toBe(outcome.message);
+  expect(describeError(new Error('boom'), FALLBACK)).toBe(FALLBACK);
+  expect(describeError({ data: '0xdeadbeef' }, FALLBACK)).toBe(FALLBACK);
+});
@@ -0,0 +1,123 @@
+import { CrowdfundingErrorName, decodeCrowdfundingError } from '../contracts/CrowdfundingClient';
+import { CrowdfundingFactoryErrorName, decodeFactoryError } from '../contracts/CrowdfundingFactoryClient';
+import { TransactionOutcomeError } from '../transactions/TransactionManager';
+import { decodeBuiltinRevert, findRevertData } from './revertData';
+
+export type ContractErrorName = CrowdfundingErrorName | CrowdfundingFactoryErrorName;
+
+// What each custom error means for the user, and what they can do about it
+export const CONTRACT_ERROR_MESSAGES: Record<ContractErrorName, string> = {
+  // Crowdfunding
+  UseDonateFunction: 'Send donations through the donation form rather than as a plain transfer.',
+  NotOwner: 'Only the campaign owner can do this. Switch to the owner account.',
+  FundraisingClosed: 'Fundraising period has ended.',
+  InvalidDonationAmount: 'Donation amount must be greater than 0.',
+  NoFundsToWithdraw: 'There are no unallocated funds to withdraw.',
+  TransferFailed: 'The transfer failed. Check your token balance and allowance, then try again.',
+  RefundNotAvailable: 'Refunds are only available after the deadline, if the goal was not met.',
+  NoDonationToRefund: 'You have no donation left to refund.',
+  WithdrawalNotAvailable: 'Withdrawal is only available once the goal is met or the deadline has passed.',
+  InvalidMilestone: 'This milestone does not exist, or the voting period must be at least one day.',
+  InsufficientContractBalance: 'The campaign does not hold enough of this asset to pay out the milestone yet.',
+  VotingNotActive: 'Voting on this milestone is not open.',
+  VotingPeriodNotEnded: 'The voting period has not ended yet.',
+  AlreadyVoted: 'You have already voted on this milestone.',
+  MilestoneNotApproved: 'Funds can only be released once donors have approved the milestone.',
+  FundsAlreadyReleased: 'The funds of this milestone have already been released.',
+  InvalidMilestoneAmount: 'The milestone amount must be greater than 0.',
+  EmptyDescription: 'Enter a description or title first.',
+  VotingStillActive: 'Voting is still open. Finalize the milestone once its voting period has ended.',
+  NoVotingPower: 'You had no voting power when this milestone was created, so you cannot vote on it.',
+  InvalidSignature: 'The vote signature is invalid. Discard it and sign again.',
+  NonceAlreadyUsed: 'This signed vote was already counted or revoked.',
+  InvalidDelegate: 'You cannot delegate to the zero address.',
+  MilestoneHasVotes: 'Donors have already voted on this milestone, so it can no longer be changed.',
+  MilestoneNotResubmittable: 'Only a rejected milestone can be resubmitted.',
+  ExceedsUnallocatedFunds: 'The amount is more than the funds not already reserved by milestones.',
+  InvalidUpdate: 'This update does not exist.',
+  UpdateAlreadySuperseded: 'This update has already been replaced by a newer version.',
+  InvalidTags: 'Tags must be non-empty, short, and at most five per update.',
+  TokenNotAccepted: 'This campaign does not accept that token.',
+  AlreadyInitialized: 'This campaign has already been set up.',
+
+  // CrowdfundingFactory
+  EmptyTitle: 'Campaign title cannot be empty.',
+  InvalidCampaignId: 'This campaign does not exist.',
+  CloneFailed: 'The campaign could not be deployed. Please try again.',
+};
+
+// Error codes set by ethers and by wallets (EIP-1193 and JSON-RPC)
+export const WALLET_ERROR_MESSAGES: Record<string, string> = {
+  ACTION_REJECTED: 'Transaction was rejected by user.',
+  INSUFFICIENT_FUNDS: 'Your wallet does not hold enough ETH for this amount plus gas.',
+  NONCE_EXPIRED: 'Your wallet is out of sync with the network. Reset its pending transactions and try again.',
+  REPLACEMENT_UNDERPRICED: 'A replacement must pay a higher fee than the pending transaction.',
+  TRANSACTION_REPLACED: 'The transaction was replaced by another one from your wallet.',
+  NETWORK_ERROR: 'Could not reach the network. Check your connection and try again.',
+  TIMEOUT: 'The network took too long to answer. Try again.',
+  SERVER_ERROR: 'The network node returned an error. Try again in a moment.',
+  CALL_EXCEPTION: 'The transaction would fail, and the contract gave no reason.',
+  '4001': 'Transaction was rejected by user.',
+  '4100': 'Your wallet has not authorized this site. Connect it again.',
+  '4200': 'Your wallet does not support this request.',
+  '4900': 'Your wallet is disconnected from the network.',
+  '4901': 'Your wallet is not connected to this network.',
+  '-32002': 'Your wallet already has a request waiting. Open it to continue.',
+  '-32005': 'The network is rate limiting requests. Wait a moment and try again.',
+};
+
+// Solidity panic codes worth explaining, by code
+const PANIC_MESSAGES: Record<string, string> = {
+  '17': 'an amount overflowed',
+  '18': 'it divided by zero',
+  '50': 'it read past the end of a list',
+};
+
+// The first known wallet or ethers code on the error or the errors it wraps
+const findErrorCode = (err: unknown, depth = 0): string | null => {
+  if (!err || typeof err !== 'object' || depth > 4) return null;
+  const e = err as { code?: unknown; error?: unknown; info?: { error?: unknown }; cause?: unknown };
+
+  // Generic RPC failures often wrap a more specific cause
+  const code = e.code === undefined ? null : String(e.code);
+  for (const nested of [e.error, e.info?.error, e.cause]) {
+    const inner = findErrorCode(nested, depth + 1);
+    if (inner && (code === null || code === 'UNKNOWN_ERROR' || code === '-32603')) return inner;
+  }
+  return code !== null && code in WALLET_ERROR_MESSAGES ? code : null;
+};
+
+/**
+ * Turns any error from a contract call, transaction or wallet request into a
+ * message for the user. Custom errors are decoded against the contract ABIs
+ * and looked up in the catalog, with `overrides` for messages that read
+ * better in a particular place; require() messages and wallet error codes
+ * are explained next. Anything unrecognised gets `fallback`.
+ */
+export const describeError = (
+  err: unknown,
+  fallback: string,
+  overrides: Partial<Record<ContractErrorName, string>> = {}
+): string => {
+  if (err instanceof TransactionOutcomeError) return err.message;
+
+  const errorName = decodeCrowdfundingError(err) ?? decodeFactoryError(err);
+  if (errorName) return overrides[errorName] ?? CONTRACT_ERROR_MESSAGES[errorName];
+
+  const data = findRevertData(err);
+  const builtin = data ? decodeBuiltinRevert(data) : null;
+  if (builtin?.kind === 'reason') return `The contract rejected this: ${builtin.reason}.`;
+  if (builtin?.kind === 'panic') {
+    const detail = PANIC_MESSAGES[builtin.code.toString()];
+    return `The contract failed because ${detail ?? `of an internal error (panic ${builtin.code})`}.`;
+  }
+
+  // Ethers decodes require() messages itself when the node returns the data directly
+  const e = err as { code?: unknown; reason?: unknown };
+  if (e?.code === 'CALL_EXCEPTION' && typeof e.reason === 'string' && e.reason) {
+    return `The contract rejected this: ${e.reason}.`;
+  }
+
+  const code = findErrorCode(err);
+  return code ? WALLET_ERROR_MESSAGES[code] : fallback;
+};
@@ -0,0 +1,43 @@
+import { ethers } from 'ethers';
+
+// Selectors of the reverts Solidity emits itself: Error(string) and Panic(uint256)
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// How deep to look through errors wrapped by ethers and wallets
+const MAX_DEPTH = 4;
+
+const isRevertData = (value: unknown): value is string =>
+  typeof value === 'string' && ethers.isHexString(value) && value.length >= 10;
+
+/**
+ * The revert data carried by a failed call or transaction, or null if there
+ * is none. Ethers puts it on `data`; wallets nest it in `error`, `info.error`
+ * or `cause`, sometimes one level further down as `data.data`.
+ */
+export const findRevertData = (err: unknown, depth = 0): string | null => {
+  if (!err || typeof err !== 'object' || depth > MAX_DEPTH) return null;
+  const e = err as { data?: unknown; error?: unknown; info?: { error?: unknown }; cause?: unknown };
+
+  if (isRevertData(e.data)) return e.data;
+  for (const nested of [e.data, e.error, e.info?.error, e.cause]) {
+    const found = findRevertData(nested, depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+export type BuiltinRevert = { kind: 'reason'; reason: string } | { kind: 'panic'; code: bigint };
+
+// Decodes require() messages and compiler panics, which no contract ABI lists
+export const decodeBuiltinRevert = (data: string): BuiltinRevert | null => {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const payload = ethers.dataSlice(data, 4);
+  try {
+    if (data.startsWith(ERROR_STRING_SELECTOR)) return { kind: 'reason', reason: coder.decode(['string'], payload)[0] };
+    if (data.startsWith(PANIC_SELECTOR)) return { kind: 'panic', code: coder.decode(['uint256'], payload)[0] };
+  } catch {
+    // Malformed payload
+  }
+  return null;
+};
@@ -0,0 +1,65 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { EventChange, EventFeed, EventFeedSource, confirmationsAt } from './EventFeed';
+
+const vote = (logIndex: number): CrowdfundingEventRecord => ({
+  name: 'VoteCast',
+  milestoneId: 0,
+  voter: '0x0000000000000000000000000000000000000001',
+  vote: true,
+  weight: 1n,
+  txHash: '0xabc',
+  blockNumber: 10,
+  logIndex,
+});
+
+// A source whose emissions are driven by the test
+const fakeSource = () => {
+  let emit: ((event: CrowdfundingEventRecord, removed: boolean) => void) | null = null;
+  const source: EventFeedSource = {
+    onAny: (listener) => {
+      emit = listener;
+      return () => {
+        emit = null;
+      };
+    },
+  };
+  return { source, emit: (event: CrowdfundingEventRecord, removed = false) => emit?.(event, removed), isOpen: () => emit !== null };
+};
+
+test('delivers each log once and only retracts delivered logs', () => {
+  const { source, emit } = fakeSource();
+  const changes: EventChange[] = [];
+  new EventFeed(source).subscribe((change) => changes.push(change));
+
+  emit(vote(0));
+  emit(vote(0));
+  emit(vote(1), true);
+  emit(vote(0), true);
+  emit(vote(0), true);
+  emit(vote(0));
+
+  expect(changes.map((c) => [c.event.logIndex, c.removed])).toEqual([
+    [0, false],
+    [0, true],
+    [0, false],
+  ]);
+});
+
+test('opens one subscription for many listeners and closes it with the last', () => {
+  const { source, isOpen } = fakeSource();
+  const feed = new EventFeed(source);
+
+  const unsubscribeA = feed.subscribe(() => {});
+  const unsubscribeB = feed.subscribe(() => {});
+  unsubscribeA();
+  expect(isOpen()).toBe(true);
+  unsubscribeB();
+  expect(isOpen()).toBe(false);
+});
+
+test('counts confirmations including the event block', () => {
+  expect(confirmationsAt(10, null)).toBe(0);
+  expect(confirmationsAt(10, 9)).toBe(0);
+  expect(confirmationsAt(10, 10)).toBe(1);
+  expect(confirmationsAt(10, 21)).toBe(12);
+});
@@ -0,0 +1,79 @@
+import { CrowdfundingClient, CrowdfundingEventRecord, EventLocation } from '../contracts/CrowdfundingClient';
+
+// A live event delivered to subscribers, or the retraction of one after a reorg
+export interface EventChange {
+  event: CrowdfundingEventRecord;
+  removed: boolean;
+}
+
+export type EventChangeListener = (change: EventChange) => void;
+
+// The part of CrowdfundingClient the feed listens through
+export interface EventFeedSource {
+  onAny(listener: (event: CrowdfundingEventRecord, removed: boolean) => void): () => void;
+}
+
+const eventKey = (event: EventLocation) => `${event.txHash}:${event.logIndex}`;
+
+/**
+ * Fans one contract subscription out to any number of listeners. Each log is
+ * delivered once however often the provider repeats it, and a removed log is
+ * only forwarded if its addition was. The underlying subscription is opened
+ * by the first listener and closed when the last one leaves.
+ */
+export class EventFeed {
+  private readonly source: EventFeedSource;
+  private readonly listeners = new Set<EventChangeListener>();
+  // Keys of logs delivered and not since removed
+  private readonly live = new Set<string>();
+  private stop: (() => void) | null = null;
+
+  constructor(source: EventFeedSource) {
+    this.source = source;
+  }
+
+  subscribe(listener: EventChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.stop) {
+      this.stop = this.source.onAny((event, removed) => this.handle(event, removed));
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.stop) {
+        this.stop();
+        this.stop = null;
+        this.live.clear();
+      }
+    };
+  }
+
+  private handle(event: CrowdfundingEventRecord, removed: boolean): void {
+    const key = eventKey(event);
+    if (removed) {
+      if (!this.live.delete(key)) return;
+    } else {
+      if (this.live.has(key)) return;
+      this.live.add(key);
+    }
+
+    const change: EventChange = { event, removed };
+    this.listeners.forEach((listener) => listener(change));
+  }
+}
+
+const feeds = new WeakMap<CrowdfundingClient, EventFeed>();
+
+// The shared feed of a client, so every component rides one subscription
+export const getEventFeed = (client: CrowdfundingClient): EventFeed => {
+  let feed = feeds.get(client);
+  if (!feed) {
+    feed = new EventFeed(client);
+    feeds.set(client, feed);
+  }
+  return feed;
+};
+
+// Number of blocks including and on top of `blockNumber`, 0 if not yet mined
+export const confirmationsAt = (blockNumber: number, headBlock: number | null): number =>
+  headBlock !== null && headBlock >= blockNumber ? headBlock - blockNumber + 1 : 0;
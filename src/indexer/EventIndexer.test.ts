@@ -0,0 +1,89 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { EventIndexer, EventSource } from './EventIndexer';
+import { MemoryEventStore } from './EventStore';
+
+const donation = (blockNumber: number, amount: bigint): CrowdfundingEventRecord => ({
+  name: 'DonationReceived',
+  donor: '0x0000000000000000000000000000000000000001',
+  amount,
+  txHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+  blockNumber,
+  logIndex: 0,
+});
+
+// A fake chain whose logs and head can be rewritten between syncs
+const fakeSource = (head: number, logs: CrowdfundingEventRecord[], maxRange = Infinity) => {
+  const chain = { head, logs };
+  const ranges: [number, number][] = [];
+  const source: EventSource = {
+    provider: { getBlockNumber: async () => chain.head },
+    deploymentBlock: async () => 100,
+    queryAllEvents: async (from, to) => {
+      if (to - from + 1 > maxRange) throw new Error('block range too large');
+      ranges.push([from, to]);
+      return chain.logs.filter((e) => e.blockNumber >= from && e.blockNumber <= to);
+    },
+  };
+  return { chain, ranges, source };
+};
+
+test('indexes from the deployment block in chunks and resumes incrementally', async () => {
+  const { chain, ranges, source } = fakeSource(350, [donation(120, 1n), donation(300, 2n)]);
+  const indexer = new EventIndexer(source, new MemoryEventStore(), 'campaign', { chunkSize: 100, reorgDepth: 10 });
+
+  expect((await indexer.sync()).map((e) => e.blockNumber)).toEqual([120, 300]);
+  expect(ranges).toEqual([[100, 199], [200, 299], [300, 350]]);
+
+  chain.head = 400;
+  chain.logs.push(donation(390, 3n));
+  ranges.length = 0;
+
+  expect((await indexer.sync()).map((e) => e.blockNumber)).toEqual([120, 300, 390]);
+  expect(ranges).toEqual([[341, 400]]);
+});
+
+test('replaces events in the re-checked tail after a reorg', async () => {
+  const { chain, source } = fakeSource(200, [donation(150, 1n), donation(195, 2n)]);
+  const indexer = new EventIndexer(source, new MemoryEventStore(), 'campaign', { reorgDepth: 10 });
+  await indexer.sync();
+
+  // Block 195 was reorged out and its donation landed in block 198 instead
+  chain.logs = [donation(150, 1n), donation(198, 5n)];
+
+  const events = await indexer.sync();
+  expect(events.map((e) => [e.blockNumber, e.name === 'DonationReceived' && e.amount])).toEqual([
+    [150, 1n],
+    [198, 5n],
+  ]);
+});
+
+test('shrinks the block range when the RPC rejects it', async () => {
+  const { ranges, source } = fakeSource(1099, [donation(900, 1n)], 250);
+  const indexer = new EventIndexer(source, new MemoryEventStore(), 'campaign', { chunkSize: 1000 });
+
+  expect(await indexer.sync()).toHaveLength(1);
+  expect(ranges[0]).toEqual([100, 349]);
+});
+
+test('runs again when synced during a run, so blocks mined meanwhile are indexed', async () => {
+  const { chain, source } = fakeSource(200, [donation(150, 1n)]);
+  const indexer = new EventIndexer(source, new MemoryEventStore(), 'campaign');
+
+  // A new block arrives while the first run is fetching logs up to block 200
+  const query = source.queryAllEvents;
+  let midRun: Promise<CrowdfundingEventRecord[]> | null = null;
+  source.queryAllEvents = async (from, to) => {
+    const events = await query(from, to);
+    if (!midRun) {
+      chain.head = 201;
+      chain.logs.push(donation(201, 2n));
+      midRun = indexer.sync();
+    }
+    return events;
+  };
+
+  const first = indexer.sync();
+  expect((await first).map((e) => e.blockNumber)).toEqual([150, 201]);
+  expect(await midRun).toEqual(await first);
+  expect((await indexer.cached()).map((e) => e.blockNumber)).toEqual([150, 201]);
+});
@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { EventStore } from './EventStore';
+
+// The parts of CrowdfundingClient the indexer reads from
+export interface EventSource {
+  readonly provider: Pick<ethers.Provider, 'getBlockNumber'>;
+  deploymentBlock(): Promise<number>;
+  queryAllEvents(fromBlock: number, toBlock: number): Promise<CrowdfundingEventRecord[]>;
+}
+
+export interface IndexerOptions {
+  // Blocks per eth_getLogs call; halved automatically when the RPC rejects a range
+  chunkSize?: number;
+  // Trailing blocks re-fetched on every sync in case they were reorged
+  reorgDepth?: number;
+}
+
+export interface IndexerProgress {
+  startBlock: number;
+  indexedBlock: number;
+  headBlock: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 100;
+const DEFAULT_REORG_DEPTH = 12;
+
+/**
+ * Incrementally indexes every event of one campaign into an EventStore.
+ * The first sync scans from the deployment block in chunks; later syncs only
+ * fetch new blocks plus the last `reorgDepth` blocks, whose stored events are
+ * replaced by what the chain reports now.
+ */
+export class EventIndexer {
+  private readonly source: EventSource;
+  private readonly store: EventStore;
+  private readonly key: string;
+  private readonly chunkSize: number;
+  private readonly reorgDepth: number;
+  private running: Promise<CrowdfundingEventRecord[]> | null = null;
+  // Set when sync() is called during a run, whose head block is already fixed
+  private dirty = false;
+
+  constructor(source: EventSource, store: EventStore, key: string, options: IndexerOptions = {}) {
+    this.source = source;
+    this.store = store;
+    this.key = key;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  }
+
+  // Events already in the store, without touching the network
+  cached(): Promise<CrowdfundingEventRecord[]> {
+    return this.store.getEvents(this.key);
+  }
+
+  /**
+   * Brings the store up to the current head and returns all indexed events in
+   * chain order. Concurrent calls share one run; a call made while a run is in
+   * flight queues one follow-up run, so blocks mined meanwhile are included.
+   */
+  sync(onProgress?: (progress: IndexerProgress) => void): Promise<CrowdfundingEventRecord[]> {
+    if (this.running) {
+      this.dirty = true;
+    } else {
+      this.running = this.runUntilClean(onProgress).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runUntilClean(onProgress?: (progress: IndexerProgress) => void): Promise<CrowdfundingEventRecord[]> {
+    let events: CrowdfundingEventRecord[];
+    do {
+      this.dirty = false;
+      events = await this.run(onProgress);
+    } while (this.dirty);
+    return events;
+  }
+
+  private async run(onProgress?: (progress: IndexerProgress) => void): Promise<CrowdfundingEventRecord[]> {
+    const head = await this.source.provider.getBlockNumber();
+    const checkpoint = await this.store.getCheckpoint(this.key);
+    const startBlock = checkpoint?.startBlock ?? (await this.source.deploymentBlock());
+
+    let from = checkpoint ? Math.max(startBlock, checkpoint.lastBlock - this.reorgDepth + 1) : startBlock;
+
+    // The chain is shorter than what was indexed, e.g. a restarted dev node
+    if (checkpoint && checkpoint.lastBlock > head) {
+      from = Math.min(from, head + 1);
+      await this.store.replaceFrom(this.key, from, [], { startBlock, lastBlock: from - 1 });
+    }
+
+    let chunkSize = this.chunkSize;
+    while (from <= head) {
+      const to = Math.min(from + chunkSize - 1, head);
+
+      let events: CrowdfundingEventRecord[];
+      try {
+        events = await this.source.queryAllEvents(from, to);
+      } catch (err) {
+        // Public RPCs cap the block range of eth_getLogs
+        if (chunkSize <= MIN_CHUNK_SIZE) throw err;
+        chunkSize = Math.max(Math.floor(chunkSize / 2), MIN_CHUNK_SIZE);
+        continue;
+      }
+
+      // Persisted per chunk so an interrupted first sync resumes where it stopped
+      await this.store.replaceFrom(this.key, from, events, { startBlock, lastBlock: to });
+      onProgress?.({ startBlock, indexedBlock: to, headBlock: head });
+      from = to + 1;
+    }
+
+    return this.store.getEvents(this.key);
+  }
+}
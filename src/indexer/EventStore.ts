@@ -0,0 +1,160 @@
+import { CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+
+// How far a campaign has been indexed
+export interface IndexerCheckpoint {
+  // Block the scan started from (the campaign's deployment block)
+  startBlock: number;
+  // Highest block whose events are stored
+  lastBlock: number;
+}
+
+/**
+ * Persistent storage for indexed events, partitioned by a campaign key
+ * (chain ID plus contract address).
+ */
+export interface EventStore {
+  getCheckpoint(campaign: string): Promise<IndexerCheckpoint | null>;
+
+  // All stored events of a campaign in chain order
+  getEvents(campaign: string): Promise<CrowdfundingEventRecord[]>;
+
+  /**
+   * Atomically drops every stored event at or after `fromBlock`, stores
+   * `events` in their place and moves the checkpoint.
+   */
+  replaceFrom(
+    campaign: string,
+    fromBlock: number,
+    events: CrowdfundingEventRecord[],
+    checkpoint: IndexerCheckpoint
+  ): Promise<void>;
+}
+
+/**
+ * Keeps indexed events for the lifetime of the page. Used where IndexedDB
+ * is unavailable, such as private browsing in some browsers and tests.
+ */
+export class MemoryEventStore implements EventStore {
+  private checkpoints = new Map<string, IndexerCheckpoint>();
+  private events = new Map<string, CrowdfundingEventRecord[]>();
+
+  async getCheckpoint(campaign: string): Promise<IndexerCheckpoint | null> {
+    return this.checkpoints.get(campaign) ?? null;
+  }
+
+  async getEvents(campaign: string): Promise<CrowdfundingEventRecord[]> {
+    return [...(this.events.get(campaign) ?? [])];
+  }
+
+  async replaceFrom(
+    campaign: string,
+    fromBlock: number,
+    events: CrowdfundingEventRecord[],
+    checkpoint: IndexerCheckpoint
+  ): Promise<void> {
+    const kept = (this.events.get(campaign) ?? []).filter((e) => e.blockNumber < fromBlock);
+    this.events.set(campaign, [...kept, ...events]);
+    this.checkpoints.set(campaign, checkpoint);
+  }
+}
+
+const DB_NAME = 'philanchain-events';
+const DB_VERSION = 1;
+
+// Events are keyed by [campaign, blockNumber, logIndex], so a key range over
+// one campaign returns its events in chain order
+interface StoredEvent {
+  campaign: string;
+  record: CrowdfundingEventRecord;
+  blockNumber: number;
+  logIndex: number;
+}
+
+interface StoredCheckpoint extends IndexerCheckpoint {
+  campaign: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const campaignRange = (campaign: string, fromBlock = 0) =>
+  IDBKeyRange.bound([campaign, fromBlock, 0], [campaign, Infinity, Infinity]);
+
+/**
+ * Stores indexed events in the browser's IndexedDB so history survives
+ * reloads and only new blocks have to be fetched.
+ */
+export class IndexedDbEventStore implements EventStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getCheckpoint(campaign: string): Promise<IndexerCheckpoint | null> {
+    const db = await this.open();
+    const stored = await requestToPromise<StoredCheckpoint | undefined>(
+      db.transaction('checkpoints').objectStore('checkpoints').get(campaign)
+    );
+    return stored ? { startBlock: stored.startBlock, lastBlock: stored.lastBlock } : null;
+  }
+
+  async getEvents(campaign: string): Promise<CrowdfundingEventRecord[]> {
+    const db = await this.open();
+    const stored = await requestToPromise<StoredEvent[]>(
+      db.transaction('events').objectStore('events').getAll(campaignRange(campaign))
+    );
+    return stored.map((e) => e.record);
+  }
+
+  async replaceFrom(
+    campaign: string,
+    fromBlock: number,
+    events: CrowdfundingEventRecord[],
+    checkpoint: IndexerCheckpoint
+  ): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['events', 'checkpoints'], 'readwrite');
+    const eventStore = tx.objectStore('events');
+
+    eventStore.delete(campaignRange(campaign, fromBlock));
+    for (const record of events) {
+      const stored: StoredEvent = { campaign, record, blockNumber: record.blockNumber, logIndex: record.logIndex };
+      eventStore.put(stored);
+    }
+    const storedCheckpoint: StoredCheckpoint = { campaign, ...checkpoint };
+    tx.objectStore('checkpoints').put(storedCheckpoint);
+
+    await transactionDone(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('events', { keyPath: ['campaign', 'blockNumber', 'logIndex'] });
+          db.createObjectStore('checkpoints', { keyPath: 'campaign' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+// IndexedDB where the browser offers it, otherwise an in-memory fallback
+export const createEventStore = (): EventStore =>
+  IndexedDbEventStore.isSupported() ? new IndexedDbEventStore() : new MemoryEventStore();
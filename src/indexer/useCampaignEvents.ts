@@ -0,0 +1,61 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CrowdfundingClient, CrowdfundingEventRecord } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+import { EventIndexer, IndexerProgress } from './EventIndexer';
+import { createEventStore } from './EventStore';
+import { getEventFeed } from './EventFeed';
+
+// One store per page, shared by every campaign
+const store = createEventStore();
+
+/**
+ * Indexed event history of a campaign. Shows cached events immediately, then
+ * syncs new blocks in the background and again whenever the live feed
+ * reports an event or the removal of one.
+ */
+export const useCampaignEvents = (contract: CrowdfundingClient) => {
+  const { chainId } = useNetwork();
+  const [events, setEvents] = useState<CrowdfundingEventRecord[]>([]);
+  const [progress, setProgress] = useState<IndexerProgress | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const indexer = useMemo(
+    () => new EventIndexer(contract, store, `${chainId}:${contract.address.toLowerCase()}`),
+    [contract, chainId]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const sync = async () => {
+      setIsSyncing(true);
+      try {
+        const synced = await indexer.sync((p) => !cancelled && setProgress(p));
+        if (!cancelled) {
+          setEvents(synced);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error indexing campaign events:', err);
+        if (!cancelled) setError('Failed to load campaign history from the network.');
+      } finally {
+        if (!cancelled) setIsSyncing(false);
+      }
+    };
+
+    indexer.cached()
+      .then((cached) => !cancelled && setEvents(cached))
+      .catch((err) => console.error('Error reading cached events:', err))
+      .finally(sync);
+
+    const unsubscribe = getEventFeed(contract).subscribe(() => sync());
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [contract, indexer]);
+
+  return { events, progress, isSyncing, error };
+};
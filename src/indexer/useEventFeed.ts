@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { EventChangeListener, getEventFeed } from './EventFeed';
+
+/**
+ * Calls `onChange` for every live event of `contract` until unmount or until
+ * `contract` changes. The latest `onChange` is always used, so it may close
+ * over props such as the connected account without resubscribing.
+ */
+export const useEventFeed = (contract: CrowdfundingClient | null, onChange: EventChangeListener) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!contract) return;
+    return getEventFeed(contract).subscribe((change) => onChangeRef.current(change));
+  }, [contract]);
+};
+
+// Latest block number seen by `provider`, null until the first one arrives
+export const useHeadBlock = (provider: ethers.Provider | null): number | null => {
+  const [headBlock, setHeadBlock] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!provider) return;
+    let cancelled = false;
+
+    const onBlock = (blockNumber: number) => {
+      if (!cancelled) setHeadBlock(blockNumber);
+    };
+
+    provider.getBlockNumber().then(onBlock).catch((err) => console.error('Error fetching block number:', err));
+    provider.on('block', onBlock);
+
+    return () => {
+      cancelled = true;
+      provider.off('block', onBlock);
+    };
+  }, [provider]);
+
+  return headBlock;
+};
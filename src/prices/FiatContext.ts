@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { FiatCurrency, PriceFeed, StaticPriceFeed } from './PriceFeed';
+
+interface FiatSettings {
+  // Where exchange rates come from
+  feed: PriceFeed;
+  // Currency fiat equivalents are shown in
+  currency: FiatCurrency;
+  setCurrency: (currency: FiatCurrency) => void;
+}
+
+// Key under which the chosen display currency is remembered
+export const CURRENCY_STORAGE_KEY = 'philanchain:currency';
+
+export const FiatContext = createContext<FiatSettings>({
+  feed: new StaticPriceFeed({}),
+  currency: 'USD',
+  setCurrency: () => {},
+});
+
+export const useFiat = (): FiatSettings => useContext(FiatContext);
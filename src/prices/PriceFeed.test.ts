@@ -0,0 +1,76 @@
+import { ethers } from 'ethers';
+import { ChainlinkPriceFeed, StaticPriceFeed, parseStaticRates, toFiat } from './PriceFeed';
+
+const aggregatorInterface = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)',
+]);
+
+const ETH_USD = '0x0000000000000000000000000000000000000001';
+const EUR_USD = '0x0000000000000000000000000000000000000002';
+
+// A stand-in for aggregator contracts answering 8-decimal prices, by address and block
+const mockAggregators = (answers: Record<string, (blockTag?: ethers.BlockTag) => bigint>) => {
+  const calls: { to: string; blockTag?: ethers.BlockTag }[] = [];
+  const runner = {
+    provider: null,
+    call: async (tx: ethers.TransactionRequest) => {
+      const to = String(tx.to);
+      calls.push({ to, blockTag: tx.blockTag });
+      const fn = aggregatorInterface.parseTransaction({ data: String(tx.data) })!;
+      return fn.name === 'decimals'
+        ? aggregatorInterface.encodeFunctionResult('decimals', [8])
+        : aggregatorInterface.encodeFunctionResult('latestRoundData', [1, answers[to](tx.blockTag), 0, 0, 1]);
+    },
+  };
+  return { runner, calls };
+};
+
+describe('price feeds', () => {
+  it('reads Chainlink aggregators and crosses rates through USD', async () => {
+    const { runner } = mockAggregators({
+      [ETH_USD]: () => 3_240_00000000n,
+      [EUR_USD]: () => 1_08000000n,
+    });
+    const feed = new ChainlinkPriceFeed(runner, { 'ETH/USD': ETH_USD, 'EUR/USD': EUR_USD });
+
+    expect(await feed.getRate('ETH', 'USD')).toBe(3240);
+    expect(await feed.getRate('ETH', 'EUR')).toBeCloseTo(3000);
+    expect(await feed.getRate('ETH', 'GBP')).toBeNull();
+  });
+
+  it('reads historical answers at the requested block', async () => {
+    const { runner, calls } = mockAggregators({
+      [ETH_USD]: (blockTag) => (blockTag === 100 ? 2_000_00000000n : 3_000_00000000n),
+    });
+    const feed = new ChainlinkPriceFeed(runner, { 'ETH/USD': ETH_USD });
+
+    expect(await feed.getRate('ETH', 'USD', 100)).toBe(2000);
+    expect(await feed.getRate('ETH', 'USD')).toBe(3000);
+    // decimals() is read once per aggregator
+    expect(calls.length).toBe(3);
+  });
+
+  it('treats non-positive answers as missing prices', async () => {
+    const { runner } = mockAggregators({ [ETH_USD]: () => 0n });
+    const feed = new ChainlinkPriceFeed(runner, { 'ETH/USD': ETH_USD });
+
+    expect(await feed.getRate('ETH', 'USD')).toBeNull();
+  });
+
+  it('parses manual rates and skips malformed entries', async () => {
+    expect(parseStaticRates('ETH/USD=3200, EUR/USD=1.25,bogus,GBP/USD=-1')).toEqual({
+      'ETH/USD': 3200,
+      'EUR/USD': 1.25,
+    });
+
+    const feed = new StaticPriceFeed({ 'ETH/USD': 3200, 'EUR/USD': 1.25 });
+    expect(await feed.getRate('ETH', 'EUR')).toBe(2560);
+    expect(await feed.getRate('USD', 'USD')).toBe(1);
+  });
+
+  it('converts amounts in the asset decimals', () => {
+    expect(toFiat(1_500_000_000_000_000_000n, 18, 2000)).toBe(3000);
+    expect(toFiat(12_500_000n, 6, 0.9)).toBeCloseTo(11.25);
+  });
+});
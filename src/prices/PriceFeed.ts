@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { NetworkConfig } from '../config/networks';
+
+// Currencies amounts can be displayed in, by ISO 4217 code
+export const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP'] as const;
+
+export type FiatCurrency = typeof FIAT_CURRENCIES[number];
+
+/**
+ * Exchange rates between crypto assets and fiat currencies, looked up by
+ * symbol (e.g. "ETH", "USDC", "EUR"). Only used for display: amounts on
+ * chain stay in ETH and token units.
+ */
+export interface PriceFeed {
+  // Price of one `base` in `quote`, as of `blockTag` when given, or null if unknown
+  getRate(base: string, quote: string, blockTag?: number): Promise<number | null>;
+}
+
+/**
+ * Rate of `base` in `quote` from a feed of single pairs: the direct pair
+ * if there is one, else both legs against USD, which is how Chainlink
+ * quotes most assets.
+ */
+export const crossRate = async (
+  readPair: (pair: string) => Promise<number | null>,
+  base: string,
+  quote: string
+): Promise<number | null> => {
+  if (base === quote) return 1;
+
+  const direct = await readPair(`${base}/${quote}`);
+  if (direct !== null) return direct;
+
+  const [baseInUsd, quoteInUsd] = await Promise.all([
+    base === 'USD' ? 1 : readPair(`${base}/USD`),
+    quote === 'USD' ? 1 : readPair(`${quote}/USD`),
+  ]);
+  return baseInUsd !== null && quoteInUsd ? baseInUsd / quoteInUsd : null;
+};
+
+/**
+ * Fixed, hand-entered rates such as "ETH/USD" => 3200. Useful on local and
+ * test networks without oracles; past blocks get the same rates.
+ */
+export class StaticPriceFeed implements PriceFeed {
+  private readonly rates: Map<string, number>;
+
+  constructor(rates: Record<string, number>) {
+    this.rates = new Map(Object.entries(rates));
+  }
+
+  async getRate(base: string, quote: string): Promise<number | null> {
+    return crossRate(async (pair) => this.rates.get(pair) ?? null, base, quote);
+  }
+}
+
+const AGGREGATOR_FRAGMENTS = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+];
+
+const aggregatorInterface = new ethers.Interface(AGGREGATOR_FRAGMENTS);
+
+/**
+ * Reads Chainlink price aggregators (AggregatorV3Interface), one per pair
+ * such as "ETH/USD". Rates at a past block need an RPC endpoint that serves
+ * historical state.
+ */
+export class ChainlinkPriceFeed implements PriceFeed {
+  private readonly runner: ethers.ContractRunner;
+  private readonly feeds: Map<string, string>;
+  private readonly decimals = new Map<string, Promise<number>>();
+
+  constructor(runner: ethers.ContractRunner, feeds: Record<string, string>) {
+    this.runner = runner;
+    this.feeds = new Map(Object.entries(feeds));
+  }
+
+  async getRate(base: string, quote: string, blockTag?: number): Promise<number | null> {
+    return crossRate((pair) => this.readPair(pair, blockTag), base, quote);
+  }
+
+  private async readPair(pair: string, blockTag?: number): Promise<number | null> {
+    const address = this.feeds.get(pair);
+    if (!address) return null;
+
+    const aggregator = new ethers.Contract(address, aggregatorInterface, this.runner);
+    if (!this.decimals.has(address)) {
+      this.decimals.set(address, aggregator.decimals().then(Number));
+    }
+
+    const [decimals, round] = await Promise.all([
+      this.decimals.get(address)!,
+      aggregator.latestRoundData(blockTag === undefined ? {} : { blockTag }),
+    ]);
+    // A non-positive answer means the feed has no valid price
+    return round.answer > 0n ? Number(ethers.formatUnits(round.answer, decimals)) : null;
+  }
+}
+
+/**
+ * Parses manual rates written as "ETH/USD=3200,EUR/USD=1.08". Malformed
+ * entries are skipped.
+ */
+export const parseStaticRates = (value: string): Record<string, number> => {
+  const rates: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [pair, rate] = entry.split('=').map((part) => part.trim());
+    const parsed = Number(rate);
+    if (/^[A-Z0-9]+\/[A-Z0-9]+$/.test(pair ?? '') && parsed > 0) rates[pair] = parsed;
+  }
+  return rates;
+};
+
+/**
+ * The network's Chainlink feeds when it has any, else the manual rates in
+ * REACT_APP_STATIC_PRICES (possibly none, in which case nothing is shown
+ * in fiat).
+ */
+export const createPriceFeed = (network: NetworkConfig, provider: ethers.Provider): PriceFeed =>
+  Object.keys(network.priceFeeds).length > 0
+    ? new ChainlinkPriceFeed(provider, network.priceFeeds)
+    : new StaticPriceFeed(parseStaticRates(process.env.REACT_APP_STATIC_PRICES ?? ''));
+
+// Fiat value of `amount` smallest units of an asset with `decimals`, at `rate`
+export const toFiat = (amount: bigint, decimals: number, rate: number): number =>
+  Number(ethers.formatUnits(amount, decimals)) * rate;
+
+export const formatFiat = (value: number, currency: FiatCurrency): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
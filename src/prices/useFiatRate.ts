@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { useFiat } from './FiatContext';
+import { PriceFeed } from './PriceFeed';
+
+// Rates at past blocks never change, so they are fetched once per page load
+const historicalRates = new WeakMap<PriceFeed, Map<string, Promise<number | null>>>();
+
+const rateAt = (feed: PriceFeed, base: string, quote: string, blockTag: number): Promise<number | null> => {
+  let rates = historicalRates.get(feed);
+  if (!rates) {
+    rates = new Map();
+    historicalRates.set(feed, rates);
+  }
+  const key = `${base}/${quote}@${blockTag}`;
+  if (!rates.has(key)) {
+    rates.set(key, feed.getRate(base, quote, blockTag).catch(() => null));
+  }
+  return rates.get(key)!;
+};
+
+/**
+ * Price of one unit of `asset` (ETH when null) in the display currency, as
+ * of `blockTag` when given. Null while loading or when the feed has no rate.
+ */
+export const useFiatRate = (asset: TokenInfo | null, blockTag?: number): number | null => {
+  const { nativeCurrency } = useNetwork();
+  const { feed, currency } = useFiat();
+  const [rate, setRate] = useState<number | null>(null);
+  const base = asset ? asset.symbol : nativeCurrency.symbol;
+
+  useEffect(() => {
+    let cancelled = false;
+    setRate(null);
+
+    const lookup = blockTag === undefined ? feed.getRate(base, currency) : rateAt(feed, base, currency, blockTag);
+    lookup
+      .then((value) => !cancelled && setRate(value))
+      .catch((err) => console.error(`Error loading the ${base}/${currency} rate:`, err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [feed, base, currency, blockTag]);
+
+  return rate;
+};
@@ -0,0 +1,21 @@
+import { NETWORKS } from '../config/networks';
+import { findToken, formatAssetAmount, parseAssetAmount } from './tokens';
+
+const sepolia = NETWORKS[11155111];
+const usdc = sepolia.stablecoins[0];
+
+describe('token helpers', () => {
+  it('finds tokens by address regardless of case', () => {
+    expect(findToken(sepolia.stablecoins, usdc.address.toLowerCase())).toBe(usdc);
+    expect(findToken(sepolia.stablecoins, '0x0000000000000000000000000000000000000001')).toBeNull();
+    expect(findToken(sepolia.stablecoins, null)).toBeNull();
+  });
+
+  it('formats and parses amounts in the asset decimals', () => {
+    expect(parseAssetAmount('12.5', usdc)).toBe(12_500_000n);
+    expect(formatAssetAmount(12_500_000n, usdc, sepolia)).toBe('12.5 USDC');
+
+    expect(parseAssetAmount('0.1', null)).toBe(100_000_000_000_000_000n);
+    expect(formatAssetAmount(100_000_000_000_000_000n, null, sepolia)).toBe('0.1 ETH');
+  });
+});
@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { Erc20Client } from '../contracts/Erc20Client';
+import { NetworkConfig, TokenInfo } from '../config/networks';
+import { TrackTransaction } from '../transactions/TransactionContext';
+
+// How long a signed donation permit stays usable
+const PERMIT_VALIDITY_SECONDS = 20 * 60;
+
+// Metadata of a token from the network's stablecoin list, else from the token itself
+export const resolveTokenInfo = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  address: string
+): Promise<TokenInfo> => {
+  const known = findToken(network.stablecoins, address);
+  if (known) return known;
+
+  const token = new Erc20Client(address, provider);
+  const [symbol, name, decimals] = await Promise.all([token.symbol(), token.name(), token.decimals()]);
+  return { address, symbol, name, decimals };
+};
+
+// Looks up a token by address among `tokens`, case-insensitively. Null stands for ETH.
+export const findToken = (tokens: TokenInfo[], address: string | null): TokenInfo | null =>
+  address === null ? null : tokens.find((t) => t.address.toLowerCase() === address.toLowerCase()) ?? null;
+
+// An amount of `token`, or of the network's native currency when it is null, e.g. "12.5 USDC"
+export const formatAssetAmount = (amount: bigint, token: TokenInfo | null, network: NetworkConfig): string =>
+  token
+    ? `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`
+    : `${ethers.formatEther(amount)} ${network.nativeCurrency.symbol}`;
+
+// Parses a user-entered amount in `token`'s units, or in ETH when it is null
+export const parseAssetAmount = (value: string, token: TokenInfo | null): bigint =>
+  token ? ethers.parseUnits(value, token.decimals) : ethers.parseEther(value);
+
+export type TokenDonationStep = 'permit' | 'approve' | 'donate';
+
+/**
+ * Donates `amount` of an ERC-20 token from `account`. Tokens with EIP-2612
+ * take a signed permit and a single transaction; others get an approve()
+ * first unless the existing allowance already covers the amount.
+ */
+export const sendTokenDonation = async (
+  contract: CrowdfundingClient,
+  token: Erc20Client,
+  account: string,
+  amount: bigint,
+  onStep: (step: TokenDonationStep) => void,
+  track: TrackTransaction
+): Promise<ethers.ContractTransactionResponse> => {
+  if (await token.getPermitDomain()) {
+    onStep('permit');
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS);
+    const signature = await token.signPermit(contract.address, amount, deadline);
+    onStep('donate');
+    return contract.donateTokenWithPermit(token.address, amount, deadline, signature);
+  }
+
+  if ((await token.allowance(account, contract.address)) < amount) {
+    onStep('approve');
+    const approval = await token.approve(contract.address, amount);
+    await track(approval, `Approve ${await token.symbol()} spending`);
+  }
+  onStep('donate');
+  return contract.donateToken(token.address, amount);
+};
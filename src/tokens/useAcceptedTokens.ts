@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { CrowdfundingClient } from '../contracts/CrowdfundingClient';
+import { TokenInfo } from '../config/networks';
+import { useNetwork } from '../config/NetworkContext';
+import { resolveTokenInfo } from './tokens';
+
+/**
+ * ERC-20 tokens a campaign accepts besides ETH, with their symbol and
+ * decimals. Empty for campaigns without any, and while loading.
+ */
+export const useAcceptedTokens = (contract: CrowdfundingClient): TokenInfo[] => {
+  const network = useNetwork();
+  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    contract
+      .getAcceptedTokens()
+      .then((addresses) => Promise.all(addresses.map((a) => resolveTokenInfo(contract.provider, network, a))))
+      .then((resolved) => !cancelled && setTokens(resolved))
+      .catch((err) => console.error('Error loading accepted tokens:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, network]);
+
+  return tokens;
+};
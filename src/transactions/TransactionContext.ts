@@ -0,0 +1,22 @@
+import { createContext, useCallback, useContext } from 'react';
+import { ethers } from 'ethers';
+import { TransactionManager } from './TransactionManager';
+
+// Follows the transactions sent on the current network; null outside the app shell
+export const TransactionContext = createContext<TransactionManager | null>(null);
+
+export const useTransactionManager = (): TransactionManager | null => useContext(TransactionContext);
+
+// Waits for a sent transaction, describing it in the pending list and notifications
+export type TrackTransaction = (
+  tx: ethers.TransactionResponse,
+  description: string
+) => Promise<ethers.TransactionReceipt | null>;
+
+export const useTrackTransaction = (): TrackTransaction => {
+  const manager = useTransactionManager();
+  return useCallback(
+    (tx, description) => (manager ? manager.track(tx, description) : tx.wait()),
+    [manager]
+  );
+};
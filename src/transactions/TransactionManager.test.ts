@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import { TransactionManager, TransactionOutcomeError, TransactionProvider } from './TransactionManager';
+import { loadTransactions } from './transactionStore';
+
+const ACCOUNT = '0x0000000000000000000000000000000000000abc';
+const CHAIN_ID = 31337;
+
+const hash = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+
+const sent = (n: number, nonce = 0) => ({
+  hash: hash(n),
+  from: ACCOUNT,
+  nonce,
+  to: '0x0000000000000000000000000000000000000def',
+  data: '0x1234',
+  value: 0n,
+  gasLimit: 100_000n,
+  maxFeePerGas: 20n,
+  maxPriorityFeePerGas: 2n,
+  gasPrice: 20n,
+});
+
+// A fake chain: receipts by hash, the account's mined nonce and the head block
+const fakeChain = () => {
+  const chain = {
+    head: 100,
+    nonce: 0,
+    receipts: new Map<string, { blockNumber: number; status: number }>(),
+    known: new Set<string>(),
+  };
+  const provider = {
+    getBlockNumber: async () => chain.head,
+    getTransactionCount: async () => chain.nonce,
+    getTransactionReceipt: async (h: string) => (chain.receipts.get(h) as ethers.TransactionReceipt) ?? null,
+    getTransaction: async (h: string) => (chain.known.has(h) ? ({ hash: h } as ethers.TransactionResponse) : null),
+    getFeeData: async () => new ethers.FeeData(10n, 15n, 1n),
+    on: async () => provider,
+    off: async () => provider,
+  };
+  return { chain, provider: provider as unknown as TransactionProvider };
+};
+
+const mine = (chain: ReturnType<typeof fakeChain>['chain'], h: string, status = 1) => {
+  chain.receipts.set(h, { blockNumber: chain.head, status });
+  chain.nonce += 1;
+};
+
+describe('TransactionManager', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('resolves once mined and keeps checking until final', async () => {
+    const { chain, provider } = fakeChain();
+    const manager = new TransactionManager(provider, CHAIN_ID, { confirmations: 3 });
+    const receipt = manager.track(sent(1), 'Donate 1 ETH');
+
+    mine(chain, hash(1));
+    await manager.refresh();
+    await expect(receipt).resolves.toMatchObject({ blockNumber: 100 });
+    expect(manager.list()[0]).toMatchObject({ status: 'confirmed', confirmations: 1, final: false });
+
+    // The block is reorged out before it is final
+    chain.receipts.clear();
+    chain.nonce = 0;
+    await manager.refresh();
+    expect(manager.list()[0]).toMatchObject({ status: 'pending', blockNumber: null });
+
+    mine(chain, hash(1));
+    chain.head = 102;
+    await manager.refresh();
+    expect(manager.list()[0]).toMatchObject({ status: 'confirmed', confirmations: 3, final: true });
+  });
+
+  it('survives a reload through localStorage', async () => {
+    const { chain, provider } = fakeChain();
+    new TransactionManager(provider, CHAIN_ID).track(sent(1), 'Donate 1 ETH');
+    expect(loadTransactions(CHAIN_ID)[0]).toMatchObject({ id: hash(1), value: 0n, gasLimit: 100_000n });
+
+    const reloaded = new TransactionManager(provider, CHAIN_ID);
+    mine(chain, hash(1));
+    await reloaded.refresh();
+    expect(reloaded.list()[0]).toMatchObject({ description: 'Donate 1 ETH', status: 'confirmed', final: true });
+  });
+
+  it('settles through a sped up attempt and rejects a cancelled one', async () => {
+    const { chain, provider } = fakeChain();
+    const manager = new TransactionManager(provider, CHAIN_ID);
+    const requests: ethers.TransactionRequest[] = [];
+    manager.attachSigner({
+      getAddress: async () => ACCOUNT,
+      sendTransaction: async (request) => {
+        requests.push(request);
+        return { hash: hash(10 + requests.length) } as ethers.TransactionResponse;
+      },
+    });
+
+    const first = manager.track(sent(1, 0), 'Vote yes');
+    await manager.speedUp(hash(1));
+    expect(requests[0]).toMatchObject({ nonce: 0, data: '0x1234', maxFeePerGas: 24n, maxPriorityFeePerGas: 3n });
+
+    mine(chain, hash(11));
+    await manager.refresh();
+    await expect(first).resolves.toMatchObject({ status: 1 });
+    expect(manager.list()[0].minedHash).toBe(hash(11));
+
+    const second = manager.track(sent(2, 1), 'Delegate');
+    await manager.cancel(hash(2));
+    expect(requests[1]).toMatchObject({ nonce: 1, to: ACCOUNT, value: 0n, gasLimit: 21000n });
+
+    mine(chain, hash(12));
+    await manager.refresh();
+    await expect(second).rejects.toBeInstanceOf(TransactionOutcomeError);
+    expect(manager.list()[0].status).toBe('cancelled');
+  });
+
+  it('waits for a receipt that lags behind the nonce before calling it replaced', async () => {
+    const { chain, provider } = fakeChain();
+    const manager = new TransactionManager(provider, CHAIN_ID);
+    const receipt = manager.track(sent(1, 0), 'Donate 1 ETH');
+
+    // The RPC already counts the nonce but has no receipt for one poll
+    chain.nonce = 1;
+    await manager.refresh();
+    expect(manager.list()[0]).toMatchObject({ status: 'pending', final: false });
+
+    chain.receipts.set(hash(1), { blockNumber: chain.head, status: 1 });
+    await manager.refresh();
+    await expect(receipt).resolves.toMatchObject({ blockNumber: 100 });
+    expect(manager.list()[0]).toMatchObject({ status: 'confirmed', final: true, nonceUsedChecks: 0 });
+  });
+
+  it('detects replacements it did not send and dropped transactions', async () => {
+    const { chain, provider } = fakeChain();
+    const manager = new TransactionManager(provider, CHAIN_ID, { dropAfterMs: -1, replacedAfterChecks: 2 });
+
+    const replaced = manager.track(sent(1, 0), 'Refund');
+    chain.nonce = 1;
+    await manager.refresh();
+    expect(manager.list()[0].status).toBe('pending');
+    await manager.refresh();
+    await expect(replaced).rejects.toMatchObject({ status: 'replaced' });
+
+    const dropped = manager.track(sent(2, 1), 'Withdraw');
+    await manager.refresh();
+    await expect(dropped).rejects.toMatchObject({ status: 'dropped' });
+  });
+});
@@ -0,0 +1,390 @@
+import { ethers } from 'ethers';
+import { TrackedTransaction, TransactionAttempt, TransactionStatus, loadTransactions, saveTransactions } from './transactionStore';
+
+// The parts of a provider the manager reads through
+export type TransactionProvider = Pick<
+  ethers.Provider,
+  'getBlockNumber' | 'getTransactionCount' | 'getTransactionReceipt' | 'getTransaction' | 'getFeeData' | 'on' | 'off'
+>;
+
+// What the manager needs of a sent transaction
+export type SentTransaction = Pick<
+  ethers.TransactionResponse,
+  'hash' | 'from' | 'nonce' | 'to' | 'data' | 'value' | 'gasLimit' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'
+>;
+
+// The parts of a wallet signer used to replace transactions
+export type ReplacementSigner = Pick<ethers.Signer, 'getAddress' | 'sendTransaction'>;
+
+export interface TransactionManagerOptions {
+  // Blocks on top of the mined one before an outcome is final
+  confirmations?: number;
+  // How long no RPC may know a pending transaction before it counts as dropped
+  dropAfterMs?: number;
+  // Checks in a row that must find the nonce used without any of our receipts
+  // before the transaction counts as replaced
+  replacedAfterChecks?: number;
+}
+
+// Change of a tracked transaction, with its status before the change (null when new)
+export type TransactionListener = (transaction: TrackedTransaction, previous: TransactionStatus | null) => void;
+
+const DEFAULT_DROP_AFTER_MS = 30 * 60 * 1000;
+const DEFAULT_REPLACED_AFTER_CHECKS = 3;
+
+// Replacements must outbid the pending fees; nodes require at least 10%
+const FEE_BUMP_PERCENT = 20n;
+
+const OUTCOME_MESSAGES: Record<Exclude<TransactionStatus, 'pending' | 'confirmed'>, string> = {
+  failed: 'The transaction was reverted on chain.',
+  cancelled: 'The transaction was cancelled.',
+  replaced: 'The transaction was replaced by another one from your wallet.',
+  dropped: 'The transaction was dropped by the network without being mined.',
+};
+
+/**
+ * Rejection of a tracked transaction that did not confirm. `reason` repeats
+ * the message so existing `err.reason` handlers show it.
+ */
+export class TransactionOutcomeError extends Error {
+  readonly status: TransactionStatus;
+  readonly reason: string;
+  readonly transaction: TrackedTransaction;
+
+  constructor(transaction: TrackedTransaction) {
+    const message = OUTCOME_MESSAGES[transaction.status as keyof typeof OUTCOME_MESSAGES];
+    super(message);
+    this.name = 'TransactionOutcomeError';
+    this.status = transaction.status;
+    this.reason = message;
+    this.transaction = transaction;
+  }
+}
+
+const bump = (fee: bigint): bigint => (fee * (100n + FEE_BUMP_PERCENT) + 99n) / 100n;
+
+const max = (a: bigint, b: bigint | null): bigint => (b !== null && b > a ? b : a);
+
+interface Waiter {
+  resolve: (receipt: ethers.TransactionReceipt) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Follows the transactions the app sends on one chain until their outcome is
+ * final, surviving reloads through localStorage. Each new block re-checks
+ * every unsettled transaction: a receipt for any attempt settles it, a nonce
+ * used up without any of our receipts for several checks in a row means it
+ * was replaced in the wallet, and one no node has seen for a while is dropped. Mined outcomes are
+ * re-checked until they have enough confirmations, so a reorg puts them back
+ * to pending.
+ */
+export class TransactionManager {
+  readonly chainId: number;
+  private readonly provider: TransactionProvider;
+  private readonly confirmations: number;
+  private readonly dropAfterMs: number;
+  private readonly replacedAfterChecks: number;
+  private signer: ReplacementSigner | null = null;
+  private transactions: TrackedTransaction[];
+  private readonly listeners = new Set<TransactionListener>();
+  private readonly waiters = new Map<string, Waiter[]>();
+  // Whether new blocks should trigger checks, between start() and stop()
+  private started = false;
+  private watching = false;
+  private checking: Promise<void> | null = null;
+
+  constructor(provider: TransactionProvider, chainId: number, options: TransactionManagerOptions = {}) {
+    this.provider = provider;
+    this.chainId = chainId;
+    this.confirmations = options.confirmations ?? 1;
+    this.dropAfterMs = options.dropAfterMs ?? DEFAULT_DROP_AFTER_MS;
+    this.replacedAfterChecks = options.replacedAfterChecks ?? DEFAULT_REPLACED_AFTER_CHECKS;
+    this.transactions = loadTransactions(chainId);
+  }
+
+  // Speed-ups and cancellations are signed by the wallet that sent the original
+  attachSigner(signer: ReplacementSigner | null): void {
+    this.signer = signer;
+  }
+
+  // Tracked transactions, newest first
+  list(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts tracking a transaction the wallet just sent. Resolves with the
+   * receipt once it (or a speed-up of it) is mined successfully, and rejects
+   * with a TransactionOutcomeError if it fails, is cancelled, replaced or
+   * dropped.
+   */
+  track(tx: SentTransaction, description: string): Promise<ethers.TransactionReceipt> {
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      id: tx.hash,
+      description,
+      chainId: this.chainId,
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      gasPrice: tx.maxFeePerGas === null ? tx.gasPrice : null,
+      attempts: [{ hash: tx.hash, kind: 'original' }],
+      status: 'pending',
+      minedHash: null,
+      blockNumber: null,
+      confirmations: 0,
+      final: false,
+      submittedAt: now,
+      lastSeenAt: now,
+    };
+
+    const settled = new Promise<ethers.TransactionReceipt>((resolve, reject) => {
+      this.waiters.set(tx.hash, [{ resolve, reject }]);
+    });
+    this.transactions = [transaction, ...this.transactions];
+    this.persist();
+    this.emit(transaction, null);
+    this.updateWatching();
+    return settled;
+  }
+
+  /**
+   * Resends a pending transaction with higher fees. Whichever attempt is
+   * mined settles it.
+   */
+  async speedUp(id: string): Promise<void> {
+    const transaction = await this.replaceable(id);
+    await this.replace(transaction, 'speedUp', {
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      gasLimit: transaction.gasLimit,
+    });
+  }
+
+  /**
+   * Replaces a pending transaction with an empty transfer to the sender at
+   * higher fees, so the original can no longer be mined.
+   */
+  async cancel(id: string): Promise<void> {
+    const transaction = await this.replaceable(id);
+    await this.replace(transaction, 'cancel', { to: transaction.from, data: '0x', value: 0n, gasLimit: 21000n });
+  }
+
+  // Removes a settled transaction from the list
+  dismiss(id: string): void {
+    this.transactions = this.transactions.filter((tx) => tx.id !== id || !tx.final);
+    this.persist();
+  }
+
+  // Checks unsettled transactions on every new block, including ones left from an earlier visit
+  start(): void {
+    this.started = true;
+    this.updateWatching();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.updateWatching();
+  }
+
+  /**
+   * Re-checks every unsettled transaction against the chain. Runs on each
+   * new block; concurrent calls share one run.
+   */
+  refresh(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.checkAll().finally(() => {
+        this.checking = null;
+        this.updateWatching();
+      });
+    }
+    return this.checking;
+  }
+
+  // ============ Internals ============
+
+  private readonly onBlock = () => {
+    this.refresh().catch((err) => console.error('Error checking transactions:', err));
+  };
+
+  private updateWatching(): void {
+    const needed = this.started && this.transactions.some((tx) => !tx.final);
+    if (needed && !this.watching) this.provider.on('block', this.onBlock);
+    if (!needed && this.watching) this.provider.off('block', this.onBlock);
+    this.watching = needed;
+  }
+
+  private async checkAll(): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    for (const transaction of this.transactions.filter((tx) => !tx.final)) {
+      await this.check(transaction, head);
+    }
+  }
+
+  private async check(transaction: TrackedTransaction, head: number): Promise<void> {
+    // Read the nonce before the receipts: if it is used up and none of our
+    // attempts has a receipt afterwards, a transaction we did not send took it
+    const nonceUsed = (await this.provider.getTransactionCount(transaction.from, 'latest')) > transaction.nonce;
+
+    for (const attempt of transaction.attempts) {
+      const receipt = await this.provider.getTransactionReceipt(attempt.hash);
+      if (receipt) {
+        this.mined(transaction, attempt, receipt, head);
+        return;
+      }
+    }
+
+    if (nonceUsed) {
+      // Our receipt may just not have reached this RPC yet
+      const nonceUsedChecks = (transaction.nonceUsedChecks ?? 0) + 1;
+      if (nonceUsedChecks >= this.replacedAfterChecks) {
+        this.settle(transaction, { status: 'replaced', final: true, nonceUsedChecks });
+      } else {
+        this.update(transaction, { nonceUsedChecks });
+      }
+      return;
+    }
+
+    // Only checks in a row count towards a replacement
+    if (transaction.nonceUsedChecks) transaction = this.update(transaction, { nonceUsedChecks: 0 });
+
+    if (transaction.status !== 'pending') {
+      // The mined attempt was reorged out
+      this.settle(transaction, { status: 'pending', minedHash: null, blockNumber: null, confirmations: 0 });
+    } else if (await this.isKnown(transaction)) {
+      this.update(transaction, { lastSeenAt: Date.now() });
+    } else if (Date.now() - transaction.lastSeenAt > this.dropAfterMs) {
+      this.settle(transaction, { status: 'dropped', final: true });
+    }
+  }
+
+  private async isKnown(transaction: TrackedTransaction): Promise<boolean> {
+    for (const attempt of transaction.attempts) {
+      if (await this.provider.getTransaction(attempt.hash)) return true;
+    }
+    return false;
+  }
+
+  private mined(
+    transaction: TrackedTransaction,
+    attempt: TransactionAttempt,
+    receipt: ethers.TransactionReceipt,
+    head: number
+  ): void {
+    const status: TransactionStatus =
+      attempt.kind === 'cancel' ? 'cancelled' : receipt.status === 1 ? 'confirmed' : 'failed';
+    const confirmations = Math.max(head - receipt.blockNumber + 1, 1);
+
+    this.settle(
+      transaction,
+      {
+        status,
+        minedHash: attempt.hash,
+        blockNumber: receipt.blockNumber,
+        confirmations,
+        final: confirmations >= this.confirmations,
+        nonceUsedChecks: 0,
+      },
+      receipt
+    );
+  }
+
+  // Applies a change and settles anyone awaiting the transaction once it leaves pending
+  private settle(
+    transaction: TrackedTransaction,
+    change: Partial<TrackedTransaction>,
+    receipt?: ethers.TransactionReceipt
+  ): void {
+    const updated = this.update(transaction, change);
+    if (updated.status === 'pending') return;
+
+    const waiters = this.waiters.get(updated.id) ?? [];
+    this.waiters.delete(updated.id);
+    waiters.forEach(({ resolve, reject }) =>
+      updated.status === 'confirmed' && receipt ? resolve(receipt) : reject(new TransactionOutcomeError(updated))
+    );
+  }
+
+  private update(transaction: TrackedTransaction, change: Partial<TrackedTransaction>): TrackedTransaction {
+    const updated = { ...transaction, ...change };
+    this.transactions = this.transactions.map((tx) => (tx.id === transaction.id ? updated : tx));
+    this.persist();
+
+    const visible = (['status', 'confirmations', 'attempts', 'final'] as const).some(
+      (field) => updated[field] !== transaction[field]
+    );
+    if (visible) this.emit(updated, transaction.status);
+    return updated;
+  }
+
+  private async replaceable(id: string): Promise<TrackedTransaction> {
+    const transaction = this.transactions.find((tx) => tx.id === id);
+    if (!transaction || transaction.status !== 'pending') throw new Error('This transaction is no longer pending');
+    if (!this.signer) throw new Error('Connect a wallet to send transactions');
+
+    const account = await this.signer.getAddress();
+    if (account.toLowerCase() !== transaction.from.toLowerCase()) {
+      throw new Error('Switch your wallet to the account that sent this transaction');
+    }
+    return transaction;
+  }
+
+  // Sends another transaction for the same nonce, outbidding the latest attempt
+  private async replace(
+    transaction: TrackedTransaction,
+    kind: TransactionAttempt['kind'],
+    request: Pick<ethers.TransactionRequest, 'to' | 'data' | 'value' | 'gasLimit'>
+  ): Promise<void> {
+    const feeData = await this.provider.getFeeData();
+
+    const fees =
+      transaction.maxFeePerGas !== null
+        ? {
+            maxFeePerGas: max(bump(transaction.maxFeePerGas), feeData.maxFeePerGas),
+            maxPriorityFeePerGas: max(bump(transaction.maxPriorityFeePerGas ?? 0n), feeData.maxPriorityFeePerGas),
+            gasPrice: null,
+          }
+        : {
+            maxFeePerGas: null,
+            maxPriorityFeePerGas: null,
+            gasPrice: max(bump(transaction.gasPrice ?? 0n), feeData.gasPrice),
+          };
+    if (fees.maxFeePerGas !== null && fees.maxFeePerGas < fees.maxPriorityFeePerGas!) {
+      fees.maxFeePerGas = fees.maxPriorityFeePerGas;
+    }
+
+    const sent = await this.signer!.sendTransaction({
+      ...request,
+      nonce: transaction.nonce,
+      chainId: this.chainId,
+      ...(fees.gasPrice !== null
+        ? { gasPrice: fees.gasPrice }
+        : { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }),
+    });
+
+    const current = this.transactions.find((tx) => tx.id === transaction.id) ?? transaction;
+    this.update(current, { ...fees, attempts: [...current.attempts, { hash: sent.hash, kind }], lastSeenAt: Date.now() });
+  }
+
+  private persist(): void {
+    saveTransactions(this.chainId, this.transactions);
+  }
+
+  private emit(transaction: TrackedTransaction, previous: TransactionStatus | null): void {
+    this.listeners.forEach((listener) => listener(transaction, previous));
+  }
+}
@@ -0,0 +1,24 @@
+import { ethers } from 'ethers';
+
+// Extra gas on top of the estimate, in case state moves before the transaction is mined
+const GAS_HEADROOM_PERCENT = 20n;
+
+/**
+ * Sends a contract call after simulating it: staticCall surfaces the revert
+ * reason before the wallet asks for a signature, and estimateGas sets the gas
+ * limit with some headroom. Reverts are thrown as ethers reports them.
+ */
+export const sendWithPreflight = async (
+  method: ethers.BaseContractMethod,
+  args: unknown[]
+): Promise<ethers.ContractTransactionResponse> => {
+  await method.staticCall(...args);
+  const gasLimit = ((await method.estimateGas(...args)) * (100n + GAS_HEADROOM_PERCENT)) / 100n;
+
+  // A trailing argument beyond the function's inputs is the overrides object
+  const hasOverrides = args.length > method.fragment.inputs.length;
+  const params = hasOverrides ? args.slice(0, -1) : args;
+  const overrides = hasOverrides ? (args[args.length - 1] as ethers.Overrides) : {};
+
+  return method.send(...params, { ...overrides, gasLimit });
+};
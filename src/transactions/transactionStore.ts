@@ -0,0 +1,87 @@
+// How a transaction ended up, or 'pending' while none of its attempts is mined
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled' | 'replaced' | 'dropped';
+
+// One signed transaction for a nonce: the original, a speed-up or a cancellation
+export interface TransactionAttempt {
+  hash: string;
+  kind: 'original' | 'speedUp' | 'cancel';
+}
+
+/**
+ * A transaction the app sent, followed until its outcome is final. Speed-ups
+ * and cancellations reuse the nonce, so they are attempts of the same entry.
+ */
+export interface TrackedTransaction {
+  // Hash of the original attempt
+  id: string;
+  description: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  // What the original attempt did, resent as is when speeding up
+  to: string | null;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  // Fees of the latest attempt; a replacement must outbid them
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+  attempts: TransactionAttempt[];
+  status: TransactionStatus;
+  // The attempt that was mined, and where
+  minedHash: string | null;
+  blockNumber: number | null;
+  confirmations: number;
+  // True once the outcome can no longer change
+  final: boolean;
+  submittedAt: number;
+  // Last time the RPC knew any of the attempts, to tell dropped ones apart
+  lastSeenAt: number;
+  // Consecutive checks that found the nonce used but none of our receipts.
+  // Lagging RPCs can report the nonce before the receipt of our own attempt.
+  nonceUsedChecks?: number;
+}
+
+// Settled transactions kept for the pending list, newest first
+const MAX_SETTLED = 10;
+
+const storageKey = (chainId: number) => `philanchain:transactions:${chainId}`;
+
+const BIGINT_FIELDS = ['value', 'gasLimit', 'maxFeePerGas', 'maxPriorityFeePerGas', 'gasPrice'] as const;
+
+// JSON has no bigint, so amounts and fees are written as decimal strings
+export const serializeTransactions = (transactions: TrackedTransaction[]): string =>
+  JSON.stringify(
+    transactions.map((tx) => ({
+      ...tx,
+      ...Object.fromEntries(BIGINT_FIELDS.map((field) => [field, tx[field]?.toString() ?? null])),
+    }))
+  );
+
+export const parseTransactions = (text: string): TrackedTransaction[] =>
+  (JSON.parse(text) as any[]).map((raw) => ({
+    ...raw,
+    ...Object.fromEntries(BIGINT_FIELDS.map((field) => [field, raw[field] === null ? null : BigInt(raw[field])])),
+  }));
+
+export const loadTransactions = (chainId: number): TrackedTransaction[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(chainId));
+    return stored ? parseTransactions(stored) : [];
+  } catch (err) {
+    console.error('Error loading transactions:', err);
+    return [];
+  }
+};
+
+// Keeps every unsettled transaction and the most recent settled ones
+export const saveTransactions = (chainId: number, transactions: TrackedTransaction[]): void => {
+  const settled = transactions.filter((tx) => tx.final).slice(0, MAX_SETTLED);
+  const kept = transactions.filter((tx) => !tx.final || settled.includes(tx));
+  try {
+    localStorage.setItem(storageKey(chainId), serializeTransactions(kept));
+  } catch (err) {
+    console.error('Error saving transactions:', err);
+  }
+};
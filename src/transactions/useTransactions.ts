@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TrackedTransaction } from './transactionStore';
+import { useTransactionManager } from './TransactionContext';
+
+/**
+ * The transactions tracked on the current network, newest first, kept up to
+ * date as they confirm or get replaced.
+ */
+export const useTransactions = () => {
+  const manager = useTransactionManager();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(() => manager?.list() ?? []);
+
+  useEffect(() => {
+    if (!manager) {
+      setTransactions([]);
+      return;
+    }
+    setTransactions(manager.list());
+    return manager.subscribe(() => setTransactions(manager.list()));
+  }, [manager]);
+
+  const dismiss = useCallback((id: string) => {
+    if (!manager) return;
+    manager.dismiss(id);
+    setTransactions(manager.list());
+  }, [manager]);
+
+  return { transactions, dismiss };
+};
@@ -0,0 +1,49 @@
+import { JsonVoteStore, MemoryVoteStore } from './VoteStore';
+
+const vote = {
+  milestoneId: 3,
+  round: 2,
+  approve: false,
+  voter: '0x00000000000000000000000000000000000000Aa',
+  nonce: 1n,
+  signature: '0x1234',
+};
+
+describe.each([
+  ['MemoryVoteStore', () => new MemoryVoteStore()],
+  ['JsonVoteStore', () => new JsonVoteStore()],
+])('%s', (_, createStore) => {
+  beforeEach(() => localStorage.clear());
+
+  test('keeps one vote per voter and milestone round', async () => {
+    const store = createStore();
+    const changed = { ...vote, approve: true, nonce: 2n, signature: '0x5678' };
+    const nextRound = { ...vote, round: 3, signature: '0x9abc' };
+
+    await store.addVote('1:0xcampaign', vote);
+    await store.addVote('1:0xcampaign', changed);
+    await store.addVote('1:0xcampaign', nextRound);
+
+    expect(await store.getVotes('1:0xcampaign')).toEqual([changed, nextRound]);
+    expect(await store.getVotes('1:0xother')).toEqual([]);
+  });
+
+  test('removes votes by signature', async () => {
+    const store = createStore();
+    const other = { ...vote, voter: '0x00000000000000000000000000000000000000Bb', signature: '0x5678' };
+    await store.addVote('1:0xcampaign', vote);
+    await store.addVote('1:0xcampaign', other);
+
+    await store.removeVotes('1:0xcampaign', [vote]);
+
+    expect(await store.getVotes('1:0xcampaign')).toEqual([other]);
+  });
+});
+
+test('JsonVoteStore skips malformed entries', async () => {
+  localStorage.setItem('philanchain:signed-votes:1:0xcampaign', JSON.stringify(['hello']));
+  const store = new JsonVoteStore();
+  await store.addVote('1:0xcampaign', vote);
+
+  expect(await store.getVotes('1:0xcampaign')).toEqual([vote]);
+});
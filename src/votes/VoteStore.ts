@@ -0,0 +1,140 @@
+import { SignedVote } from '../contracts/CrowdfundingClient';
+import { parseSignedVote, sameBallot, serializeSignedVote } from './signedVotes';
+
+/**
+ * Storage for signed votes waiting to be relayed, partitioned by a campaign
+ * key (chain ID plus contract address). Backends only hold votes; readers
+ * verify every signature, so an untrusted backend cannot forge voters.
+ */
+export interface VoteStore {
+  // Whether other visitors see the same votes, so readers should poll for new ones
+  readonly shared: boolean;
+
+  // All stored votes of a campaign, in no particular order
+  getVotes(campaign: string): Promise<SignedVote[]>;
+
+  // Adds a vote, replacing a vote of the same voter on the same milestone round
+  addVote(campaign: string, vote: SignedVote): Promise<void>;
+
+  // Removes votes once relayed, revoked or discarded
+  removeVotes(campaign: string, votes: SignedVote[]): Promise<void>;
+}
+
+/**
+ * Keeps votes for the lifetime of the page. Used in tests and where no
+ * browser storage is available.
+ */
+export class MemoryVoteStore implements VoteStore {
+  readonly shared = false;
+  private votes = new Map<string, SignedVote[]>();
+
+  async getVotes(campaign: string): Promise<SignedVote[]> {
+    return [...(this.votes.get(campaign) ?? [])];
+  }
+
+  async addVote(campaign: string, vote: SignedVote): Promise<void> {
+    this.votes.set(campaign, [...(await this.getVotes(campaign)).filter((v) => !sameBallot(v, vote)), vote]);
+  }
+
+  async removeVotes(campaign: string, votes: SignedVote[]): Promise<void> {
+    this.votes.set(campaign, (await this.getVotes(campaign)).filter((v) => !votes.some((r) => r.signature === v.signature)));
+  }
+}
+
+/**
+ * Keeps each campaign's votes as a JSON array in localStorage. Only the
+ * signer's own browser sees them, so they reach a relayer by copy and paste.
+ */
+export class JsonVoteStore implements VoteStore {
+  readonly shared = false;
+
+  static isSupported(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  async getVotes(campaign: string): Promise<SignedVote[]> {
+    const stored = localStorage.getItem(this.key(campaign));
+    if (!stored) return [];
+
+    // Entries that no longer parse are skipped rather than losing the rest
+    const votes: SignedVote[] = [];
+    for (const raw of JSON.parse(stored) as string[]) {
+      try {
+        votes.push(parseSignedVote(raw));
+      } catch {
+        console.warn('Skipping malformed stored vote');
+      }
+    }
+    return votes;
+  }
+
+  async addVote(campaign: string, vote: SignedVote): Promise<void> {
+    this.save(campaign, [...(await this.getVotes(campaign)).filter((v) => !sameBallot(v, vote)), vote]);
+  }
+
+  async removeVotes(campaign: string, votes: SignedVote[]): Promise<void> {
+    this.save(campaign, (await this.getVotes(campaign)).filter((v) => !votes.some((r) => r.signature === v.signature)));
+  }
+
+  private save(campaign: string, votes: SignedVote[]): void {
+    localStorage.setItem(this.key(campaign), JSON.stringify(votes.map(serializeSignedVote)));
+  }
+
+  private key(campaign: string): string {
+    return `philanchain:signed-votes:${campaign}`;
+  }
+}
+
+/**
+ * Keeps votes on a relay server every visitor reads, so the owner and other
+ * relayers see votes as soon as they are signed. The server serves
+ * `/campaigns/<campaign>/votes` as a JSON array of serialized votes, accepts a
+ * vote POSTed there and deletes `/campaigns/<campaign>/votes/<signature>`.
+ */
+export class HttpVoteStore implements VoteStore {
+  readonly shared = true;
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/$/, '');
+  }
+
+  async getVotes(campaign: string): Promise<SignedVote[]> {
+    const response = await this.request(campaign, '', { method: 'GET' });
+    const votes: SignedVote[] = [];
+    for (const raw of (await response.json()) as unknown[]) {
+      try {
+        votes.push(parseSignedVote(typeof raw === 'string' ? raw : JSON.stringify(raw)));
+      } catch {
+        console.warn('Skipping malformed relayed vote');
+      }
+    }
+    return votes;
+  }
+
+  async addVote(campaign: string, vote: SignedVote): Promise<void> {
+    await this.request(campaign, '', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: serializeSignedVote(vote),
+    });
+  }
+
+  async removeVotes(campaign: string, votes: SignedVote[]): Promise<void> {
+    await Promise.all(votes.map((v) => this.request(campaign, `/${v.signature}`, { method: 'DELETE' })));
+  }
+
+  private async request(campaign: string, path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.url}/campaigns/${encodeURIComponent(campaign)}/votes${path}`, init);
+    if (!response.ok) throw new Error(`Vote relay responded with ${response.status}`);
+    return response;
+  }
+}
+
+// The relay server when one is configured, then localStorage, otherwise an in-memory fallback
+export const createVoteStore = (): VoteStore => {
+  const relayUrl = process.env.REACT_APP_VOTE_RELAY_URL;
+  if (relayUrl) return new HttpVoteStore(relayUrl);
+  if (JsonVoteStore.isSupported()) return new JsonVoteStore();
+  return new MemoryVoteStore();
+};
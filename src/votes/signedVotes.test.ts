@@ -0,0 +1,19 @@
+import { parseSignedVote, serializeSignedVote } from './signedVotes';
+
+const vote = {
+  milestoneId: 3,
+  round: 2,
+  approve: false,
+  voter: '0x00000000000000000000000000000000000000Aa',
+  nonce: 2n ** 100n,
+  signature: '0x1234',
+};
+
+test('round-trips a signed vote through JSON', () => {
+  expect(parseSignedVote(serializeSignedVote(vote))).toEqual(vote);
+});
+
+test('rejects text that is not a signed vote', () => {
+  expect(() => parseSignedVote('hello')).toThrow('Not a signed vote');
+  expect(() => parseSignedVote(JSON.stringify({ ...vote, nonce: 5 }))).toThrow('Not a signed vote');
+});
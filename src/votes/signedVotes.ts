@@ -0,0 +1,44 @@
+import { SignedVote } from '../contracts/CrowdfundingClient';
+
+// Same voter, same milestone round: a newer signature replaces the older one
+export const sameBallot = (a: SignedVote, b: SignedVote) =>
+  a.milestoneId === b.milestoneId && a.round === b.round && a.voter.toLowerCase() === b.voter.toLowerCase();
+
+/**
+ * Encodes a signed vote as JSON so it can be copied to whoever relays it.
+ * The nonce is written as a decimal string since JSON has no bigint.
+ */
+export const serializeSignedVote = (vote: SignedVote): string =>
+  JSON.stringify({ ...vote, nonce: vote.nonce.toString() });
+
+/**
+ * Decodes a vote written by serializeSignedVote. Only the shape is checked;
+ * callers verify the signature with recoverVoteSigner.
+ */
+export const parseSignedVote = (text: string): SignedVote => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a signed vote');
+  }
+  if (
+    !Number.isInteger(raw?.milestoneId) ||
+    !Number.isInteger(raw.round) ||
+    typeof raw.approve !== 'boolean' ||
+    typeof raw.voter !== 'string' ||
+    typeof raw.nonce !== 'string' ||
+    !/^\d+$/.test(raw.nonce) ||
+    typeof raw.signature !== 'string'
+  ) {
+    throw new Error('Not a signed vote');
+  }
+  return {
+    milestoneId: raw.milestoneId,
+    round: raw.round,
+    approve: raw.approve,
+    voter: raw.voter,
+    nonce: BigInt(raw.nonce),
+    signature: raw.signature,
+  };
+};
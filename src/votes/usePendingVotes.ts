@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SignedVote, recoverVoteSigner, voteDomain } from '../contracts/CrowdfundingClient';
+import { useNetwork } from '../config/NetworkContext';
+import { sameBallot } from './signedVotes';
+import { createVoteStore } from './VoteStore';
+
+// One store per page, shared by every campaign
+const store = createVoteStore();
+
+// How often a shared store is checked for votes signed by other visitors
+const POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Signed votes for a campaign that have not been relayed yet, kept in the
+ * configured vote store until someone submits them. Votes whose signature
+ * does not match their voter are dropped.
+ */
+export const usePendingVotes = (campaign: string) => {
+  const { chainId } = useNetwork();
+  const [votes, setVotes] = useState<SignedVote[]>([]);
+
+  const key = campaign ? `${chainId}:${campaign.toLowerCase()}` : null;
+
+  useEffect(() => {
+    setVotes([]);
+    if (!key) return;
+
+    const domain = voteDomain(chainId, campaign);
+    const isGenuine = (vote: SignedVote) => {
+      try {
+        return recoverVoteSigner(domain, vote).toLowerCase() === vote.voter.toLowerCase();
+      } catch {
+        return false;
+      }
+    };
+
+    let cancelled = false;
+    const load = () =>
+      store
+        .getVotes(key)
+        .then((stored) => {
+          if (!cancelled) setVotes(stored.filter(isGenuine));
+        })
+        .catch((err) => console.error('Error loading signed votes:', err));
+
+    load();
+    const interval = store.shared ? setInterval(load, POLL_INTERVAL_MS) : undefined;
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [key, chainId, campaign]);
+
+  const add = useCallback(async (vote: SignedVote) => {
+    if (!key) return;
+    await store.addVote(key, vote);
+    setVotes((prev) => [...prev.filter((v) => !sameBallot(v, vote)), vote]);
+  }, [key]);
+
+  const remove = useCallback(async (removed: SignedVote[]) => {
+    if (!key) return;
+    setVotes((prev) => prev.filter((v) => !removed.some((r) => r.signature === v.signature)));
+    await store.removeVotes(key, removed);
+  }, [key]);
+
+  return { votes, add, remove, shared: store.shared };
+};
@@ -0,0 +1,54 @@
+import { Eip6963ProviderDetail, WalletProvider, discoverInjectedWallets, injectedConnectorOf } from './connectors';
+
+const walletWith = (accounts: string[]): WalletProvider => ({
+  request: jest.fn(async ({ method }) => (method === 'eth_requestAccounts' || accounts.length > 0 ? ['0xabc'] : [])),
+  on: jest.fn(),
+  removeListener: jest.fn(),
+});
+
+const detail = (rdns: string, provider = walletWith([])): Eip6963ProviderDetail => ({
+  info: { uuid: `${rdns}-uuid`, name: rdns, icon: '', rdns },
+  provider,
+});
+
+// Wallets answer requestProvider by announcing themselves
+const announceOnRequest = (wallets: Eip6963ProviderDetail[]) => {
+  const announce = () =>
+    wallets.forEach((wallet) =>
+      window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: Object.freeze(wallet) }))
+    );
+  window.addEventListener('eip6963:requestProvider', announce);
+  return () => window.removeEventListener('eip6963:requestProvider', announce);
+};
+
+test('discovers every announced wallet once, including late ones', () => {
+  const stopAnnouncing = announceOnRequest([detail('io.metamask'), detail('io.rabby'), detail('io.metamask')]);
+  const onChange = jest.fn();
+  const stop = discoverInjectedWallets(onChange);
+
+  expect(onChange).toHaveBeenLastCalledWith([
+    expect.objectContaining({ info: expect.objectContaining({ rdns: 'io.metamask' }) }),
+    expect.objectContaining({ info: expect.objectContaining({ rdns: 'io.rabby' }) }),
+  ]);
+
+  window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: detail('app.phantom') }));
+  expect(onChange.mock.calls[onChange.mock.calls.length - 1][0]).toHaveLength(3);
+
+  stop();
+  stopAnnouncing();
+  window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: detail('com.other') }));
+  expect(onChange.mock.calls[onChange.mock.calls.length - 1][0]).toHaveLength(3);
+});
+
+test('injected connectors reconnect only while the site is still authorized', async () => {
+  const authorized = injectedConnectorOf(detail('io.metamask', walletWith(['0xabc'])));
+  const forgotten = injectedConnectorOf(detail('io.rabby', walletWith([])));
+
+  expect(authorized.id).toBe('injected:io.metamask');
+  expect(authorized.icon).toBeNull();
+  expect(await authorized.reconnect()).not.toBeNull();
+  expect(await forgotten.reconnect()).toBeNull();
+
+  const provider = await forgotten.connect();
+  expect(provider.request).toHaveBeenCalledWith({ method: 'eth_requestAccounts' });
+});
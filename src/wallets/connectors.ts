@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import { SUPPORTED_NETWORKS } from '../config/networks';
+
+// EIP-1193 provider, with the events the app follows
+export interface WalletProvider extends ethers.Eip1193Provider {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * A way to reach a wallet: a browser extension or WalletConnect. The id stays
+ * the same across visits, so the last connector used can be found again.
+ */
+export interface WalletConnector {
+  id: string;
+  name: string;
+  // Data URI or URL of the wallet's logo, if it has one
+  icon: string | null;
+  // Asks the user to connect and resolves once accounts are shared
+  connect(): Promise<WalletProvider>;
+  // Resumes an earlier connection without prompting, or null if there is none
+  reconnect(): Promise<WalletProvider | null>;
+  disconnect(): Promise<void>;
+}
+
+// The connector used last, to reconnect to on the next visit
+export const LAST_CONNECTOR_STORAGE_KEY = 'philanchain:wallet';
+
+// ============ Injected wallets (EIP-6963) ============
+
+export interface Eip6963ProviderDetail {
+  info: ethers.Eip6963ProviderInfo;
+  provider: WalletProvider;
+}
+
+const accountsOf = async (provider: WalletProvider, method: 'eth_accounts' | 'eth_requestAccounts') =>
+  (await provider.request({ method })) as string[];
+
+// A browser extension; connecting asks it for accounts
+export const createInjectedConnector = (
+  id: string,
+  name: string,
+  icon: string | null,
+  provider: WalletProvider
+): WalletConnector => ({
+  id,
+  name,
+  icon,
+  connect: async () => {
+    await accountsOf(provider, 'eth_requestAccounts');
+    return provider;
+  },
+  // Extensions keep the site authorized, so shared accounts mean still connected
+  reconnect: async () => ((await accountsOf(provider, 'eth_accounts')).length > 0 ? provider : null),
+  // Extensions cannot be disconnected from the page; forgetting them is enough
+  disconnect: async () => {},
+});
+
+/**
+ * Collects the wallets announced through EIP-6963, calling `onChange` with
+ * every wallet found so far as more announce themselves. Returns a function
+ * that stops listening.
+ */
+export const discoverInjectedWallets = (onChange: (wallets: Eip6963ProviderDetail[]) => void): (() => void) => {
+  const wallets = new Map<string, Eip6963ProviderDetail>();
+
+  const handleAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<Eip6963ProviderDetail>).detail;
+    if (!detail?.info?.rdns || !detail.provider) return;
+    // Keyed by reverse DNS, which stays the same when the page reloads
+    wallets.set(detail.info.rdns, detail);
+    onChange(Array.from(wallets.values()));
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+};
+
+export const injectedConnectorOf = ({ info, provider }: Eip6963ProviderDetail): WalletConnector =>
+  createInjectedConnector(`injected:${info.rdns}`, info.name, info.icon || null, provider);
+
+// Injected by browser wallets, including those that predate EIP-6963
+declare global {
+  interface Window {
+    ethereum?: WalletProvider;
+  }
+}
+
+// Older extensions only inject window.ethereum and do not announce themselves
+export const legacyInjectedConnector = (): WalletConnector | null => {
+  const provider = window.ethereum;
+  return provider ? createInjectedConnector('injected', 'Browser wallet', null, provider) : null;
+};
+
+// ============ WalletConnect ============
+
+export const WALLETCONNECT_CONNECTOR_ID = 'walletConnect';
+
+/**
+ * Pairs with a mobile or desktop wallet over WalletConnect v2, showing a QR
+ * code to scan. The SDK is loaded on first use and keeps the session in
+ * local storage, which is what makes silent reconnects possible.
+ */
+export const createWalletConnectConnector = (projectId: string): WalletConnector => {
+  let provider: Promise<import('@walletconnect/ethereum-provider').default> | null = null;
+
+  const load = () => {
+    provider ??= import('@walletconnect/ethereum-provider').then(({ EthereumProvider }) =>
+      EthereumProvider.init({
+        projectId,
+        optionalChains: SUPPORTED_NETWORKS.map((n) => n.chainId) as [number, ...number[]],
+        rpcMap: Object.fromEntries(SUPPORTED_NETWORKS.map((n) => [n.chainId, n.rpcUrl])),
+        showQrModal: true,
+        metadata: {
+          name: 'PhilanChain',
+          description: 'Transparent fundraising on the blockchain',
+          url: window.location.origin,
+          icons: [],
+        },
+      })
+    );
+    // Let a failed load be retried
+    provider.catch(() => {
+      provider = null;
+    });
+    return provider;
+  };
+
+  return {
+    id: WALLETCONNECT_CONNECTOR_ID,
+    name: 'WalletConnect',
+    icon: null,
+    connect: async () => {
+      const wc = await load();
+      if (!wc.session) await wc.connect();
+      return wc;
+    },
+    reconnect: async () => {
+      const wc = await load();
+      return wc.session ? wc : null;
+    },
+    disconnect: async () => {
+      const wc = await load();
+      if (wc.session) await wc.disconnect();
+    },
+  };
+};
+
+// WalletConnect needs a project id from WalletConnect Cloud; without one it is not offered
+export const createConfiguredWalletConnectConnector = (): WalletConnector | null => {
+  const projectId = process.env.REACT_APP_WALLETCONNECT_PROJECT_ID;
+  return projectId ? createWalletConnectConnector(projectId) : null;
+};
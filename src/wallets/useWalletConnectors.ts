@@ -0,0 +1,26 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Eip6963ProviderDetail,
+  WalletConnector,
+  createConfiguredWalletConnectConnector,
+  discoverInjectedWallets,
+  injectedConnectorOf,
+  legacyInjectedConnector,
+} from './connectors';
+
+/**
+ * The wallets the user can connect with: every extension announced through
+ * EIP-6963 (or window.ethereum if none announce), then WalletConnect when
+ * configured. Grows as late extensions announce themselves.
+ */
+export const useWalletConnectors = (): WalletConnector[] => {
+  const [announced, setAnnounced] = useState<Eip6963ProviderDetail[]>([]);
+  const walletConnect = useMemo(createConfiguredWalletConnectConnector, []);
+
+  useEffect(() => discoverInjectedWallets(setAnnounced), []);
+
+  return useMemo(() => {
+    const injected = announced.length > 0 ? announced.map(injectedConnectorOf) : [legacyInjectedConnector()];
+    return [...injected, walletConnect].filter((c): c is WalletConnector => c !== null);
+  }, [announced, walletConnect]);
+};